@@ -0,0 +1,153 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  clientIndexKeys,
+  policyIndexKeys,
+  sessionIndexKeys,
+  taskIndexKeys,
+  INDEX_KEY_ATTRIBUTES,
+  type IndexKeys,
+} from '../src/lib/db/index-keys';
+import type { ChatSession, Client, Policy, Task } from '../src/types';
+
+const tableName = process.argv[2];
+const dryRun = process.argv.includes('--dry-run');
+
+if (!tableName) {
+  console.error('Usage: npx tsx scripts/backfill-index-keys.ts <TABLE_NAME> [--dry-run]');
+  console.error('');
+  console.error('Rewrites the GSI1/GSI2/GSI3 keys of every client, policy, task and chat session record');
+  console.error('to match src/lib/db/index-keys.ts. Run it after adding GSI2 and GSI3 to an existing table,');
+  console.error('or after a change to how records are keyed.');
+  process.exit(1);
+}
+
+interface EntityRecord {
+  pk: string;
+  sk: string;
+  entity_type: string;
+  data: { record_version?: number; updated_at?: string };
+  [attribute: string]: unknown;
+}
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+// How each entity type derives its index keys
+const KEY_BUILDERS: Record<string, (data: never) => IndexKeys> = {
+  CLIENT: (data: Client) => clientIndexKeys(data),
+  POLICY: (data: Policy) => policyIndexKeys(data),
+  TASK: (data: Task) => taskIndexKeys(data),
+  SESSION: (data: ChatSession) => sessionIndexKeys(data),
+};
+
+/**
+ * Check whether a record already carries exactly the keys it should
+ */
+function keysMatch(record: EntityRecord, keys: IndexKeys): boolean {
+  return INDEX_KEY_ATTRIBUTES.every((attribute) => record[attribute] === keys[attribute]);
+}
+
+/**
+ * Set the record's index keys, removing those for indexes it no longer belongs in.
+ * Skipped if the app rewrote the record meanwhile (its own writes carry current keys).
+ */
+async function writeKeys(record: EntityRecord, keys: IndexKeys): Promise<boolean> {
+  const names: Record<string, string> = { '#data': 'data', '#version': 'record_version' };
+  const values: Record<string, unknown> = {};
+  const sets: string[] = [];
+  const removes: string[] = [];
+
+  INDEX_KEY_ATTRIBUTES.forEach((attribute) => {
+    names[`#${attribute}`] = attribute;
+    if (keys[attribute] !== undefined) {
+      sets.push(`#${attribute} = :${attribute}`);
+      values[`:${attribute}`] = keys[attribute];
+    } else {
+      removes.push(`#${attribute}`);
+    }
+  });
+
+  // Sessions carry no record_version; their updated_at changes on every write instead
+  let condition: string;
+  if (record.entity_type === 'SESSION') {
+    names['#updated'] = 'updated_at';
+    values[':updated'] = record.data.updated_at;
+    condition = '#data.#updated = :updated';
+  } else if (record.data.record_version !== undefined) {
+    values[':version'] = record.data.record_version;
+    condition = '#data.#version = :version';
+  } else {
+    condition = 'attribute_not_exists(#data.#version)';
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: { pk: record.pk, sk: record.sk },
+        UpdateExpression: [
+          sets.length > 0 ? `SET ${sets.join(', ')}` : '',
+          removes.length > 0 ? `REMOVE ${removes.join(', ')}` : '',
+        ].join(' ').trim(),
+        ConditionExpression: condition,
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined,
+      })
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      console.log(`  ↷ ${record.pk} changed during backfill, skipped`);
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function backfill(): Promise<void> {
+  console.log(`Backfilling index keys in ${tableName}${dryRun ? ' (dry run)' : ''}`);
+
+  let scanned = 0;
+  let updated = 0;
+  let skipped = 0;
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const page = await docClient.send(
+      new ScanCommand({
+        TableName: tableName,
+        FilterExpression: 'entity_type IN (:client, :policy, :task, :session)',
+        ExpressionAttributeValues: { ':client': 'CLIENT', ':policy': 'POLICY', ':task': 'TASK', ':session': 'SESSION' },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    startKey = page.LastEvaluatedKey;
+
+    for (const record of (page.Items || []) as EntityRecord[]) {
+      scanned++;
+      const keys = KEY_BUILDERS[record.entity_type](record.data as never);
+      if (keysMatch(record, keys)) {
+        continue;
+      }
+
+      console.log(`  ${dryRun ? '•' : '✓'} ${record.pk}`);
+      if (dryRun || (await writeKeys(record, keys))) {
+        updated++;
+      } else {
+        skipped++;
+      }
+    }
+  } while (startKey);
+
+  console.log(`\nScanned ${scanned} records, ${dryRun ? 'would update' : 'updated'} ${updated}, skipped ${skipped}`);
+}
+
+backfill().catch((error) => {
+  console.error('\n❌ Backfill failed:', error);
+  process.exit(1);
+});
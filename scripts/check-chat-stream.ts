@@ -0,0 +1,202 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import { createMockLLMServer, MOCK_REPLY } from './mock-llm';
+import { installMemoryTable, type MemoryItem } from './memory-table';
+import { runWithAccess } from '../src/lib/db/access';
+import { taskIndexKeys } from '../src/lib/db/index-keys';
+import { processChat, streamChat } from '../src/lib/chat/pipeline';
+import { CARD_PATTERN } from '../src/lib/ai/parse-content';
+import type { AdvisorIdentity, ChatResponse, ChatStreamEvent, Task } from '../src/types';
+
+/**
+ * Drives streamChat against the mock LLM server (mock-llm.ts) and checks the events it emits:
+ * text as tokens, each card once, then a single done event whose response matches what
+ * processChat returns for the same reply. Also covers a provider that is down and a stream
+ * cut off part-way. DynamoDB is replaced by an in-memory table seeded with a few tasks.
+ *
+ * Usage: node check-chat-stream.js
+ */
+
+const ADVISOR: AdvisorIdentity = { advisor_id: 'AM001', role: 'advisor' };
+const MESSAGE = 'show all my tasks';
+
+// ---------------------------------------------------------------------------
+// Table
+// ---------------------------------------------------------------------------
+
+const table = installMemoryTable();
+
+function seedTasks(): void {
+  const today = new Date().toISOString().slice(0, 10);
+  const tasks: Task[] = [
+    {
+      task_id: 'T000001',
+      title: 'Review Q4 Portfolio Performance',
+      description: 'Quarterly review',
+      status: 'needs-review',
+      due_date: today,
+      priority: 'high',
+      client_id: 'C001',
+      client_name: 'Dylan Jackson',
+      assigned_to: ADVISOR.advisor_id,
+      tags: [],
+      ai_completed: true,
+      created_at: today,
+      updated_at: today,
+    },
+    {
+      task_id: 'T000002',
+      title: 'Call about renewal',
+      description: '',
+      status: 'pending',
+      due_date: today,
+      priority: 'medium',
+      assigned_to: ADVISOR.advisor_id,
+      tags: [],
+      ai_completed: false,
+      created_at: today,
+      updated_at: today,
+    },
+  ];
+  for (const task of tasks) {
+    const item: MemoryItem = { pk: `TASK#${task.task_id}`, sk: 'DETAIL', entity_type: 'TASK', data: task, ...taskIndexKeys(task) };
+    table.items.set(`${item.pk}|${item.sk}`, item);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function stream(message: string): Promise<{ events: ChatStreamEvent[]; result: ChatResponse | Error }> {
+  const events: ChatStreamEvent[] = [];
+  try {
+    const result = await runWithAccess(ADVISOR, () => streamChat(message, (event) => events.push(event)), 'chat');
+    return { events, result };
+  } catch (error) {
+    return { events, result: error as Error };
+  }
+}
+
+const reply = (message: string) => runWithAccess(ADVISOR, () => processChat(message), 'chat');
+
+// Reply text as it reads without its cards, whitespace collapsed
+const readable = (text: string) => text.replace(CARD_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Check the shape every stream shares: tokens and cards, then exactly one done event, last,
+ * carrying the text and cards that were streamed
+ */
+function checkSequence(events: ChatStreamEvent[], result: ChatResponse | Error): ChatResponse {
+  assert.ok(!(result instanceof Error), `streamChat failed: ${(result as Error).message}`);
+  const done = events.filter((event) => event.type === 'done');
+  assert.equal(done.length, 1, 'one done event');
+  assert.equal(events[events.length - 1].type, 'done', 'done is the last event');
+  assert.ok(!events.some((event) => event.type === 'error'), 'no error event');
+
+  const response = (done[0] as { response: ChatResponse }).response;
+  assert.deepEqual(response, result, 'done carries the returned response');
+
+  const text = events.map((event) => (event.type === 'token' ? event.text : '')).join('');
+  assert.equal(readable(text), readable(response.content), 'tokens spell out the reply text');
+  assert.ok(!/<<<CARD/.test(text), 'no card marker leaks into the tokens');
+
+  const cards = events.flatMap((event) => (event.type === 'card' ? [event.card] : []));
+  assert.deepEqual(cards, response.cards ?? [], 'each card is streamed once, in reply order');
+  return response;
+}
+
+async function withLLMPath(baseUrl: string, path: string, check: () => Promise<void>): Promise<void> {
+  process.env.LLM_API_URL = `${baseUrl}${path}/v1/chat/completions`;
+  await check();
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  process.env.TABLE_NAME = 'check-chat-stream';
+  process.env.LLM_API_KEY = 'test';
+  process.env.LLM_TOOLS_ENABLED = 'false';
+  process.env.LLM_MAX_RETRIES = '0';
+  process.env.LLM_RETRY_BASE_DELAY_MS = '1';
+  seedTasks();
+
+  const requests: string[] = [];
+  const server = createMockLLMServer();
+  server.on('request', (req) => requests.push(req.url ?? ''));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Silence the pipeline's logging; failures are reported below
+  const { log, error, warn } = console;
+  const quiet = () => {
+    console.log = () => {};
+    console.error = () => {};
+    console.warn = () => {};
+  };
+  const pass = (name: string) => log(`  ✓ ${name}`);
+  log('Checking streamChat against the mock LLM server');
+
+  try {
+    await withLLMPath(baseUrl, '', async () => {
+      quiet();
+      const { events, result } = await stream(MESSAGE);
+      const streamed = checkSequence(events, result);
+      assert.ok(!streamed.degraded, 'not degraded');
+      assert.equal(readable(streamed.content), readable(MOCK_REPLY), 'reply is the model text');
+      assert.ok(streamed.cards?.some((card) => card.type === 'task-list'), 'task-list card streamed');
+      pass('streamed reply: tokens, cards, then done');
+
+      const json = await reply(MESSAGE);
+      assert.equal(json.content, streamed.content, 'same content as the JSON endpoint');
+      assert.deepEqual(json.cards, streamed.cards, 'same cards as the JSON endpoint');
+      assert.deepEqual(json.warnings, streamed.warnings, 'same warnings as the JSON endpoint');
+      pass('done response matches processChat');
+    });
+
+    await withLLMPath(baseUrl, '/fail', async () => {
+      const { events, result } = await stream(MESSAGE);
+      const streamed = checkSequence(events, result);
+      assert.equal(streamed.degraded, true, 'degraded');
+      assert.ok(streamed.error, 'names the failure');
+      assert.ok(streamed.cards?.some((card) => card.type === 'task-list'), 'data cards in place of the reply');
+
+      const json = await reply(MESSAGE);
+      assert.equal(json.degraded, true, 'JSON endpoint degrades too');
+      assert.equal(json.content, streamed.content, 'same degraded content as the JSON endpoint');
+      assert.deepEqual(json.cards, streamed.cards, 'same data cards as the JSON endpoint');
+      pass('provider down: degraded done with data cards, no error event');
+    });
+
+    await withLLMPath(baseUrl, '/drop', async () => {
+      const before = requests.filter((url) => url.startsWith('/drop/')).length;
+      const { events, result } = await stream(MESSAGE);
+      const streamed = checkSequence(events, result);
+      assert.equal(streamed.degraded, true, 'degraded');
+      assert.ok(streamed.content.startsWith('Here are your tasks for today.'), 'keeps the text already streamed');
+      assert.ok(streamed.cards?.some((card) => card.type === 'task-list'), 'followed by data cards');
+      const attempts = requests.filter((url) => url.startsWith('/drop/')).length - before;
+      assert.equal(attempts, 1, 'a stream that passed text on is not retried');
+      pass('stream cut off: streamed text kept, then data cards');
+    });
+
+    table.failQueries = true;
+    const { events, result } = await stream(MESSAGE);
+    table.failQueries = false;
+    assert.ok(result instanceof Error, 'streamChat rejects');
+    assert.ok(!events.some((event) => event.type === 'done'), 'no done event');
+    pass('pipeline failure: rejects before done (the handler reports it as an error event)');
+
+    log('\nAll stream checks passed');
+  } finally {
+    Object.assign(console, { log, error, warn });
+    server.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('\n❌ Stream check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,232 @@
+import assert from 'node:assert/strict';
+import { installMemoryTable } from './memory-table';
+import { runWithAccess } from '../src/lib/db/access';
+import { createClient } from '../src/lib/db/clients';
+import { createPolicy } from '../src/lib/db/policies';
+import { createTask } from '../src/lib/db/tasks';
+import { gatherDataForIntent, type PromptData } from '../src/lib/chat/data';
+import type { AdvisorIdentity, ChatContext, ExtractedEntities, UserIntent } from '../src/types';
+
+/**
+ * Runs the data gatherer of every intent against a small book of clients, policies and tasks,
+ * and checks each one comes back with the records its intent is about. The table is the
+ * in-memory one from memory-table.ts, seeded through the app's own create functions.
+ *
+ * Usage: node check-intent-data.js
+ */
+
+const ADVISOR: AdvisorIdentity = { advisor_id: 'AM001', role: 'advisor' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What a gatherer is given, and which part of its data must not come back empty
+ */
+interface IntentCase {
+  entities?: ExtractedEntities;
+  context?: ChatContext;
+  expect: keyof PromptData;
+}
+
+interface SeededBook {
+  clientId: string;
+  clientName: string;
+  taskId: string;
+  policyId: string;
+  policyNumber: string;
+}
+
+/**
+ * Typed as a full Record, so an intent added to UserIntent without a case here fails the type-check
+ */
+function intentCases(book: SeededBook): Record<UserIntent, IntentCase> {
+  const client = { client_name: book.clientName };
+  const focused: ChatContext = { focused_client_id: book.clientId, focused_task_id: book.taskId };
+
+  return {
+    show_todays_tasks: { expect: 'tasks' },
+    show_all_tasks: { expect: 'tasks' },
+    show_task_status: { entities: { task_id: book.taskId }, expect: 'focusedTask' },
+    show_pending_reviews: { expect: 'tasks' },
+    show_overdue_tasks: { expect: 'tasks' },
+    show_high_priority_tasks: { expect: 'tasks' },
+    show_tasks_this_week: { expect: 'tasks' },
+    show_tasks_this_month: { expect: 'tasks' },
+    show_in_progress_tasks: { expect: 'tasks' },
+    show_completed_tasks: { expect: 'tasks' },
+    approve_task: { entities: { task_id: book.taskId }, expect: 'focusedTask' },
+    reject_task: { entities: { task_id: book.taskId }, expect: 'focusedTask' },
+    complete_task: { entities: { task_id: book.taskId }, expect: 'focusedTask' },
+    create_task: { entities: client, expect: 'focusedClient' },
+
+    show_client_info: { entities: client, expect: 'focusedClient' },
+    show_client_list: { expect: 'clients' },
+    search_clients: { entities: { search_query: 'Jackson' }, expect: 'clients' },
+    show_client_policies: { entities: client, expect: 'policies' },
+    show_recent_clients: { expect: 'clients' },
+    show_high_net_worth_clients: { expect: 'clients' },
+    show_active_clients: { expect: 'clients' },
+    show_inactive_clients: { expect: 'clients' },
+    show_prospect_clients: { expect: 'clients' },
+    show_clients_by_portfolio: { expect: 'clients' },
+
+    show_policy_info: { entities: { policy_id: book.policyId }, expect: 'focusedPolicy' },
+    show_policies_for_client: { entities: { client_id: book.clientId }, expect: 'policies' },
+    show_expiring_policies: { expect: 'policies' },
+    show_expiring_this_week: { expect: 'policies' },
+    show_expiring_this_month: { expect: 'policies' },
+    show_policies_by_type: { entities: { policy_type: 'Life Insurance' }, expect: 'policies' },
+    show_policies_by_status: { entities: { policy_status: 'Active' }, expect: 'policies' },
+    show_overdue_policies: { expect: 'policies' },
+
+    show_dashboard: { expect: 'metrics' },
+    show_task_summary: { expect: 'metrics' },
+    show_client_summary: { expect: 'metrics' },
+    show_policy_summary: { expect: 'metrics' },
+    show_portfolio_summary: { expect: 'metrics' },
+    show_today_summary: { expect: 'metrics' },
+    show_week_summary: { expect: 'metrics' },
+
+    draft_email: { context: focused, expect: 'focusedClient' },
+    draft_meeting_notes: { context: focused, expect: 'focusedTask' },
+    draft_birthday_message: { expect: 'clients' },
+    draft_renewal_notice: { expect: 'policies' },
+
+    create_compliance_check: { context: focused, expect: 'focusedClient' },
+    create_portfolio_analysis: { context: focused, expect: 'focusedClient' },
+    create_client_summary: { entities: client, expect: 'focusedClient' },
+    create_meeting_prep: { context: focused, expect: 'focusedTask' },
+    create_report: { context: focused, expect: 'focusedClient' },
+
+    global_search: { entities: { search_query: 'Jackson' }, expect: 'clients' },
+    search_tasks: { entities: { search_query: 'portfolio' }, expect: 'tasks' },
+    search_policies: { entities: { search_query: book.policyNumber }, expect: 'policies' },
+
+    general_question: { expect: 'tasks' },
+    greeting: { expect: 'tasks' },
+    help: { expect: 'tasks' },
+    unknown: { expect: 'tasks' },
+  };
+}
+
+/**
+ * A book that every intent has something to find in: clients in each status, policies renewing
+ * this week with an overdue payment, and tasks due today, overdue, awaiting review and done
+ */
+async function seedBook(): Promise<SeededBook> {
+  const now = new Date();
+  const startOfWeek = new Date(now);
+  startOfWeek.setDate(now.getDate() - now.getDay());
+  startOfWeek.setHours(0, 0, 0, 0);
+  const endOfWeek = new Date(startOfWeek.getTime() + 7 * DAY_MS);
+  const renewsThisWeek = new Date(Math.min(now.getTime() + DAY_MS / 2, endOfWeek.getTime() - 60 * 1000));
+  const birthday = new Date(now.getTime() + 5 * DAY_MS);
+
+  const dylan = await createClient({
+    first_name: 'Dylan',
+    last_name: 'Jackson',
+    client_status: 'Active',
+    client_segment: 'High Net Worth',
+    portfolio_value: 2500000,
+    date_of_birth: new Date(Date.UTC(1975, birthday.getMonth(), birthday.getDate())).toISOString().slice(0, 10),
+    primary_email: 'dylan.jackson@example.com',
+  });
+  await createClient({ first_name: 'Priya', last_name: 'Shah', client_status: 'Inactive', portfolio_value: 400000 });
+  await createClient({ first_name: 'Sam', last_name: 'Lee', client_status: 'Prospect' });
+
+  const policy = await createPolicy({
+    client_id: dylan.client_id,
+    policy_number: 'LIF-2024-0001',
+    policy_type: 'Life Insurance',
+    policy_status: 'Active',
+    coverage_start_date: '2024-01-01',
+    coverage_amount: 1000000,
+    premium_amount: 250,
+    premium_frequency: 'Monthly',
+    payment_status: 'Overdue',
+    issue_date: '2024-01-01',
+    effective_date: '2024-01-01',
+    renewal_date: renewsThisWeek.toISOString(),
+  });
+
+  const task = {
+    description: '',
+    client_id: dylan.client_id,
+    client_name: 'Dylan Jackson',
+    assigned_to: ADVISOR.advisor_id,
+    tags: [],
+    ai_completed: false,
+  };
+  const review = await createTask({
+    ...task,
+    title: 'Review Q4 Portfolio Performance',
+    status: 'needs-review',
+    priority: 'high',
+    due_date: now.toISOString(),
+    ai_completed: true,
+  });
+  await createTask({ ...task, title: 'Call about renewal', status: 'pending', priority: 'medium', due_date: now.toISOString() });
+  await createTask({
+    ...task,
+    title: 'Send beneficiary forms',
+    status: 'in-progress',
+    priority: 'low',
+    due_date: new Date(now.getTime() - 2 * DAY_MS).toISOString(),
+  });
+  await createTask({
+    ...task,
+    title: 'File KYC documents',
+    status: 'completed',
+    priority: 'low',
+    due_date: new Date(now.getTime() - 3 * DAY_MS).toISOString(),
+    completed_at: new Date(now.getTime() - DAY_MS).toISOString(),
+  });
+
+  return {
+    clientId: dylan.client_id,
+    clientName: 'Dylan Jackson',
+    taskId: review.task_id,
+    policyId: policy.policy_id,
+    policyNumber: policy.policy_number,
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  if (value && typeof value === 'object') return Object.keys(value).length === 0;
+  return value === undefined || value === null;
+}
+
+async function main(): Promise<void> {
+  process.env.TABLE_NAME = 'check-intent-data';
+  installMemoryTable();
+
+  // Silence the app's logging; results are reported below
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  const failures: string[] = [];
+
+  try {
+    await runWithAccess(ADVISOR, async () => {
+      const book = await seedBook();
+      const cases = Object.entries(intentCases(book)) as [UserIntent, IntentCase][];
+
+      for (const [intent, { entities = {}, context, expect }] of cases) {
+        const { records } = await gatherDataForIntent(intent, entities, context);
+        if (isEmpty(records[expect])) {
+          const found = Object.keys(records).filter((key) => !isEmpty(records[key as keyof PromptData]));
+          failures.push(`${intent}: no ${expect} (found ${found.join(', ') || 'nothing'})`);
+        }
+      }
+      assert.equal(failures.length, 0, `gatherers came back empty:\n  ${failures.join('\n  ')}`);
+      log(`✓ All ${cases.length} intents gathered data`);
+    }, 'chat');
+  } finally {
+    Object.assign(console, { log, warn });
+  }
+}
+
+main().catch((error) => {
+  console.error('\n❌ Intent data check failed:', error.message ?? error);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import { signLocalJwt } from '../src/lib/auth/jwt';
+import { ROLE_PRECEDENCE } from '../src/lib/auth/permissions';
+import type { AdvisorRole } from '../src/types';
+
+const args = process.argv.slice(2);
+const advisorId = args.find((arg) => !arg.startsWith('--'));
+const roleArg = args.find((arg) => arg.startsWith('--role='));
+const role = roleArg ? roleArg.slice('--role='.length) : 'advisor';
+const ttlArg = args.find((arg) => arg.startsWith('--ttl='));
+const ttlSeconds = ttlArg ? Number(ttlArg.slice('--ttl='.length)) : undefined;
+
+if (
+  !advisorId ||
+  !ROLE_PRECEDENCE.includes(role as AdvisorRole) ||
+  !process.env.AUTH_LOCAL_SIGNING_KEY || (ttlSeconds !== undefined && !(ttlSeconds > 0))
+) {
+  console.error('Usage: AUTH_LOCAL_SIGNING_KEY=<key> node issue-local-token.js <ADVISOR_ID> [--role=<role>] [--ttl=<seconds>]');
+  console.error('');
+  console.error('Prints an HS256 bearer token for a stack deployed with the same AuthLocalSigningKey.');
+  console.error('ADVISOR_ID is the account_manager_id of the clients the token can see.');
+  console.error(`role is one of ${ROLE_PRECEDENCE.join(', ')} (default advisor); admin and compliance see every client.`);
+  process.exit(1);
+}
+
+// Put the ID in the claim the stack reads it from, as well as sub
+const advisorClaim = process.env.AUTH_ADVISOR_CLAIM || 'sub';
+
+console.log(
+  signLocalJwt(
+    {
+      sub: advisorId,
+      [advisorClaim]: advisorId,
+      role,
+      iss: process.env.AUTH_ISSUER || undefined,
+      aud: process.env.AUTH_AUDIENCE || undefined,
+    },
+    ttlSeconds
+  )
+);
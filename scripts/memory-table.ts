@@ -0,0 +1,88 @@
+import { docClient } from '../src/lib/db/dynamodb';
+
+/**
+ * In-memory stand-in for the app's DynamoDB table, for checks that run the app code without AWS.
+ * It replaces docClient.send and answers the commands lib/db sends: get, put, transactions,
+ * batches and key-condition queries on the table or a GSI. Conditions are not
+ * evaluated and every write succeeds.
+ */
+
+export type MemoryItem = Record<string, unknown> & { pk: string; sk: string };
+
+export interface MemoryTable {
+  items: Map<string, MemoryItem>;
+  // While set, every query throws, as if the table were unreachable
+  failQueries: boolean;
+}
+
+type Input = Record<string, any>;
+
+const keyOf = (key: Input) => `${key.pk}|${key.sk}`;
+
+function query(table: MemoryTable, input: Input): MemoryItem[] {
+  if (table.failQueries) {
+    throw new Error('Table unavailable');
+  }
+  const index: string | undefined = input.IndexName;
+  const pkAttr = index ? `${index}PK` : 'pk';
+  const skAttr = index ? `${index}SK` : 'sk';
+  const values = input.ExpressionAttributeValues ?? {};
+
+  const items = [...table.items.values()]
+    .filter((item) => item[pkAttr] === values[':pk'])
+    .filter((item) => {
+      const sk = String(item[skAttr] ?? '');
+      if (values[':skFrom'] !== undefined) {
+        return sk >= values[':skFrom'] && sk <= values[':skTo'];
+      }
+      return values[':skPrefix'] === undefined || sk.startsWith(values[':skPrefix']);
+    })
+    .sort((a, b) => String(a[skAttr]).localeCompare(String(b[skAttr])));
+  return input.ScanIndexForward === false ? items.reverse() : items;
+}
+
+function write(table: MemoryTable, request: Input): void {
+  if (request.PutRequest || request.Put) {
+    const item = (request.PutRequest ?? request.Put).Item as MemoryItem;
+    table.items.set(keyOf(item), item);
+  } else if (request.DeleteRequest || request.Delete) {
+    table.items.delete(keyOf((request.DeleteRequest ?? request.Delete).Key));
+  }
+}
+
+/**
+ * Point docClient at a new, empty in-memory table
+ */
+export function installMemoryTable(): MemoryTable {
+  const table: MemoryTable = { items: new Map(), failQueries: false };
+
+  (docClient as unknown as { send: (command: { input: Input }) => Promise<unknown> }).send = async ({ input }) => {
+    if (input.KeyConditionExpression) {
+      const items = query(table, input);
+      return { Items: input.Limit ? items.slice(0, input.Limit) : items };
+    }
+    if (input.TransactItems) {
+      input.TransactItems.forEach((request: Input) => write(table, request));
+      return {};
+    }
+    if (input.RequestItems) {
+      const [[tableName, requests]] = Object.entries(input.RequestItems) as [string, any][];
+      if (Array.isArray(requests)) {
+        requests.forEach((request: Input) => write(table, request));
+        return { UnprocessedItems: {} };
+      }
+      const found = requests.Keys.map((key: Input) => table.items.get(keyOf(key))).filter(Boolean);
+      return { Responses: { [tableName]: found } };
+    }
+    if (input.Item) {
+      write(table, { Put: input });
+      return {};
+    }
+    if (input.Key && !input.UpdateExpression) {
+      return { Item: table.items.get(keyOf(input.Key)) };
+    }
+    throw new Error(`Memory table can't answer a command with ${Object.keys(input).join(', ')}`);
+  };
+
+  return table;
+}
@@ -0,0 +1,14 @@
+import { createMockLLMServer } from './mock-llm';
+
+/**
+ * Runs the mock LLM server (see mock-llm.ts).
+ *
+ * Usage: node mock-llm-server.js [PORT]
+ * Then:  LLM_API_URL=http://localhost:<PORT>/v1/chat/completions LLM_API_KEY=test
+ */
+
+const port = Number(process.argv[2] || process.env.PORT || 8787);
+
+createMockLLMServer().listen(port, () => {
+  console.log(`Mock LLM server listening on http://localhost:${port}/v1/chat/completions`);
+});
@@ -0,0 +1,161 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+
+/**
+ * Local stand-in for the OpenAI-compatible chat completions endpoint.
+ * Streams the reply as server-sent events when the request sets "stream": true,
+ * otherwise returns a regular JSON completion. When tools are offered and no
+ * tool result has been sent yet, the first reply asks for get_today_summary.
+ *
+ * A path prefix simulates an unhealthy provider:
+ *   /fail/...  every request gets a 503
+ *   /drop/...  a stream sends DROP_AFTER_CHUNKS chunks, then the connection is cut
+ */
+
+// Chunk size and delay are small so card markers get split across events
+const CHUNK_SIZE = 12;
+const CHUNK_DELAY_MS = 15;
+
+export const MOCK_REPLY = [
+  'Here are your tasks for today.\n\n',
+  '<<<CARD:task-list:{"title":"Today\'s Tasks","tasks":[{"task_id":"T000001","title":"Review Q4 Portfolio Performance","status":"needs-review","due_date":"2026-01-21T10:00:00Z","priority":"high","client_name":"Dylan Jackson","ai_completed":true}],"show_actions":true}>>>\n\n',
+  'Let me know if you want me to draft anything.',
+].join('');
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function chunkText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Chunks a /drop/ stream sends before cutting the connection
+export const DROP_AFTER_CHUNKS = 3;
+
+async function streamReply(res: ServerResponse, model: string, dropAfter?: number): Promise<void> {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  for (const [index, piece] of chunkText(MOCK_REPLY, CHUNK_SIZE).entries()) {
+    if (index === dropAfter) {
+      res.destroy();
+      return;
+    }
+    const chunk = {
+      id: 'mock-stream',
+      object: 'chat.completion.chunk',
+      model,
+      choices: [{ index: 0, delta: { content: piece }, finish_reason: null }],
+    };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS));
+  }
+
+  const finalChunk = {
+    id: 'mock-stream',
+    object: 'chat.completion.chunk',
+    model,
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+  };
+  res.write(`data: ${JSON.stringify(finalChunk)}\n\n`);
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+function toolCallReply(res: ServerResponse, model: string): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      id: 'mock-completion',
+      object: 'chat.completion',
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              {
+                id: 'call_mock_1',
+                type: 'function',
+                function: { name: 'get_today_summary', arguments: '{}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    })
+  );
+}
+
+function jsonReply(res: ServerResponse, model: string): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      id: 'mock-completion',
+      object: 'chat.completion',
+      model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: MOCK_REPLY },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    })
+  );
+}
+
+function unavailableReply(res: ServerResponse): void {
+  res.writeHead(503, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { message: 'Service temporarily unavailable' } }));
+}
+
+/**
+ * Create the mock server; the caller decides where it listens
+ */
+export function createMockLLMServer(): Server {
+  return createServer(async (req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Method not allowed' }));
+      return;
+    }
+
+    try {
+      const body = JSON.parse((await readBody(req)) || '{}');
+      const model = body.model || 'mock-model';
+      console.log(`${new Date().toISOString()} ${req.url} stream=${Boolean(body.stream)} messages=${body.messages?.length ?? 0}`);
+
+      const hasToolResult = (body.messages || []).some((m: { role: string }) => m.role === 'tool');
+      if (req.url?.startsWith('/fail/')) {
+        unavailableReply(res);
+      } else if (body.stream) {
+        await streamReply(res, model, req.url?.startsWith('/drop/') ? DROP_AFTER_CHUNKS : undefined);
+      } else if (body.tools?.length && body.tool_choice !== 'none' && !hasToolResult) {
+        toolCallReply(res, model);
+      } else {
+        jsonReply(res, model);
+      }
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: (error as Error).message }));
+    }
+  });
+}
@@ -0,0 +1,131 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchWriteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  buildSearchTokenRecords,
+  SEARCH_TOKEN_ENTITY,
+  type SearchEntityType,
+  type SearchTokenRecord,
+} from '../src/lib/db/search-tokens';
+
+const tableName = process.argv[2];
+const dryRun = process.argv.includes('--dry-run');
+
+if (!tableName) {
+  console.error('Usage: npx tsx scripts/rebuild-search-index.ts <TABLE_NAME> [--dry-run]');
+  console.error('');
+  console.error('Rebuilds the full-text search token items of every client, policy and task');
+  console.error('from src/lib/db/search-tokens.ts, then removes token items nothing produced.');
+  console.error('Run it after seeding, after changing how records are tokenized, or if search drifts.');
+  process.exit(1);
+}
+
+interface ScannedRecord {
+  pk: string;
+  sk: string;
+  entity_type: string;
+  data: never;
+}
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+// DynamoDB BatchWrite supports max 25 items per request
+const BATCH_SIZE = 25;
+
+// Search entity type of each indexed record type
+const SEARCHABLE: Record<string, SearchEntityType> = {
+  CLIENT: 'client',
+  POLICY: 'policy',
+  TASK: 'task',
+};
+
+type WriteRequest = { PutRequest: { Item: SearchTokenRecord } } | { DeleteRequest: { Key: { pk: string; sk: string } } };
+
+/**
+ * Send write requests in batches, resending whatever DynamoDB leaves unprocessed
+ */
+async function batchWrite(requests: WriteRequest[]): Promise<void> {
+  for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+    let pending: unknown[] = requests.slice(i, i + BATCH_SIZE);
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 100));
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [tableName]: pending as never } })
+      );
+      pending = result.UnprocessedItems?.[tableName] || [];
+    }
+  }
+}
+
+/**
+ * Scan every item matching a filter, a page at a time
+ */
+async function scanPages(
+  filter: { expression: string; values: Record<string, unknown> },
+  onPage: (items: ScannedRecord[]) => Promise<void>
+): Promise<void> {
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const page = await docClient.send(
+      new ScanCommand({
+        TableName: tableName,
+        FilterExpression: filter.expression,
+        ExpressionAttributeValues: filter.values,
+        ExclusiveStartKey: startKey,
+      })
+    );
+    startKey = page.LastEvaluatedKey;
+    await onPage((page.Items || []) as ScannedRecord[]);
+  } while (startKey);
+}
+
+async function rebuild(): Promise<void> {
+  console.log(`Rebuilding search index in ${tableName}${dryRun ? ' (dry run)' : ''}`);
+
+  // Token items are rewritten before stale ones are removed, so search keeps working throughout
+  const written = new Set<string>();
+  let records = 0;
+
+  await scanPages(
+    {
+      expression: 'entity_type IN (:client, :policy, :task)',
+      values: { ':client': 'CLIENT', ':policy': 'POLICY', ':task': 'TASK' },
+    },
+    async (items) => {
+      const tokens = items.flatMap((record) => buildSearchTokenRecords(SEARCHABLE[record.entity_type], record));
+      tokens.forEach((token) => written.add(`${token.pk}|${token.sk}`));
+      records += items.length;
+      console.log(`  ${dryRun ? '•' : '✓'} ${items.length} records, ${tokens.length} tokens`);
+      if (!dryRun) {
+        await batchWrite(tokens.map((item) => ({ PutRequest: { Item: item } })));
+      }
+    }
+  );
+
+  let removed = 0;
+  await scanPages(
+    { expression: 'entity_type = :token', values: { ':token': SEARCH_TOKEN_ENTITY } },
+    async (items) => {
+      const stale = items.filter((item) => !written.has(`${item.pk}|${item.sk}`));
+      removed += stale.length;
+      if (!dryRun && stale.length > 0) {
+        await batchWrite(stale.map((item) => ({ DeleteRequest: { Key: { pk: item.pk, sk: item.sk } } })));
+      }
+    }
+  );
+
+  console.log(
+    `\nIndexed ${records} records into ${written.size} tokens, ${dryRun ? 'would remove' : 'removed'} ${removed} stale tokens`
+  );
+}
+
+rebuild().catch((error) => {
+  console.error('\n❌ Rebuild failed:', error);
+  process.exit(1);
+});
@@ -23,8 +23,13 @@ if (!tableName) {
 interface DynamoDBRecord {
   pk: string;
   sk: string;
-  GSI1PK: string;
-  GSI1SK: string;
+  // Index keys as laid out in src/lib/db/index-keys.ts (unset for indexes the record isn't in)
+  GSI1PK?: string;
+  GSI1SK?: string;
+  GSI2PK?: string;
+  GSI2SK?: string;
+  GSI3PK?: string;
+  GSI3SK?: string;
   entity_type: string;
   data: Record<string, unknown>;
 }
@@ -0,0 +1,115 @@
+/**
+ * Analytics Handler - Dashboard numbers without going through chat
+ *
+ * GET /api/analytics/dashboard - Task, client, policy and portfolio metrics
+ * GET /api/analytics/today - Today's summary
+ * GET /api/analytics/week - This week's summary
+ *
+ * Query params scope the numbers to one advisor:
+ *   account_manager_id - clients they manage, and those clients' policies
+ *   assigned_to - tasks assigned to them
+ */
+
+import type { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { getHttpMethod, getPath, type ApiGatewayEvent } from '../lib/utils/api-gateway';
+import {
+  successResponse,
+  errorResponse,
+  parseQueryParams,
+  logRequest,
+} from '../lib/utils/response';
+import { withAuth, PermissionDeniedError } from '../lib/auth';
+import {
+  getDashboardMetrics,
+  getTodaySummary,
+  getWeeklySummary,
+  type AnalyticsScope,
+  requirePermission,
+} from '../lib/db';
+
+type AnalyticsView = 'dashboard' | 'today' | 'week';
+
+const ANALYTICS_VIEWS: Record<AnalyticsView, (scope: AnalyticsScope) => Promise<object>> = {
+  dashboard: getDashboardMetrics,
+  today: getTodaySummary,
+  week: getWeeklySummary,
+};
+
+/**
+ * Main analytics handler, for authenticated advisors only
+ */
+export const handler = withAuth(handleRequest);
+
+async function handleRequest(
+  event: ApiGatewayEvent
+): Promise<APIGatewayProxyResultV2> {
+  const method = getHttpMethod(event);
+  const path = getPath(event);
+
+  console.log('=== Analytics Handler Start ===');
+  console.log('Method:', method);
+  console.log('Path:', path);
+  console.log('Query params:', event.queryStringParameters);
+  logRequest(method, path);
+
+  if (method !== 'GET') {
+    console.log('Method not allowed:', method);
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const view = parseAnalyticsViewFromPath(path);
+  if (!view) {
+    console.log('Unknown analytics view:', path);
+    return errorResponse('Unknown analytics view', 404, `Expected one of: ${Object.keys(ANALYTICS_VIEWS).join(', ')}`);
+  }
+
+  try {
+    requirePermission('analytics:read');
+    const result = await handleGetAnalytics(view, event.queryStringParameters);
+    console.log('=== Analytics Handler End ===');
+    return result;
+  } catch (error) {
+    if (error instanceof PermissionDeniedError) {
+      console.log('Permission denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message, error.toResponseData());
+    }
+    console.error('=== Analytics Handler Error ===');
+    console.error('Analytics handler error:', error);
+    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
+    return errorResponse(
+      'Failed to load analytics',
+      500,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+function parseAnalyticsViewFromPath(path: string): AnalyticsView | null {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+  const view = segments[segments.length - 1];
+  return Object.keys(ANALYTICS_VIEWS).includes(view) ? (view as AnalyticsView) : null;
+}
+
+/**
+ * Compute one analytics view, scoped by the advisor query params
+ */
+async function handleGetAnalytics(
+  view: AnalyticsView,
+  queryParams?: Record<string, string | undefined> | null
+): Promise<APIGatewayProxyResultV2> {
+  const params = parseQueryParams(queryParams);
+  const scope: AnalyticsScope = {
+    account_manager_id: params.account_manager_id || undefined,
+    assigned_to: params.assigned_to || undefined,
+  };
+  console.log('handleGetAnalytics - view:', view, 'scope:', JSON.stringify(scope));
+
+  const metrics = await ANALYTICS_VIEWS[view](scope);
+  console.log('Analytics computed:', view);
+  return successResponse({
+    view,
+    scope,
+    generated_at: new Date().toISOString(),
+    metrics,
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Audit Handler - The change history of clients, policies and tasks, for compliance reviews
+ *
+ * GET /api/audit?entity_id= - Every change to one record, oldest first, a page at a time
+ *   (limit and cursor query params; responses carry has_more and next_cursor)
+ *
+ * Each entry names the actor and their role, the action (create, update, approve, ...),
+ * whether it came through the API or the chat assistant, and the changed fields before and after.
+ * Needs audit:read (compliance and admin).
+ */
+
+import type { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { getHttpMethod, getPath, type ApiGatewayEvent } from '../lib/utils/api-gateway';
+import {
+  successResponse,
+  errorResponse,
+  parseQueryParams,
+  logRequest,
+} from '../lib/utils/response';
+import { withAuth, PermissionDeniedError } from '../lib/auth';
+import { getAuditTrailPage, requirePermission, InvalidCursorError } from '../lib/db';
+import { readPagination } from '../lib/validation';
+
+/**
+ * Main audit handler, for authenticated advisors only
+ */
+export const handler = withAuth(handleRequest);
+
+async function handleRequest(
+  event: ApiGatewayEvent
+): Promise<APIGatewayProxyResultV2> {
+  const method = getHttpMethod(event);
+  const path = getPath(event);
+
+  console.log('=== Audit Handler Start ===');
+  console.log('Method:', method);
+  console.log('Path:', path);
+  console.log('Query params:', event.queryStringParameters);
+  logRequest(method, path);
+
+  if (method !== 'GET') {
+    console.log('Method not allowed:', method);
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    requirePermission('audit:read');
+    const result = await handleGetAuditTrail(event.queryStringParameters);
+    console.log('=== Audit Handler End ===');
+    return result;
+  } catch (error) {
+    if (error instanceof PermissionDeniedError) {
+      console.log('Permission denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message, error.toResponseData());
+    }
+    if (error instanceof InvalidCursorError) {
+      console.log('Invalid cursor:', error.message);
+      return errorResponse('Invalid cursor', 400, error.message);
+    }
+    console.error('=== Audit Handler Error ===');
+    console.error('Audit handler error:', error);
+    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
+    return errorResponse(
+      'Audit lookup failed',
+      500,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * One page of the audit trail of the record named by entity_id
+ */
+async function handleGetAuditTrail(
+  queryParams?: Record<string, string | undefined> | null
+): Promise<APIGatewayProxyResultV2> {
+  const params = parseQueryParams(queryParams);
+  if (!params.entity_id) {
+    console.log('Missing entity_id');
+    return errorResponse('Validation failed', 400, 'entity_id is required');
+  }
+
+  const page = readPagination(params);
+  if (!page.valid) {
+    console.log('Invalid pagination params:', page.errors);
+    return errorResponse('Validation failed', 400, page.errors.join('; '));
+  }
+
+  console.log('handleGetAuditTrail - entity:', params.entity_id, 'page:', JSON.stringify(page.value));
+  const result = await getAuditTrailPage(params.entity_id, page.value);
+  console.log('Audit entries fetched, count:', result.items.length, 'has more:', result.has_more);
+
+  return successResponse({
+    entity_id: params.entity_id,
+    entries: result.items,
+    total: result.items.length,
+    has_more: result.has_more,
+    next_cursor: result.next_cursor,
+  });
+}
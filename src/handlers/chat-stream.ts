@@ -0,0 +1,136 @@
+/**
+ * Chat Stream Handler - Streaming variant of the chat endpoint
+ * Served from a Lambda function URL with response streaming enabled
+ *
+ * POST <ChatStreamUrl>
+ * Request: { message: string, context?: ChatContext, session_id?: string }
+ * Response: text/event-stream with events:
+ *   token - { text } as the model writes
+ *   card  - a Card, once its full marker has been received
+ *   done  - the final ChatResponse, including the updated ChatContext
+ *   error - { error } if the turn failed part-way
+ *
+ * Needs the same bearer token as the API; answers 401 JSON without one, 403 without chat:use.
+ */
+
+import type { AdvisorIdentity, ChatRequest, ChatStreamEvent } from '../types';
+import { getHttpMethod, getPath, type ApiGatewayEvent } from '../lib/utils/api-gateway';
+import { parseBody, logRequest } from '../lib/utils/response';
+import { SSE_HEADERS, formatSseEvent } from '../lib/utils/streaming';
+import { streamChat } from '../lib/chat';
+import { runWithLLMTimeBudget } from '../lib/ai';
+import { authenticate, hasPermission, AuthenticationError, PermissionDeniedError } from '../lib/auth';
+import { runWithAccess } from '../lib/db';
+
+/**
+ * Main streaming chat handler
+ */
+export const handler = awslambda.streamifyResponse<ApiGatewayEvent>(
+  async (event, responseStream, context) => {
+    const method = getHttpMethod(event);
+    const path = getPath(event);
+
+    console.log('=== Chat Stream Handler Start ===');
+    logRequest(method, path, event.body);
+
+    if (method !== 'POST') {
+      console.log('Invalid method, returning 405');
+      const stream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: 405,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      stream.end(JSON.stringify({ success: false, error: 'Method not allowed' }));
+      return;
+    }
+
+    let identity: AdvisorIdentity;
+    try {
+      identity = await authenticate(event);
+    } catch (error) {
+      const unauthorized = error instanceof AuthenticationError;
+      console.log('Authentication failed:', error instanceof Error ? error.message : error);
+      const stream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: unauthorized ? 401 : 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      stream.end(
+        JSON.stringify({
+          success: false,
+          error: unauthorized ? 'Unauthorized' : 'Authentication unavailable',
+          message: unauthorized ? error.reason : undefined,
+        })
+      );
+      return;
+    }
+    console.log('Authenticated advisor:', identity.advisor_id, 'role:', identity.role);
+
+    if (!hasPermission(identity, 'chat:use')) {
+      const denied = new PermissionDeniedError('chat:use', identity.role);
+      console.log('Permission denied:', denied.message);
+      const stream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      stream.end(
+        JSON.stringify({ success: false, error: 'Forbidden', message: denied.message, data: denied.toResponseData() })
+      );
+      return;
+    }
+
+    const body = parseBody<ChatRequest>(event.body);
+    if (!body || !body.message) {
+      console.log('Invalid request body, message required');
+      const stream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      stream.end(JSON.stringify({ success: false, error: 'Message is required' }));
+      return;
+    }
+
+    const stream = awslambda.HttpResponseStream.from(responseStream, {
+      statusCode: 200,
+      headers: SSE_HEADERS,
+    });
+
+    const emit = (streamEvent: ChatStreamEvent) => {
+      switch (streamEvent.type) {
+        case 'token':
+          stream.write(formatSseEvent('token', { text: streamEvent.text }));
+          break;
+        case 'card':
+          stream.write(formatSseEvent('card', streamEvent.card));
+          break;
+        case 'done':
+          stream.write(formatSseEvent('done', streamEvent.response));
+          break;
+        case 'error':
+          stream.write(formatSseEvent('error', { error: streamEvent.error }));
+          break;
+      }
+    };
+
+    try {
+      const sessionId = body.session_id || body.context?.session_id;
+      await runWithAccess(
+        identity,
+        () =>
+          runWithLLMTimeBudget(context?.getRemainingTimeInMillis(), () =>
+            streamChat(body.message, emit, body.context, sessionId)
+          ),
+        'chat'
+      );
+      console.log('=== Chat Stream Handler End ===');
+    } catch (error) {
+      // Headers are already sent, so failures are reported in-band
+      console.error('=== Chat Stream Handler Error ===');
+      console.error('Chat stream error:', error);
+      emit({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      stream.end();
+    }
+  }
+);
@@ -1,32 +1,57 @@
 /**
  * Clients Handler - Client CRUD operations
  * 
- * GET /api/clients - List all clients with optional filters
+ * GET /api/clients - List clients in last-name order with optional filters, a page at a time
+ *   (limit and cursor query params; responses carry has_more and next_cursor)
  * GET /api/clients/{id} - Get a specific client
+ * POST /api/clients - Create a client
+ * PATCH /api/clients/{id} - Update a client
+ * DELETE /api/clients/{id} - Soft-delete a client (sets deleted_at)
+ *
+ * Writes accept If-Match or expected_version (the record_version last read)
+ * and return 409 with the current record when it has changed since.
  */
 
 import type { APIGatewayProxyResultV2 } from 'aws-lambda';
 import type { ClientFilters } from '../types';
-import { getHttpMethod, getPath, type ApiGatewayEvent } from '../lib/utils/api-gateway';
+import { getHttpMethod, getPath, getHeader, type ApiGatewayEvent } from '../lib/utils/api-gateway';
 import {
   successResponse,
   errorResponse,
   notFoundResponse,
   parseQueryParams,
   getRequiredPathParam,
+  parseBody,
   logRequest,
+  bodyFields,
 } from '../lib/utils/response';
+import { withAuth, PermissionDeniedError } from '../lib/auth';
 import {
-  getClients,
+  getClientPage,
   getClientById,
-  getClientSummaries,
+  getClientSummaryPage,
   getPolicySummariesForClient,
+  createClient,
+  updateClient,
+  deleteClient,
+  VersionConflictError,
+  InvalidCursorError,
+  AccessDeniedError,
+  requirePermission,
 } from '../lib/db';
+import {
+  validateClientCreate,
+  validateClientUpdate,
+  readExpectedVersion,
+  readPagination,
+} from '../lib/validation';
 
 /**
- * Main clients handler
+ * Main clients handler, for authenticated advisors only
  */
-export async function handler(
+export const handler = withAuth(handleRequest);
+
+async function handleRequest(
   event: ApiGatewayEvent
 ): Promise<APIGatewayProxyResultV2> {
   const method = getHttpMethod(event);
@@ -35,33 +60,77 @@ export async function handler(
   console.log('=== Clients Handler Start ===');
   console.log('Method:', method);
   console.log('Path:', path);
+  console.log('Body fields:', bodyFields(event.body));
   console.log('Query params:', event.queryStringParameters);
   console.log('Path params:', event.pathParameters);
   logRequest(method, path);
 
-  // Only allow GET
-  if (method !== 'GET') {
-    console.log('Invalid method, returning 405');
-    return errorResponse('Method not allowed', 405);
-  }
-
   try {
     // Check if we have a client ID in the path
     const clientId = getRequiredPathParam(event.pathParameters, 'id');
     console.log('Client ID from path:', clientId);
 
     if (clientId) {
-      console.log('Fetching single client:', clientId);
-      const result = await handleGetClient(clientId, event.queryStringParameters);
+      let result;
+      switch (method) {
+        case 'GET':
+          console.log('Fetching single client:', clientId);
+          requirePermission('clients:read');
+          result = await handleGetClient(clientId, event.queryStringParameters);
+          break;
+        case 'PATCH':
+          console.log('Updating client:', clientId);
+          requirePermission('clients:update');
+          result = await handleUpdateClient(clientId, event.body, getHeader(event, 'If-Match'));
+          break;
+        case 'DELETE':
+          console.log('Deleting client:', clientId);
+          requirePermission('clients:delete');
+          result = await handleDeleteClient(clientId, event.body, getHeader(event, 'If-Match'));
+          break;
+        default:
+          console.log('Method not allowed:', method);
+          return errorResponse('Method not allowed', 405);
+      }
       console.log('=== Clients Handler End ===');
       return result;
-    } else {
+    }
+
+    if (method === 'GET') {
       console.log('Listing all clients');
+      requirePermission('clients:read');
       const result = await handleListClients(event.queryStringParameters);
       console.log('=== Clients Handler End ===');
       return result;
     }
+
+    if (method === 'POST') {
+      console.log('Creating client');
+      requirePermission('clients:create');
+      const result = await handleCreateClient(event.body);
+      console.log('=== Clients Handler End ===');
+      return result;
+    }
+
+    console.log('Method not allowed:', method);
+    return errorResponse('Method not allowed', 405);
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      console.log('Invalid cursor:', error.message);
+      return errorResponse('Invalid cursor', 400, error.message);
+    }
+    if (error instanceof VersionConflictError) {
+      console.log('Client version conflict:', error.message);
+      return errorResponse('Version conflict', 409, error.message, error.toResponseData());
+    }
+    if (error instanceof AccessDeniedError) {
+      console.log('Client access denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message);
+    }
+    if (error instanceof PermissionDeniedError) {
+      console.log('Permission denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message, error.toResponseData());
+    }
     console.error('=== Clients Handler Error ===');
     console.error('Clients handler error:', error);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
@@ -78,7 +147,7 @@ export async function handler(
  */
 async function handleGetClient(
   clientId: string,
-  queryParams?: Record<string, string | undefined>
+  queryParams?: Record<string, string | undefined> | null
 ): Promise<APIGatewayProxyResultV2> {
   console.log('handleGetClient - fetching client:', clientId);
   const client = await getClientById(clientId);
@@ -107,14 +176,20 @@ async function handleGetClient(
 }
 
 /**
- * List clients with optional filters
+ * List a page of clients with optional filters
  */
 async function handleListClients(
-  queryParams?: Record<string, string | undefined>
+  queryParams?: Record<string, string | undefined> | null
 ): Promise<APIGatewayProxyResultV2> {
   console.log('handleListClients - query params:', queryParams);
   const params = parseQueryParams(queryParams);
 
+  const page = readPagination(params);
+  if (!page.valid) {
+    console.log('Invalid pagination params:', page.errors);
+    return errorResponse('Validation failed', 400, page.errors.join('; '));
+  }
+
   // Build filters from query params
   const filters: ClientFilters = {};
 
@@ -137,26 +212,99 @@ async function handleListClients(
     filters.account_manager_id = params.account_manager_id;
   }
 
-  console.log('Filters:', JSON.stringify(filters));
+  console.log('Filters:', JSON.stringify(filters), 'Page:', JSON.stringify(page.value));
   // Check if summary view is requested
   const summary = params.summary === 'true';
   console.log('Summary view:', summary);
 
-  if (summary) {
-    console.log('Fetching client summaries');
-    const clients = await getClientSummaries(filters);
-    console.log('Clients fetched, count:', clients.length);
-    return successResponse({
-      clients,
-      total: clients.length,
-    });
+  const result = summary
+    ? await getClientSummaryPage(filters, page.value)
+    : await getClientPage(filters, page.value);
+  console.log('Clients fetched, count:', result.items.length, 'has more:', result.has_more);
+  return successResponse({
+    clients: result.items,
+    total: result.items.length,
+    has_more: result.has_more,
+    next_cursor: result.next_cursor,
+  });
+}
+
+/**
+ * Create a client
+ */
+async function handleCreateClient(body?: string | null): Promise<APIGatewayProxyResultV2> {
+  console.log('handleCreateClient - fields:', bodyFields(body));
+  const validation = validateClientCreate(parseBody<unknown>(body));
+
+  if (!validation.valid) {
+    console.log('Client validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
+  }
+
+  const client = await createClient(validation.value);
+  console.log('Client created successfully:', client.client_id);
+  return successResponse(client, 201);
+}
+
+/**
+ * Update a client
+ */
+async function handleUpdateClient(
+  clientId: string,
+  body?: string | null,
+  ifMatch?: string
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleUpdateClient - client:', clientId, 'fields:', bodyFields(body), 'If-Match:', ifMatch);
+  const expected = readExpectedVersion(ifMatch, parseBody<unknown>(body));
+  if (!expected.valid) {
+    console.log('Invalid expected version:', expected.errors);
+    return errorResponse('Validation failed', 400, expected.errors.join('; '));
+  }
+
+  const validation = validateClientUpdate(expected.value.body);
+
+  if (!validation.valid) {
+    console.log('Client validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
+  }
+
+  console.log('Updating client fields:', Object.keys(validation.value).join(', '));
+  const client = await updateClient(clientId, validation.value, expected.value.version);
+
+  if (!client) {
+    console.log('Client not found for update:', clientId);
+    return notFoundResponse('Client');
+  }
+
+  console.log('Client updated successfully:', clientId);
+  return successResponse(client);
+}
+
+/**
+ * Soft-delete a client
+ */
+async function handleDeleteClient(
+  clientId: string,
+  body?: string | null,
+  ifMatch?: string
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleDeleteClient - client:', clientId, 'If-Match:', ifMatch);
+  const expected = readExpectedVersion(ifMatch, parseBody<unknown>(body));
+  if (!expected.valid) {
+    console.log('Invalid expected version:', expected.errors);
+    return errorResponse('Validation failed', 400, expected.errors.join('; '));
+  }
+
+  const client = await deleteClient(clientId, expected.value.version);
+
+  if (!client) {
+    console.log('Client not found for deletion:', clientId);
+    return notFoundResponse('Client');
   }
 
-  console.log('Fetching full clients');
-  const clients = await getClients(filters);
-  console.log('Clients fetched, count:', clients.length);
+  console.log('Client deleted successfully:', clientId);
   return successResponse({
-    clients,
-    total: clients.length,
+    client,
+    message: 'Client deleted',
   });
 }
@@ -4,7 +4,10 @@
  */
 
 export { handler as chatHandler } from './chat';
+export { handler as chatStreamHandler } from './chat-stream';
 export { handler as clientsHandler } from './clients';
 export { handler as policiesHandler } from './policies';
 export { handler as tasksHandler } from './tasks';
+export { handler as analyticsHandler } from './analytics';
+export { handler as searchHandler } from './search';
 export { handler as healthHandler } from './health';
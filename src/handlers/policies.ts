@@ -1,33 +1,73 @@
 /**
  * Policies Handler - Policy operations
  * 
- * GET /api/policies - List all policies with optional filters
+ * GET /api/policies - List policies in renewal-date order with optional filters, a page at a time
+ *   (limit and cursor query params; responses carry has_more and next_cursor)
  * GET /api/policies/{id} - Get a specific policy
+ * POST /api/policies - Create a policy
+ * PATCH /api/policies/{id} - Update a policy
+ * POST /api/policies/{id}/cancel - Cancel a policy (requires cancellation_reason)
+ * POST /api/policies/{id}/lapse - Mark a policy as lapsed
+ * POST /api/policies/{id}/reinstate - Reinstate a lapsed, cancelled or suspended policy
+ *
+ * Writes accept If-Match or expected_version (the record_version last read)
+ * and return 409 with the current record when it has changed since.
  */
 
 import type { APIGatewayProxyResultV2 } from 'aws-lambda';
 import type { PolicyFilters } from '../types';
-import { getHttpMethod, getPath, type ApiGatewayEvent } from '../lib/utils/api-gateway';
+import { getHttpMethod, getPath, getHeader, type ApiGatewayEvent } from '../lib/utils/api-gateway';
 import {
   successResponse,
   errorResponse,
   notFoundResponse,
   parseQueryParams,
   getRequiredPathParam,
+  parseBody,
   logRequest,
+  bodyFields,
 } from '../lib/utils/response';
+import { withAuth, PermissionDeniedError } from '../lib/auth';
 import {
-  getPolicies,
+  getPolicyPage,
   getPolicyById,
-  getPolicySummaries,
-  getExpiringPolicies,
-  getOverduePolicies,
+  getPolicySummaryPage,
+  getClientById,
+  createPolicy,
+  updatePolicy,
+  cancelPolicy,
+  lapsePolicy,
+  reinstatePolicy,
+  InvalidTransitionError,
+  VersionConflictError,
+  InvalidCursorError,
+  AccessDeniedError,
+  requirePermission,
 } from '../lib/db';
+import {
+  validatePolicyCreate,
+  validatePolicyUpdate,
+  validatePolicyCancel,
+  validatePolicyLapse,
+  validatePolicyReinstate,
+  readExpectedVersion,
+  readPagination,
+} from '../lib/validation';
+
+const POLICY_ACTIONS = ['cancel', 'lapse', 'reinstate'];
+
+// Named views the list route accepts as ?filter=, as policy filters
+const NAMED_POLICY_FILTERS: Record<string, PolicyFilters> = {
+  expiring: { renewal_due: true },
+  overdue: { payment_status: 'Overdue' },
+};
 
 /**
- * Main policies handler
+ * Main policies handler, for authenticated advisors only
  */
-export async function handler(
+export const handler = withAuth(handleRequest);
+
+async function handleRequest(
   event: ApiGatewayEvent
 ): Promise<APIGatewayProxyResultV2> {
   const method = getHttpMethod(event);
@@ -36,33 +76,95 @@ export async function handler(
   console.log('=== Policies Handler Start ===');
   console.log('Method:', method);
   console.log('Path:', path);
+  console.log('Body fields:', bodyFields(event.body));
   console.log('Query params:', event.queryStringParameters);
   console.log('Path params:', event.pathParameters);
   logRequest(method, path);
 
-  // Only allow GET
-  if (method !== 'GET') {
-    console.log('Invalid method, returning 405');
-    return errorResponse('Method not allowed', 405);
-  }
-
   try {
     // Check if we have a policy ID in the path
     const policyId = getRequiredPathParam(event.pathParameters, 'id');
-    console.log('Policy ID from path:', policyId);
+    const action =
+      getRequiredPathParam(event.pathParameters, 'action') || parsePolicyActionFromPath(path);
+    const ifMatch = getHeader(event, 'If-Match');
+    console.log('Policy ID:', policyId, 'Action:', action);
 
-    if (policyId) {
-      console.log('Fetching single policy:', policyId);
-      const result = await handleGetPolicy(policyId);
+    // Handle lifecycle action endpoints
+    if (policyId && action && method === 'POST') {
+      console.log('Handling policy action:', action, 'for policy:', policyId);
+      let result;
+      switch (action) {
+        case 'cancel':
+          requirePermission('policies:lifecycle');
+          result = await handleCancelPolicy(policyId, event.body, ifMatch);
+          break;
+        case 'lapse':
+          requirePermission('policies:lifecycle');
+          result = await handleLapsePolicy(policyId, event.body, ifMatch);
+          break;
+        case 'reinstate':
+          requirePermission('policies:lifecycle');
+          result = await handleReinstatePolicy(policyId, event.body, ifMatch);
+          break;
+        default:
+          console.log('Unknown action:', action);
+          return errorResponse('Unknown action', 400);
+      }
       console.log('=== Policies Handler End ===');
       return result;
-    } else {
+    }
+
+    if (policyId) {
+      if (method === 'GET') {
+        console.log('Fetching single policy:', policyId);
+        requirePermission('policies:read');
+        const result = await handleGetPolicy(policyId);
+        console.log('=== Policies Handler End ===');
+        return result;
+      } else if (method === 'PATCH') {
+        console.log('Updating policy:', policyId);
+        requirePermission('policies:update');
+        const result = await handleUpdatePolicy(policyId, event.body, ifMatch);
+        console.log('=== Policies Handler End ===');
+        return result;
+      }
+    } else if (method === 'GET') {
       console.log('Listing policies with filters');
+      requirePermission('policies:read');
       const result = await handleListPolicies(event.queryStringParameters);
       console.log('=== Policies Handler End ===');
       return result;
+    } else if (method === 'POST') {
+      console.log('Creating policy');
+      requirePermission('policies:create');
+      const result = await handleCreatePolicy(event.body);
+      console.log('=== Policies Handler End ===');
+      return result;
     }
+
+    console.log('Method not allowed:', method);
+    return errorResponse('Method not allowed', 405);
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      console.log('Invalid cursor:', error.message);
+      return errorResponse('Invalid cursor', 400, error.message);
+    }
+    if (error instanceof InvalidTransitionError) {
+      console.log('Invalid policy transition:', error.message);
+      return errorResponse('Invalid status transition', 409, error.message, error.toResponseData());
+    }
+    if (error instanceof VersionConflictError) {
+      console.log('Policy version conflict:', error.message);
+      return errorResponse('Version conflict', 409, error.message, error.toResponseData());
+    }
+    if (error instanceof AccessDeniedError) {
+      console.log('Policy access denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message);
+    }
+    if (error instanceof PermissionDeniedError) {
+      console.log('Permission denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message, error.toResponseData());
+    }
     console.error('=== Policies Handler Error ===');
     console.error('Policies handler error:', error);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
@@ -74,6 +176,23 @@ export async function handler(
   }
 }
 
+function parsePolicyActionFromPath(path: string): string | null {
+  const cleanPath = path.split('?')[0];
+  const segments = cleanPath.split('/').filter(Boolean);
+  const action = segments[segments.length - 1];
+
+  if (!POLICY_ACTIONS.includes(action)) {
+    return null;
+  }
+
+  const policiesIndex = segments.lastIndexOf('policies');
+  if (policiesIndex === -1 || segments.length < policiesIndex + 3) {
+    return null;
+  }
+
+  return action;
+}
+
 /**
  * Get a single policy by ID
  */
@@ -93,39 +212,23 @@ async function handleGetPolicy(
 }
 
 /**
- * List policies with optional filters
+ * List a page of policies with optional filters
  */
 async function handleListPolicies(
-  queryParams?: Record<string, string | undefined>
+  queryParams?: Record<string, string | undefined> | null
 ): Promise<APIGatewayProxyResultV2> {
   console.log('handleListPolicies - query params:', queryParams);
   const params = parseQueryParams(queryParams);
 
-  // Handle special filter cases
-  if (params.filter === 'expiring') {
-    console.log('Fetching expiring policies');
-    const policies = await getExpiringPolicies();
-    console.log('Expiring policies count:', policies.length);
-    return successResponse({
-      policies,
-      total: policies.length,
-      filter: 'expiring',
-    });
+  const page = readPagination(params);
+  if (!page.valid) {
+    console.log('Invalid pagination params:', page.errors);
+    return errorResponse('Validation failed', 400, page.errors.join('; '));
   }
 
-  if (params.filter === 'overdue') {
-    console.log('Fetching overdue policies');
-    const policies = await getOverduePolicies();
-    console.log('Overdue policies count:', policies.length);
-    return successResponse({
-      policies,
-      total: policies.length,
-      filter: 'overdue',
-    });
-  }
-
-  // Build filters from query params
-  const filters: PolicyFilters = {};
+  // Start from a named view if one was asked for, then add the individual filters
+  const namedFilter = params.filter ? NAMED_POLICY_FILTERS[params.filter] : undefined;
+  const filters: PolicyFilters = { ...namedFilter };
 
   if (params.client_id) {
     filters.client_id = params.client_id;
@@ -140,26 +243,194 @@ async function handleListPolicies(
     filters.payment_status = params.payment_status as PolicyFilters['payment_status'];
   }
 
-  console.log('Filters:', JSON.stringify(filters));
+  console.log('Filters:', JSON.stringify(filters), 'Page:', JSON.stringify(page.value));
   // Check if summary view is requested
   const summary = params.summary === 'true';
   console.log('Summary view:', summary);
 
-  if (summary) {
-    console.log('Fetching policy summaries');
-    const policies = await getPolicySummaries(filters);
-    console.log('Policies fetched, count:', policies.length);
-    return successResponse({
-      policies,
-      total: policies.length,
-    });
+  const result = summary
+    ? await getPolicySummaryPage(filters, page.value)
+    : await getPolicyPage(filters, page.value);
+  console.log('Policies fetched, count:', result.items.length, 'has more:', result.has_more);
+  return successResponse({
+    policies: result.items,
+    total: result.items.length,
+    has_more: result.has_more,
+    next_cursor: result.next_cursor,
+    filter: namedFilter ? params.filter : undefined,
+  });
+}
+
+/**
+ * Create a policy for an existing client
+ */
+async function handleCreatePolicy(body?: string | null): Promise<APIGatewayProxyResultV2> {
+  console.log('handleCreatePolicy - fields:', bodyFields(body));
+  const validation = validatePolicyCreate(parseBody<unknown>(body));
+
+  if (!validation.valid) {
+    console.log('Policy validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
+  }
+
+  const client = await getClientById(validation.value.client_id);
+  if (!client) {
+    console.log('Client not found for new policy:', validation.value.client_id);
+    return errorResponse('Validation failed', 400, `client_id ${validation.value.client_id} does not exist`);
+  }
+
+  const policy = await createPolicy(validation.value);
+  console.log('Policy created successfully:', policy.policy_id);
+  return successResponse(policy, 201);
+}
+
+/**
+ * Update a policy. Status changes are limited to those that need no lifecycle action.
+ */
+async function handleUpdatePolicy(
+  policyId: string,
+  body?: string | null,
+  ifMatch?: string
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleUpdatePolicy - policy:', policyId, 'fields:', bodyFields(body));
+  const expected = readExpectedVersion(ifMatch, parseBody<unknown>(body));
+  if (!expected.valid) {
+    console.log('Invalid expected version:', expected.errors);
+    return errorResponse('Validation failed', 400, expected.errors.join('; '));
+  }
+
+  const validation = validatePolicyUpdate(expected.value.body);
+
+  if (!validation.valid) {
+    console.log('Policy validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
+  }
+
+  if (validation.value.client_id) {
+    const client = await getClientById(validation.value.client_id);
+    if (!client) {
+      console.log('Client not found for policy update:', validation.value.client_id);
+      return errorResponse('Validation failed', 400, `client_id ${validation.value.client_id} does not exist`);
+    }
+  }
+
+  console.log('Updating policy fields:', Object.keys(validation.value).join(', '));
+  const policy = await updatePolicy(policyId, validation.value, expected.value.version);
+
+  if (!policy) {
+    console.log('Policy not found for update:', policyId);
+    return notFoundResponse('Policy');
+  }
+
+  console.log('Policy updated successfully:', policyId);
+  return successResponse(policy);
+}
+
+/**
+ * Cancel a policy
+ */
+async function handleCancelPolicy(
+  policyId: string,
+  body?: string | null,
+  ifMatch?: string
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleCancelPolicy - policy:', policyId, 'fields:', bodyFields(body));
+  const expected = readExpectedVersion(ifMatch, parseBody<unknown>(body));
+  if (!expected.valid) {
+    console.log('Invalid expected version:', expected.errors);
+    return errorResponse('Validation failed', 400, expected.errors.join('; '));
+  }
+
+  const validation = validatePolicyCancel(expected.value.body);
+
+  if (!validation.valid) {
+    console.log('Cancel validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
+  }
+
+  const { cancellation_reason, cancellation_date } = validation.value;
+  const policy = await cancelPolicy(policyId, cancellation_reason, cancellation_date, expected.value.version);
+
+  if (!policy) {
+    console.log('Policy not found for cancellation:', policyId);
+    return notFoundResponse('Policy');
+  }
+
+  console.log('Policy cancelled successfully:', policyId);
+  return successResponse({
+    policy,
+    message: 'Policy cancelled',
+  });
+}
+
+/**
+ * Mark a policy as lapsed
+ */
+async function handleLapsePolicy(
+  policyId: string,
+  body?: string | null,
+  ifMatch?: string
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleLapsePolicy - policy:', policyId, 'fields:', bodyFields(body));
+  const expected = readExpectedVersion(ifMatch, parseBody<unknown>(body));
+  if (!expected.valid) {
+    console.log('Invalid expected version:', expected.errors);
+    return errorResponse('Validation failed', 400, expected.errors.join('; '));
+  }
+
+  const validation = validatePolicyLapse(expected.value.body);
+
+  if (!validation.valid) {
+    console.log('Lapse validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
+  }
+
+  const policy = await lapsePolicy(policyId, validation.value.lapse_date, expected.value.version);
+
+  if (!policy) {
+    console.log('Policy not found for lapse:', policyId);
+    return notFoundResponse('Policy');
+  }
+
+  console.log('Policy lapsed successfully:', policyId);
+  return successResponse({
+    policy,
+    message: 'Policy marked as lapsed',
+  });
+}
+
+/**
+ * Reinstate a lapsed, cancelled or suspended policy
+ */
+async function handleReinstatePolicy(
+  policyId: string,
+  body?: string | null,
+  ifMatch?: string
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleReinstatePolicy - policy:', policyId, 'fields:', bodyFields(body));
+  const expected = readExpectedVersion(ifMatch, parseBody<unknown>(body));
+  if (!expected.valid) {
+    console.log('Invalid expected version:', expected.errors);
+    return errorResponse('Validation failed', 400, expected.errors.join('; '));
+  }
+
+  const validation = validatePolicyReinstate(expected.value.body);
+
+  if (!validation.valid) {
+    console.log('Reinstate validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
+  }
+
+  const policy = await reinstatePolicy(policyId, validation.value.reinstatement_date, expected.value.version);
+
+  if (!policy) {
+    console.log('Policy not found for reinstatement:', policyId);
+    return notFoundResponse('Policy');
   }
 
-  console.log('Fetching full policies');
-  const policies = await getPolicies(filters);
-  console.log('Policies fetched, count:', policies.length);
+  console.log('Policy reinstated successfully:', policyId);
   return successResponse({
-    policies,
-    total: policies.length,
+    policy,
+    message: 'Policy reinstated',
   });
 }
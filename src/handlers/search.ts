@@ -0,0 +1,94 @@
+/**
+ * Search Handler - Ranked search across tasks, clients and policies
+ *
+ * GET /api/search?q= - Full-text search, best matches first: exact ID or policy number,
+ *   then name prefix, then stemmed name match, then other text (notes, descriptions, tags)
+ *   q - words (all must match), OR between alternatives, "quoted phrases", prefix*
+ *   types - comma-separated entity types to search (task, client, policy); all when unset
+ *   limit - hits to return (default 20, max 100)
+ *
+ * Each hit carries its score, how it matched and highlights of the matched fields.
+ * The global_search chat intent uses the same ranking.
+ */
+
+import type { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { getHttpMethod, getPath, type ApiGatewayEvent } from '../lib/utils/api-gateway';
+import {
+  successResponse,
+  errorResponse,
+  parseQueryParams,
+  logRequest,
+} from '../lib/utils/response';
+import { withAuth, PermissionDeniedError } from '../lib/auth';
+import { globalSearch, requirePermission } from '../lib/db';
+import { readSearchParams } from '../lib/validation';
+
+/**
+ * Main search handler, for authenticated advisors only
+ */
+export const handler = withAuth(handleRequest);
+
+async function handleRequest(
+  event: ApiGatewayEvent
+): Promise<APIGatewayProxyResultV2> {
+  const method = getHttpMethod(event);
+  const path = getPath(event);
+
+  console.log('=== Search Handler Start ===');
+  console.log('Method:', method);
+  console.log('Path:', path);
+  console.log('Query params:', event.queryStringParameters);
+  logRequest(method, path);
+
+  if (method !== 'GET') {
+    console.log('Method not allowed:', method);
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    requirePermission('search:use');
+    const result = await handleSearch(event.queryStringParameters);
+    console.log('=== Search Handler End ===');
+    return result;
+  } catch (error) {
+    if (error instanceof PermissionDeniedError) {
+      console.log('Permission denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message, error.toResponseData());
+    }
+    console.error('=== Search Handler Error ===');
+    console.error('Search handler error:', error);
+    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
+    return errorResponse(
+      'Search failed',
+      500,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * Run a ranked search from the q, types and limit query params
+ */
+async function handleSearch(
+  queryParams?: Record<string, string | undefined> | null
+): Promise<APIGatewayProxyResultV2> {
+  const params = readSearchParams(parseQueryParams(queryParams));
+  if (!params.valid) {
+    console.log('Search validation failed:', params.errors);
+    return errorResponse('Validation failed', 400, params.errors.join('; '));
+  }
+
+  const { query, types, limit } = params.value;
+  console.log('handleSearch - query:', query, 'types:', types, 'limit:', limit);
+
+  const results = await globalSearch(query, { types, limit });
+  console.log('Search hits:', results.total, 'returned:', results.hits.length);
+
+  return successResponse({
+    query: results.query,
+    results: results.hits,
+    counts: results.counts,
+    total: results.total,
+    has_more: results.total > results.hits.length,
+  });
+}
@@ -1,17 +1,22 @@
 /**
  * Tasks Handler - Task CRUD and actions
  * 
- * GET /api/tasks - List all tasks with optional filters
+ * GET /api/tasks - List tasks in due-date order with optional filters, a page at a time
+ *   (limit and cursor query params; responses carry has_more and next_cursor)
  * GET /api/tasks/{id} - Get a specific task
- * PATCH /api/tasks/{id} - Update a task
+ * POST /api/tasks - Create a task
+ * PATCH /api/tasks/{id} - Update a task's editable fields (status changes must be valid transitions, else 409)
  * POST /api/tasks/{id}/approve - Approve an AI-completed task
  * POST /api/tasks/{id}/reject - Reject an AI-completed task
  * POST /api/tasks/{id}/complete - Mark a task as complete
+ *
+ * Writes accept If-Match or expected_version (the record_version last read)
+ * and return 409 with the current record when it has changed since.
  */
 
 import type { APIGatewayProxyResultV2 } from 'aws-lambda';
-import type { TaskFilters, TaskUpdate } from '../types';
-import { getHttpMethod, getPath, type ApiGatewayEvent } from '../lib/utils/api-gateway';
+import type { TaskFilters } from '../types';
+import { getHttpMethod, getPath, getHeader, type ApiGatewayEvent } from '../lib/utils/api-gateway';
 import {
   successResponse,
   errorResponse,
@@ -20,24 +25,47 @@ import {
   getRequiredPathParam,
   parseBody,
   logRequest,
+  bodyFields,
 } from '../lib/utils/response';
+import { withAuth, PermissionDeniedError } from '../lib/auth';
 import {
-  getTasks,
+  getTaskPage,
   getTaskById,
-  getTaskSummaries,
-  getTodaysTasks,
-  getPendingReviewTasks,
-  getOverdueTasks,
+  getTaskSummaryPage,
   updateTask,
   approveTask,
   rejectTask,
   completeTask,
+  createTask,
+  getClientById,
+  getPolicyById,
+  InvalidTransitionError,
+  VersionConflictError,
+  InvalidCursorError,
+  AccessDeniedError,
+  requirePermission,
 } from '../lib/db';
+import {
+  validateTaskCreate,
+  validateTaskUpdate,
+  readExpectedVersion,
+  readPagination,
+  type ExpectedVersion,
+} from '../lib/validation';
+
+// Named views the list route accepts as ?filter=, as task filters
+const NAMED_TASK_FILTERS: Record<string, TaskFilters> = {
+  today: { due_date: 'today' },
+  'pending-review': { status: 'needs-review', ai_completed: true },
+  overdue: { due_date: 'overdue' },
+};
 
 /**
- * Main tasks handler
+ * Main tasks handler, for authenticated advisors only
  */
-export async function handler(
+export const handler = withAuth(handleRequest);
+
+async function handleRequest(
   event: ApiGatewayEvent
 ): Promise<APIGatewayProxyResultV2> {
   const method = getHttpMethod(event);
@@ -46,10 +74,10 @@ export async function handler(
   console.log('=== Tasks Handler Start ===');
   console.log('Method:', method);
   console.log('Path:', path);
-  console.log('Body:', event.body);
+  console.log('Body fields:', bodyFields(event.body));
   console.log('Query params:', event.queryStringParameters);
   console.log('Path params:', event.pathParameters);
-  logRequest(method, path, event.body);
+  logRequest(method, path);
 
   try {
     // Check for task ID in path
@@ -58,19 +86,29 @@ export async function handler(
       getRequiredPathParam(event.pathParameters, 'action') || parseTaskActionFromPath(path);
     console.log('Task ID:', taskId, 'Action:', action);
 
+    // Version the caller expects to overwrite, for every write below
+    const expected = readExpectedVersion(getHeader(event, 'If-Match'), parseBody<unknown>(event.body));
+    if (!expected.valid) {
+      console.log('Invalid expected version:', expected.errors);
+      return errorResponse('Validation failed', 400, expected.errors.join('; '));
+    }
+
     // Handle action endpoints
     if (taskId && action && method === 'POST') {
       console.log('Handling task action:', action, 'for task:', taskId);
       let result;
       switch (action) {
         case 'approve':
-          result = await handleApproveTask(taskId);
+          requirePermission('tasks:approve');
+          result = await handleApproveTask(taskId, expected.value);
           break;
         case 'reject':
-          result = await handleRejectTask(taskId, event.body);
+          requirePermission('tasks:approve');
+          result = await handleRejectTask(taskId, expected.value);
           break;
         case 'complete':
-          result = await handleCompleteTask(taskId);
+          requirePermission('tasks:complete');
+          result = await handleCompleteTask(taskId, expected.value);
           break;
         default:
           console.log('Unknown action:', action);
@@ -84,12 +122,14 @@ export async function handler(
     if (taskId) {
       if (method === 'GET') {
         console.log('Fetching single task:', taskId);
+        requirePermission('tasks:read');
         const result = await handleGetTask(taskId);
         console.log('=== Tasks Handler End ===');
         return result;
       } else if (method === 'PATCH') {
         console.log('Updating task:', taskId);
-        const result = await handleUpdateTask(taskId, event.body);
+        requirePermission('tasks:update');
+        const result = await handleUpdateTask(taskId, expected.value);
         console.log('=== Tasks Handler End ===');
         return result;
       }
@@ -98,14 +138,44 @@ export async function handler(
     // List tasks (GET /api/tasks)
     if (method === 'GET') {
       console.log('Listing all tasks');
+      requirePermission('tasks:read');
       const result = await handleListTasks(event.queryStringParameters);
       console.log('=== Tasks Handler End ===');
       return result;
     }
 
+    // Create task (POST /api/tasks)
+    if (method === 'POST' && !taskId) {
+      console.log('Creating task');
+      requirePermission('tasks:create');
+      const result = await handleCreateTask(event.body);
+      console.log('=== Tasks Handler End ===');
+      return result;
+    }
+
     console.log('Method not allowed:', method);
     return errorResponse('Method not allowed', 405);
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      console.log('Invalid cursor:', error.message);
+      return errorResponse('Invalid cursor', 400, error.message);
+    }
+    if (error instanceof InvalidTransitionError) {
+      console.log('Invalid task transition:', error.message);
+      return errorResponse('Invalid status transition', 409, error.message, error.toResponseData());
+    }
+    if (error instanceof VersionConflictError) {
+      console.log('Task version conflict:', error.message);
+      return errorResponse('Version conflict', 409, error.message, error.toResponseData());
+    }
+    if (error instanceof AccessDeniedError) {
+      console.log('Task access denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message);
+    }
+    if (error instanceof PermissionDeniedError) {
+      console.log('Permission denied:', error.message);
+      return errorResponse('Forbidden', 403, error.message, error.toResponseData());
+    }
     console.error('=== Tasks Handler Error ===');
     console.error('Tasks handler error:', error);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
@@ -151,50 +221,23 @@ async function handleGetTask(taskId: string): Promise<APIGatewayProxyResultV2> {
 }
 
 /**
- * List tasks with optional filters
+ * List a page of tasks with optional filters
  */
 async function handleListTasks(
-  queryParams?: Record<string, string | undefined>
+  queryParams?: Record<string, string | undefined> | null
 ): Promise<APIGatewayProxyResultV2> {
   console.log('handleListTasks - query params:', queryParams);
   const params = parseQueryParams(queryParams);
 
-  // Handle special filter cases
-  if (params.filter === 'today') {
-    console.log('Fetching today\'s tasks');
-    const tasks = await getTodaysTasks();
-    console.log('Today\'s tasks count:', tasks.length);
-    return successResponse({
-      tasks,
-      total: tasks.length,
-      filter: 'today',
-    });
-  }
-
-  if (params.filter === 'pending-review') {
-    console.log('Fetching pending review tasks');
-    const tasks = await getPendingReviewTasks();
-    console.log('Pending review tasks count:', tasks.length);
-    return successResponse({
-      tasks,
-      total: tasks.length,
-      filter: 'pending-review',
-    });
-  }
-
-  if (params.filter === 'overdue') {
-    console.log('Fetching overdue tasks');
-    const tasks = await getOverdueTasks();
-    console.log('Overdue tasks count:', tasks.length);
-    return successResponse({
-      tasks,
-      total: tasks.length,
-      filter: 'overdue',
-    });
+  const page = readPagination(params);
+  if (!page.valid) {
+    console.log('Invalid pagination params:', page.errors);
+    return errorResponse('Validation failed', 400, page.errors.join('; '));
   }
 
-  // Build filters from query params
-  const filters: TaskFilters = {};
+  // Start from a named view if one was asked for, then add the individual filters
+  const namedFilter = params.filter ? NAMED_TASK_FILTERS[params.filter] : undefined;
+  const filters: TaskFilters = { ...namedFilter };
 
   if (params.status) {
     filters.status = params.status as TaskFilters['status'];
@@ -212,28 +255,72 @@ async function handleListTasks(
     filters.due_date = params.due_date as TaskFilters['due_date'];
   }
 
-  console.log('Filters:', JSON.stringify(filters));
+  console.log('Filters:', JSON.stringify(filters), 'Page:', JSON.stringify(page.value));
   // Check if summary view is requested
   const summary = params.summary === 'true';
   console.log('Summary view:', summary);
 
-  if (summary) {
-    console.log('Fetching task summaries');
-    const tasks = await getTaskSummaries(filters);
-    console.log('Tasks fetched, count:', tasks.length);
-    return successResponse({
-      tasks,
-      total: tasks.length,
-    });
+  const result = summary
+    ? await getTaskSummaryPage(filters, page.value)
+    : await getTaskPage(filters, page.value);
+  console.log('Tasks fetched, count:', result.items.length, 'has more:', result.has_more);
+  return successResponse({
+    tasks: result.items,
+    total: result.items.length,
+    has_more: result.has_more,
+    next_cursor: result.next_cursor,
+    filter: namedFilter ? params.filter : undefined,
+  });
+}
+
+/**
+ * Create a task, checking that any linked client and policy exist and belong together.
+ * A policy link without a client links the policy's client too.
+ */
+async function handleCreateTask(body?: string | null): Promise<APIGatewayProxyResultV2> {
+  console.log('handleCreateTask - fields:', bodyFields(body));
+  const validation = validateTaskCreate(parseBody<unknown>(body));
+
+  if (!validation.valid) {
+    console.log('Task validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
   }
 
-  console.log('Fetching full tasks');
-  const tasks = await getTasks(filters);
-  console.log('Tasks fetched, count:', tasks.length);
-  return successResponse({
-    tasks,
-    total: tasks.length,
+  const input = validation.value;
+  let clientId = input.client_id;
+
+  if (input.policy_id) {
+    const policy = await getPolicyById(input.policy_id);
+    if (!policy) {
+      console.log('Policy not found for new task:', input.policy_id);
+      return errorResponse('Validation failed', 400, `policy_id ${input.policy_id} does not exist`);
+    }
+    if (clientId && policy.client_id !== clientId) {
+      console.log('Policy belongs to another client:', policy.client_id);
+      return errorResponse('Validation failed', 400, `policy_id ${input.policy_id} does not belong to client ${clientId}`);
+    }
+    clientId = policy.client_id;
+  }
+
+  let clientName: string | undefined;
+  if (clientId) {
+    const client = await getClientById(clientId);
+    if (!client) {
+      console.log('Client not found for new task:', clientId);
+      return errorResponse('Validation failed', 400, `client_id ${clientId} does not exist`);
+    }
+    clientName = `${client.first_name} ${client.last_name}`;
+  }
+
+  const task = await createTask({
+    ...input,
+    client_id: clientId,
+    client_name: clientName,
+    status: 'pending',
+    ai_completed: false,
   });
+  console.log('Task created successfully:', task.task_id);
+  return successResponse(task, 201);
 }
 
 /**
@@ -241,18 +328,18 @@ async function handleListTasks(
  */
 async function handleUpdateTask(
   taskId: string,
-  body?: string
+  request: ExpectedVersion
 ): Promise<APIGatewayProxyResultV2> {
-  console.log('handleUpdateTask - task:', taskId, 'body:', body);
-  const updates = parseBody<TaskUpdate>(body);
+  console.log('handleUpdateTask - task:', taskId, 'fields:', bodyFields(request.body), 'expected version:', request.version);
+  const validation = validateTaskUpdate(request.body);
 
-  if (!updates) {
-    console.log('Invalid request body for task update');
-    return errorResponse('Invalid request body', 400);
+  if (!validation.valid) {
+    console.log('Task validation failed:', validation.errors);
+    return errorResponse('Validation failed', 400, validation.errors.join('; '));
   }
 
-  console.log('Updating task with:', JSON.stringify(updates));
-  const task = await updateTask(taskId, updates);
+  console.log('Updating task fields:', Object.keys(validation.value).join(', '));
+  const task = await updateTask(taskId, validation.value, request.version);
 
   if (!task) {
     console.log('Task not found for update:', taskId);
@@ -266,10 +353,13 @@ async function handleUpdateTask(
 /**
  * Approve an AI-completed task
  */
-async function handleApproveTask(taskId: string): Promise<APIGatewayProxyResultV2> {
-  console.log('handleApproveTask - task:', taskId);
+async function handleApproveTask(
+  taskId: string,
+  request: ExpectedVersion
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleApproveTask - task:', taskId, 'expected version:', request.version);
   try {
-    const task = await approveTask(taskId);
+    const task = await approveTask(taskId, request.version);
 
     if (!task) {
       console.log('Task not found for approval:', taskId);
@@ -282,6 +372,14 @@ async function handleApproveTask(taskId: string): Promise<APIGatewayProxyResultV
       message: 'Task approved successfully',
     });
   } catch (error) {
+    if (
+      error instanceof InvalidTransitionError ||
+      error instanceof VersionConflictError ||
+      error instanceof PermissionDeniedError ||
+      error instanceof AccessDeniedError
+    ) {
+      throw error;
+    }
     console.error('Error approving task:', error);
     return errorResponse(
       error instanceof Error ? error.message : 'Failed to approve task',
@@ -295,14 +393,13 @@ async function handleApproveTask(taskId: string): Promise<APIGatewayProxyResultV
  */
 async function handleRejectTask(
   taskId: string,
-  body?: string
+  request: ExpectedVersion
 ): Promise<APIGatewayProxyResultV2> {
-  console.log('handleRejectTask - task:', taskId, 'body:', body);
-  const data = parseBody<{ reason?: string }>(body);
-  console.log('Reject reason:', data?.reason);
+  console.log('handleRejectTask - task:', taskId, 'fields:', bodyFields(request.body), 'expected version:', request.version);
+  const data = request.body as { reason?: string } | null;
 
   try {
-    const task = await rejectTask(taskId, data?.reason);
+    const task = await rejectTask(taskId, data?.reason, request.version);
 
     if (!task) {
       console.log('Task not found for rejection:', taskId);
@@ -315,6 +412,14 @@ async function handleRejectTask(
       message: 'Task rejected and reset to pending',
     });
   } catch (error) {
+    if (
+      error instanceof InvalidTransitionError ||
+      error instanceof VersionConflictError ||
+      error instanceof PermissionDeniedError ||
+      error instanceof AccessDeniedError
+    ) {
+      throw error;
+    }
     console.error('Error rejecting task:', error);
     return errorResponse(
       error instanceof Error ? error.message : 'Failed to reject task',
@@ -326,9 +431,12 @@ async function handleRejectTask(
 /**
  * Mark a task as complete
  */
-async function handleCompleteTask(taskId: string): Promise<APIGatewayProxyResultV2> {
-  console.log('handleCompleteTask - task:', taskId);
-  const task = await completeTask(taskId);
+async function handleCompleteTask(
+  taskId: string,
+  request: ExpectedVersion
+): Promise<APIGatewayProxyResultV2> {
+  console.log('handleCompleteTask - task:', taskId, 'expected version:', request.version);
+  const task = await completeTask(taskId, request.version);
 
   if (!task) {
     console.log('Task not found for completion:', taskId);
@@ -0,0 +1,179 @@
+/**
+ * Conversation History Window
+ * Turns prior chat messages into a bounded list of LLM messages
+ */
+
+import type { Card, Message } from '../../types';
+import type { LLMMessage } from './providers';
+import { stripCardMarkers } from './parse-content';
+
+const DEFAULT_TOKEN_BUDGET = 2000;
+const DEFAULT_MAX_MESSAGES = 20;
+const SUMMARY_MAX_TOKENS = 400;
+const SUMMARY_SNIPPET_LENGTH = 160;
+
+/**
+ * Options for building the history window
+ */
+export interface ConversationWindowOptions {
+  tokenBudget?: number;
+  maxMessages?: number;
+}
+
+/**
+ * History window ready to pass to callLLM
+ */
+export interface ConversationWindow {
+  messages: LLMMessage[];
+  includedCount: number;
+  summarisedCount: number;
+  estimatedTokens: number;
+}
+
+function getPositiveIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  const parsed = Number(raw);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Describe a card in one short line so the model knows what was shown
+ */
+function describeCard(card: Card): string {
+  switch (card.type) {
+    case 'task-list':
+      return `task-list "${card.data.title}" (${card.data.tasks?.length ?? 0} tasks)`;
+    case 'client-list':
+      return `client-list "${card.data.title}" (${card.data.clients?.length ?? 0} clients)`;
+    case 'policy-list':
+      return `policy-list "${card.data.title}" (${card.data.policies?.length ?? 0} policies)`;
+    case 'task':
+      return `task ${card.data.task?.task_id ?? ''} "${card.data.task?.title ?? ''}"`.trim();
+    case 'client': {
+      const client = card.data.client;
+      return `client ${client?.client_id ?? ''} ${client?.first_name ?? ''} ${client?.last_name ?? ''}`.trim();
+    }
+    case 'policy':
+      return `policy ${card.data.policy?.policy_id ?? ''} ${card.data.policy?.policy_number ?? ''}`.trim();
+    case 'review':
+      return `review "${card.data.title}"`;
+    case 'confirmation':
+      return `confirmation "${card.data.message}"`;
+    default:
+      return 'card';
+  }
+}
+
+/**
+ * Convert a stored chat message into an LLM message.
+ * Card markers are replaced by a short description to save tokens.
+ */
+export function toLLMMessage(message: Message): LLMMessage {
+  const text = stripCardMarkers(message.content);
+  const cardNote = message.cards && message.cards.length > 0
+    ? `\n[Cards shown: ${message.cards.map(describeCard).join('; ')}]`
+    : '';
+
+  return {
+    role: message.role,
+    content: `${text}${cardNote}`.trim(),
+  };
+}
+
+/**
+ * Condense older turns into a single summary without an extra LLM call
+ */
+export function summariseMessages(messages: Message[]): string {
+  const lines: string[] = [];
+  let tokens = 0;
+
+  // Walk newest-first so the most recent older turns survive the cap
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const llmMessage = toLLMMessage(messages[i]);
+    const speaker = llmMessage.role === 'user' ? 'Advisor' : 'Ciri';
+    const snippet = llmMessage.content.replace(/\s+/g, ' ').slice(0, SUMMARY_SNIPPET_LENGTH);
+    const line = `- ${speaker}: ${snippet}${llmMessage.content.length > SUMMARY_SNIPPET_LENGTH ? '…' : ''}`;
+
+    tokens += estimateTokens(line);
+    if (tokens > SUMMARY_MAX_TOKENS) {
+      break;
+    }
+    lines.unshift(line);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build a token-budgeted window of prior turns.
+ * The newest messages are kept verbatim; anything that does not fit
+ * is folded into a summary message at the start of the window.
+ */
+export function buildConversationWindow(
+  history: Message[] | undefined,
+  options?: ConversationWindowOptions
+): ConversationWindow {
+  const tokenBudget = options?.tokenBudget ?? getPositiveIntEnv('LLM_HISTORY_TOKEN_BUDGET', DEFAULT_TOKEN_BUDGET);
+  const maxMessages = options?.maxMessages ?? getPositiveIntEnv('LLM_HISTORY_MAX_MESSAGES', DEFAULT_MAX_MESSAGES);
+
+  const candidates = (history || []).filter((m) => m.role !== 'system' && m.content);
+  if (candidates.length === 0) {
+    return { messages: [], includedCount: 0, summarisedCount: 0, estimatedTokens: 0 };
+  }
+
+  const included: LLMMessage[] = [];
+  let usedTokens = 0;
+  let cutoff = candidates.length;
+
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    if (included.length >= maxMessages) {
+      break;
+    }
+    const llmMessage = toLLMMessage(candidates[i]);
+    const tokens = estimateTokens(llmMessage.content);
+    if (usedTokens + tokens > tokenBudget) {
+      break;
+    }
+    included.unshift(llmMessage);
+    usedTokens += tokens;
+    cutoff = i;
+  }
+
+  // Keep the window starting on a user turn so roles alternate cleanly
+  while (included.length > 0 && included[0].role !== 'user') {
+    usedTokens -= estimateTokens(included[0].content);
+    included.shift();
+    cutoff++;
+  }
+
+  const older = candidates.slice(0, cutoff);
+  const messages: LLMMessage[] = [];
+
+  if (older.length > 0) {
+    const summary = summariseMessages(older);
+    if (summary) {
+      const content = `Summary of earlier conversation (oldest first):\n${summary}`;
+      messages.push({ role: 'system', content });
+      usedTokens += estimateTokens(content);
+    }
+  }
+
+  messages.push(...included);
+
+  return {
+    messages,
+    includedCount: included.length,
+    summarisedCount: older.length,
+    estimatedTokens: usedTokens,
+  };
+}
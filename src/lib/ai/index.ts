@@ -4,5 +4,9 @@
 
 export * from './prompts';
 export * from './parse-intent';
+export * from './intent-classifier';
 export * from './parse-content';
+export * from './providers';
 export * from './llm-client';
+export * from './conversation';
+export * from './pii';
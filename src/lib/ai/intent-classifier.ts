@@ -0,0 +1,259 @@
+/**
+ * LLM Intent Classifier
+ * Second stage behind the regex patterns: asks the model for a JSON
+ * classification when the patterns miss or disagree
+ */
+
+import type {
+  ChatContext,
+  ExtractedEntities,
+  IntentClassification,
+  UserIntent,
+} from '../../types';
+import { classifyIntent } from './parse-intent';
+import { callLLMWithMessages, isLLMConfigured } from './llm-client';
+import type { PiiRedactor } from './pii';
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.65;
+const DEFAULT_LLM_CONFIDENCE = 0.7;
+
+/**
+ * One-line description of every intent, shown to the model.
+ * Typed as a full Record so a new UserIntent must be described here.
+ */
+export const INTENT_DESCRIPTIONS: Record<UserIntent, string> = {
+  show_todays_tasks: 'tasks due today, what is on the agenda today',
+  show_all_tasks: 'every task',
+  show_task_status: 'status or details of one specific task',
+  show_pending_reviews: 'AI-completed work waiting for the advisor to review',
+  show_overdue_tasks: 'tasks past their due date',
+  show_high_priority_tasks: 'urgent or high priority tasks',
+  show_tasks_this_week: 'tasks due this week',
+  show_tasks_this_month: 'tasks due this month',
+  show_in_progress_tasks: 'tasks currently in progress',
+  show_completed_tasks: 'recently completed tasks',
+  approve_task: 'approve an AI-completed task',
+  reject_task: 'reject an AI-completed task',
+  complete_task: 'mark a task as done',
+  create_task: 'create a task or reminder',
+  show_client_info: 'details, concerns or status of one specific client or household',
+  show_client_list: 'list of all clients',
+  search_clients: 'find clients matching a name, email or phone',
+  show_client_policies: 'policies held by one specific client',
+  show_recent_clients: 'most recently added clients',
+  show_high_net_worth_clients: 'high net worth clients',
+  show_active_clients: 'clients with Active status',
+  show_inactive_clients: 'clients with Inactive status',
+  show_prospect_clients: 'prospective clients',
+  show_clients_by_portfolio: 'clients ranked by portfolio value',
+  show_policy_info: 'details of one specific policy',
+  show_policies_for_client: 'policies held by one specific client',
+  show_expiring_policies: 'policies renewing within 30 days',
+  show_expiring_this_week: 'policies renewing this week',
+  show_expiring_this_month: 'policies renewing this month',
+  show_policies_by_type: 'policies of one type (life, auto, home, RRSP, ...)',
+  show_policies_by_status: 'policies with one status (active, lapsed, cancelled, ...)',
+  show_overdue_policies: 'policies with overdue premium payments',
+  show_dashboard: 'overall dashboard metrics',
+  show_task_summary: 'task counts and metrics',
+  show_client_summary: 'client counts and metrics',
+  show_policy_summary: 'policy counts and metrics',
+  show_portfolio_summary: 'assets under management and portfolio metrics',
+  show_today_summary: 'summary of the day',
+  show_week_summary: 'summary of the week',
+  draft_email: 'write an email',
+  draft_meeting_notes: 'write meeting notes',
+  draft_birthday_message: 'write a birthday message',
+  draft_renewal_notice: 'write a policy renewal notice',
+  create_compliance_check: 'compliance or KYC check for a client',
+  create_portfolio_analysis: 'analyse a client portfolio',
+  create_client_summary: 'write a client summary document',
+  create_meeting_prep: 'prepare for a client meeting',
+  create_report: 'generate a report',
+  global_search: 'search across tasks, clients and policies',
+  search_tasks: 'search tasks by keyword',
+  search_policies: 'search policies by number or keyword',
+  general_question: 'anything else about the advisor\'s work',
+  greeting: 'hello, small talk',
+  help: 'what the assistant can do',
+  unknown: 'not related to the advisor\'s work',
+};
+
+const ENTITY_KEYS: (keyof ExtractedEntities)[] = [
+  'task_id',
+  'task_title',
+  'task_status',
+  'client_id',
+  'client_name',
+  'policy_id',
+  'policy_number',
+  'policy_type',
+  'policy_status',
+  'date',
+  'time_range',
+  'action',
+  'search_query',
+];
+
+const TIME_RANGES = ['today', 'week', 'month', 'overdue'];
+
+/**
+ * Check that a value is one of the declared UserIntent values
+ */
+export function isUserIntent(value: unknown): value is UserIntent {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(INTENT_DESCRIPTIONS, value);
+}
+
+function getConfidenceThreshold(): number {
+  const raw = process.env.INTENT_LLM_THRESHOLD;
+  if (!raw) {
+    return DEFAULT_CONFIDENCE_THRESHOLD;
+  }
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 1 ? parsed : DEFAULT_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Build the classification prompt
+ */
+function buildClassifierPrompt(context?: ChatContext): string {
+  const intents = (Object.keys(INTENT_DESCRIPTIONS) as UserIntent[])
+    .map((intent) => `- ${intent}: ${INTENT_DESCRIPTIONS[intent]}`)
+    .join('\n');
+
+  const focus = [
+    context?.last_intent && `previous intent: ${context.last_intent}`,
+    context?.focused_client_id && `client under discussion: ${context.focused_client_id}`,
+    context?.focused_task_id && `task under discussion: ${context.focused_task_id}`,
+    context?.focused_policy_id && `policy under discussion: ${context.focused_policy_id}`,
+  ].filter(Boolean);
+
+  return `You classify messages sent by a financial advisor to their assistant.
+Reply with a single JSON object and nothing else:
+{"intent": "<one intent name>", "confidence": <0-1>, "entities": {<only the entities present>}}
+
+Intents:
+${intents}
+
+Entities (all strings): ${ENTITY_KEYS.join(', ')}
+time_range must be one of: ${TIME_RANGES.join(', ')}
+Use client_name for people or households as written ("the Patels" -> "Patel").
+For create_task, task_title is the task without its due date and date is the due date as written ("next Tuesday").${focus.length > 0 ? `\n\nConversation so far: ${focus.join('; ')}` : ''}`;
+}
+
+/**
+ * Keep only known entity keys with string values
+ */
+function sanitiseEntities(raw: unknown): ExtractedEntities {
+  const entities: ExtractedEntities = {};
+  if (!raw || typeof raw !== 'object') {
+    return entities;
+  }
+
+  for (const key of ENTITY_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      continue;
+    }
+    if (key === 'time_range') {
+      if (TIME_RANGES.includes(value)) {
+        entities.time_range = value as ExtractedEntities['time_range'];
+      }
+      continue;
+    }
+    entities[key] = value.trim();
+  }
+
+  return entities;
+}
+
+/**
+ * Parse and validate the model's reply. Returns null when it is unusable.
+ */
+export function parseLLMClassification(
+  reply: string,
+  message: string
+): IntentClassification | null {
+  const jsonMatch = reply.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return null;
+  }
+
+  let parsed: { intent?: unknown; confidence?: unknown; entities?: unknown };
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  if (!isUserIntent(parsed.intent)) {
+    console.log('LLM returned an unknown intent:', parsed.intent);
+    return null;
+  }
+
+  const confidence = typeof parsed.confidence === 'number'
+    && parsed.confidence >= 0
+    && parsed.confidence <= 1
+    ? parsed.confidence
+    : DEFAULT_LLM_CONFIDENCE;
+
+  return {
+    intent: parsed.intent,
+    entities: sanitiseEntities(parsed.entities),
+    confidence,
+    raw_message: message,
+    source: 'llm',
+  };
+}
+
+/**
+ * Classify a message: regex patterns first, the LLM when they miss or are ambiguous.
+ * Without an LLM key, or if the LLM call fails, the regex result is returned as-is.
+ * With a redactor, the LLM sees the message with personal details replaced.
+ */
+export async function classifyIntentWithLLM(
+  message: string,
+  context?: ChatContext,
+  redactor?: PiiRedactor
+): Promise<IntentClassification> {
+  const patternResult = classifyIntent(message);
+  const threshold = getConfidenceThreshold();
+
+  if (patternResult.confidence >= threshold) {
+    return patternResult;
+  }
+
+  if (!isLLMConfigured()) {
+    console.log('Intent confidence below threshold but no LLM configured, using patterns');
+    return patternResult;
+  }
+
+  console.log('Intent confidence', patternResult.confidence, 'below', threshold, '- asking LLM');
+  try {
+    const reply = await callLLMWithMessages(
+      [
+        { role: 'system', content: buildClassifierPrompt(context) },
+        { role: 'user', content: redactor ? redactor.redactText(message) : message },
+      ],
+      // The patterns' answer is ready; no point waiting out retries for a better one
+      { temperature: 0, maxTokens: 300, maxRetries: 0 }
+    );
+
+    const llmResult = parseLLMClassification(reply, message);
+    if (!llmResult) {
+      console.log('LLM classification unusable, using patterns');
+      return patternResult;
+    }
+
+    // Entities the patterns found fill gaps the model left
+    const llmEntities = redactor ? redactor.rehydrate(llmResult.entities) : llmResult.entities;
+    return {
+      ...llmResult,
+      entities: { ...patternResult.entities, ...llmEntities },
+      alternatives: patternResult.intent !== llmResult.intent ? [patternResult.intent] : undefined,
+    };
+  } catch (error) {
+    console.error('LLM intent classification failed, using patterns:', error);
+    return patternResult;
+  }
+}
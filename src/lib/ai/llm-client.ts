@@ -1,312 +1,320 @@
 /**
  * LLM Client
- * Handles communication with the Z.ai API
+ * Handles communication with the configured LLM provider (see providers/config.ts)
  */
 
-interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  getLLMConfig,
+  getLLMFallbackConfig,
+  getLLMProvider,
+  getLLMRetryConfig,
+  isProviderConfigured,
+  LLMError,
+  LLMRateLimitError,
+  LLMTimeoutError,
+  toLLMError,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMProviderConfig,
+  type LLMRequest,
+  type LLMRetryConfig,
+  type LLMToolDefinition,
+} from './providers';
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 4000;
+
+/**
+ * Whether a provider is configured; without one the chat runs on patterns only
+ */
+export function isLLMConfigured(): boolean {
+  return isProviderConfigured(getLLMConfig());
 }
 
-interface LLMRequest {
-  model: string;
-  messages: LLMMessage[];
-  temperature?: number;
-  max_tokens?: number;
-  thinking?: {
-    type: 'enabled' | 'disabled';
-  };
+/**
+ * System prompt, prior turns and the new user message as one message list
+ */
+function buildMessages(
+  systemPrompt: string,
+  userMessage: string,
+  conversationHistory?: LLMMessage[]
+): LLMMessage[] {
+  const messages: LLMMessage[] = [{ role: 'system', content: systemPrompt }];
+  if (conversationHistory && conversationHistory.length > 0) {
+    messages.push(...conversationHistory);
+  }
+  messages.push({ role: 'user', content: userMessage });
+  return messages;
 }
 
-interface LLMResponse {
-  choices: Array<{
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+/**
+ * Log the failure of a provider call with what's known about its cause
+ */
+function logFailure(label: string, error: unknown, startTime: number): void {
+  console.error(`=== LLM Request Failed (${label}) ===`);
+  console.error('Elapsed time before failure (ms):', Date.now() - startTime);
+  console.error('Error type:', error?.constructor?.name);
+
+  if (error instanceof LLMError) {
+    console.error('Provider:', error.provider, 'Status:', error.status, 'Retryable:', error.retryable);
+  }
+  if (error instanceof Error) {
+    console.error('Error message:', error.message);
+    const errorWithCause = error as Error & { cause?: Error & { code?: string } };
+    if (errorWithCause.cause) {
+      console.error('Cause type:', errorWithCause.cause.constructor?.name);
+      console.error('Cause message:', errorWithCause.cause.message);
+      console.error('Cause code:', errorWithCause.cause.code);
+    }
+  }
+  console.error('==========================');
 }
 
-// Zhipu AI API configuration (using BigModel endpoint which is more reliable from AWS)
-const Z_AI_API_URL = 'https://open.bigmodel.cn/api/paas/v4/chat/completions';
-const DEFAULT_MODEL = 'glm-4.7-flashx';
-const DEFAULT_TIMEOUT_MS = 20000;
+// The end of the time LLM calls may take in this invocation, set by runWithLLMTimeBudget
+const deadlineStorage = new AsyncLocalStorage<number>();
+
+// Left over when the budget is set, to save the session and send the reply
+const RESPONSE_RESERVE_MS = 3000;
+// Not worth starting an attempt (or sleeping before one) with less time left than this
+const MIN_ATTEMPT_MS = 2000;
 
 /**
- * Get the API key from environment
+ * Run fn with every LLM call in it, retries included, confined to the time the Lambda has left
+ * (context.getRemainingTimeInMillis()). Without a budget only LLM_TIMEOUT_MS bounds each attempt.
  */
-function getApiKey(): string {
-  const apiKey = process.env.LLM_API_KEY;
-  if (!apiKey) {
-    throw new Error('LLM_API_KEY environment variable not set');
+export function runWithLLMTimeBudget<T>(remainingMs: number | undefined, fn: () => Promise<T>): Promise<T> {
+  if (remainingMs === undefined) {
+    return fn();
   }
-  return apiKey;
+  return deadlineStorage.run(Date.now() + remainingMs - RESPONSE_RESERVE_MS, fn);
 }
 
-function getApiUrl(): string {
-  return process.env.LLM_API_URL || Z_AI_API_URL;
+function getRemainingBudgetMs(): number {
+  const deadline = deadlineStorage.getStore();
+  return deadline === undefined ? Infinity : deadline - Date.now();
 }
 
-function getModel(): string {
-  return process.env.LLM_MODEL || DEFAULT_MODEL;
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^retry, capped, and no shorter
+ * than the provider's Retry-After hint
+ */
+function getRetryDelayMs(error: LLMError, retry: number, retryConfig: LLMRetryConfig): number {
+  const ceiling = Math.min(retryConfig.maxDelayMs, retryConfig.baseDelayMs * 2 ** retry);
+  const jittered = Math.random() * ceiling;
+  return error instanceof LLMRateLimitError && error.retryAfterMs !== undefined
+    ? Math.max(jittered, Math.min(error.retryAfterMs, retryConfig.maxDelayMs))
+    : jittered;
 }
 
-function getTimeoutMs(): number {
-  const raw = process.env.LLM_TIMEOUT_MS;
-  if (!raw) {
-    return DEFAULT_TIMEOUT_MS;
-  }
-  const parsed = Number(raw);
-  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TIMEOUT_MS;
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Call the LLM with a system prompt and user message
+ * One attempt against one provider, streaming when onDelta is given.
+ * Logs the request, timing and token usage; failures are rethrown as LLMErrors.
  */
-export async function callLLM(
-  systemPrompt: string,
-  userMessage: string,
-  conversationHistory?: LLMMessage[]
-): Promise<string> {
-  const messages: LLMMessage[] = [
-    { role: 'system', content: systemPrompt },
-  ];
-
-  // Add conversation history if provided
-  if (conversationHistory && conversationHistory.length > 0) {
-    messages.push(...conversationHistory);
+async function attemptRequest(
+  label: string,
+  config: LLMProviderConfig,
+  request: LLMRequest,
+  onDelta?: (delta: string) => void
+): Promise<LLMCompletion> {
+  const provider: LLMProvider = getLLMProvider(config);
+
+  console.log(`=== LLM Request Config (${label}) ===`);
+  console.log('Provider:', provider.name);
+  console.log('API URL:', config.apiUrl || `(bedrock ${config.region ?? 'default region'})`);
+  console.log('Model:', config.model);
+  console.log('Timeout (ms):', config.timeoutMs);
+  console.log('Message count:', request.messages.length);
+  if (request.tools) {
+    console.log('Tool count:', request.tools.length, 'Tool choice:', request.toolChoice ?? 'auto');
   }
-
-  // Add the current user message
-  messages.push({ role: 'user', content: userMessage });
-
-  const apiUrl = getApiUrl();
-  const model = getModel();
-  const timeoutMs = getTimeoutMs();
-  const apiKeyPreview = getApiKey().substring(0, 8) + '...';
-
-  const requestBody: LLMRequest = {
-    model,
-    messages,
-    temperature: 0.7,
-    max_tokens: 4000,
-    thinking: {
-      type: 'disabled',
-    },
-  };
-
-  // Detailed pre-request logging
-  console.log('=== LLM Request Config ===');
-  console.log('API URL:', apiUrl);
-  console.log('Model:', model);
-  console.log('Timeout (ms):', timeoutMs);
-  console.log('API Key (preview):', apiKeyPreview);
-  console.log('Message count:', messages.length);
-  console.log('Request body size (bytes):', JSON.stringify(requestBody).length);
-  console.log('System prompt length:', systemPrompt.length);
-  console.log('User message length:', userMessage.length);
   console.log('==========================');
 
   const startTime = Date.now();
-  console.log(`[${new Date().toISOString()}] Starting LLM API request...`);
-
   try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${getApiKey()}`,
-      },
-      body: JSON.stringify(requestBody),
-      signal: AbortSignal.timeout(timeoutMs),
-    });
-
-    const elapsed = Date.now() - startTime;
-    console.log(`[${new Date().toISOString()}] LLM API response received`);
-    console.log('Response status:', response.status);
-    console.log('Response status text:', response.statusText);
-    console.log('Response elapsed time (ms):', elapsed);
-    console.log('Response headers:', JSON.stringify(Object.fromEntries(response.headers.entries())));
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('=== LLM API Error Response ===');
-      console.error('Status:', response.status);
-      console.error('Status text:', response.statusText);
-      console.error('Error body:', errorText);
-      console.error('==============================');
-      throw new Error(`LLM API error: ${response.status} - ${errorText}`);
+    const completion = onDelta ? await provider.stream(request, onDelta) : await provider.complete(request);
+    console.log('LLM response content length:', completion.content.length);
+    console.log('Finish reason:', completion.finishReason, 'Tool calls:', completion.toolCalls.length);
+    if (completion.usage) {
+      console.log('Token usage:', JSON.stringify(completion.usage));
     }
+    console.log('Total request duration (ms):', Date.now() - startTime);
+    return completion;
+  } catch (error: unknown) {
+    logFailure(label, error, startTime);
+    throw toLLMError(provider.name, error, config.timeoutMs);
+  }
+}
 
-    const data = await response.json() as LLMResponse;
-    console.log('Response parsed successfully');
-    console.log('Choices count:', data.choices?.length ?? 0);
-    if (data.usage) {
-      console.log('Token usage:', JSON.stringify(data.usage));
-    }
+/**
+ * Run one request with retries: retryable failures (rate limits, timeouts, 5xx, network errors)
+ * are retried after a jittered backoff, then the fallback provider gets the same treatment.
+ * Nothing is retried once the time budget runs out, and a stream is never retried after it has
+ * passed text on. Throws the last LLMError when every attempt failed.
+ */
+async function runRequest(
+  label: string,
+  request: LLMRequest,
+  onDelta?: (delta: string) => void,
+  maxRetries?: number
+): Promise<LLMCompletion> {
+  const primary = getLLMConfig();
+  const fallback = getLLMFallbackConfig(primary);
+  const targets = fallback ? [primary, fallback] : [primary];
+  const retryConfig = { ...getLLMRetryConfig(), ...(maxRetries !== undefined && { maxRetries }) };
+
+  let streamed = false;
+  const forward = onDelta
+    ? (delta: string) => {
+        streamed = true;
+        onDelta(delta);
+      }
+    : undefined;
 
-    if (!data.choices || data.choices.length === 0) {
-      console.error('No choices in LLM response:', JSON.stringify(data));
-      throw new Error('No response from LLM');
+  let lastError: LLMError | undefined;
+  for (const [index, target] of targets.entries()) {
+    if (index > 0) {
+      console.log('Falling back to', target.provider, 'model', target.model);
     }
 
-    const content = data.choices[0].message.content;
-    console.log('LLM response content length:', content.length);
-    console.log('Finish reason:', data.choices[0].finish_reason);
-    console.log('Total request duration (ms):', Date.now() - startTime);
-
-    return content;
-  } catch (error: unknown) {
-    const elapsed = Date.now() - startTime;
-    console.error('=== LLM Request Failed ===');
-    console.error('Elapsed time before failure (ms):', elapsed);
-    console.error('Error type:', error?.constructor?.name);
-
-    if (error instanceof Error) {
-      console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
-
-      // Check for network-specific error details
-      const errorWithCause = error as Error & { cause?: Error & { code?: string } };
-      if (errorWithCause.cause) {
-        console.error('=== Error Cause Details ===');
-        console.error('Cause type:', errorWithCause.cause.constructor?.name);
-        console.error('Cause message:', errorWithCause.cause.message);
-        console.error('Cause code:', errorWithCause.cause.code);
-        if (errorWithCause.cause.stack) {
-          console.error('Cause stack:', errorWithCause.cause.stack);
+    for (let retry = 0; retry <= retryConfig.maxRetries; retry++) {
+      if (retry > 0 && lastError) {
+        const delayMs = getRetryDelayMs(lastError, retry - 1, retryConfig);
+        if (getRemainingBudgetMs() - delayMs < MIN_ATTEMPT_MS) {
+          console.log('No time left to retry', label);
+          break;
         }
-        console.error('===========================');
+        console.log(`Retrying ${label} in ${Math.round(delayMs)}ms (retry ${retry} of ${retryConfig.maxRetries})`);
+        await sleep(delayMs);
+      }
+
+      const remainingMs = getRemainingBudgetMs();
+      if (remainingMs < MIN_ATTEMPT_MS) {
+        console.log('LLM time budget used up before', label);
+        throw lastError ?? new LLMTimeoutError(target.provider, Math.max(0, remainingMs));
       }
 
-      // Check for abort/timeout
-      if (error.name === 'AbortError' || error.name === 'TimeoutError') {
-        console.error('Request was aborted/timed out');
-        console.error('Configured timeout was:', timeoutMs, 'ms');
+      try {
+        return await attemptRequest(
+          label,
+          { ...target, timeoutMs: Math.min(target.timeoutMs, remainingMs) },
+          request,
+          forward
+        );
+      } catch (error: unknown) {
+        lastError = toLLMError(target.provider, error, target.timeoutMs);
+        if (streamed) {
+          // The advisor has already seen part of this answer; a retry would repeat it
+          throw lastError;
+        }
+        if (!lastError.retryable) {
+          break;
+        }
       }
     }
+  }
 
-    console.error('Full error object:', JSON.stringify(error, Object.getOwnPropertyNames(error)));
-    console.error('==========================');
+  throw lastError as LLMError;
+}
 
-    throw error;
-  }
+/**
+ * Call the LLM with a system prompt and user message
+ */
+export async function callLLM(
+  systemPrompt: string,
+  userMessage: string,
+  conversationHistory?: LLMMessage[]
+): Promise<string> {
+  const completion = await runRequest('callLLM', {
+    messages: buildMessages(systemPrompt, userMessage, conversationHistory),
+    temperature: DEFAULT_TEMPERATURE,
+    maxTokens: DEFAULT_MAX_TOKENS,
+  });
+  return completion.content;
 }
 
 /**
- * Call LLM with full message array
+ * Call LLM with full message array.
+ * maxRetries overrides LLM_MAX_RETRIES, for callers with a cheaper way out than waiting.
  */
 export async function callLLMWithMessages(
   messages: LLMMessage[],
   options?: {
     temperature?: number;
     maxTokens?: number;
+    maxRetries?: number;
   }
 ): Promise<string> {
-  const apiUrl = getApiUrl();
-  const model = getModel();
-  const timeoutMs = getTimeoutMs();
-  const apiKeyPreview = getApiKey().substring(0, 8) + '...';
-
-  const requestBody: LLMRequest = {
-    model,
-    messages,
-    temperature: options?.temperature ?? 0.7,
-    max_tokens: options?.maxTokens ?? 4000,
-    thinking: {
-      type: 'disabled',
+  const completion = await runRequest(
+    'callLLMWithMessages',
+    {
+      messages,
+      temperature: options?.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: options?.maxTokens ?? DEFAULT_MAX_TOKENS,
     },
-  };
-
-  // Detailed pre-request logging
-  console.log('=== LLM Request Config (callLLMWithMessages) ===');
-  console.log('API URL:', apiUrl);
-  console.log('Model:', model);
-  console.log('Timeout (ms):', timeoutMs);
-  console.log('API Key (preview):', apiKeyPreview);
-  console.log('Message count:', messages.length);
-  console.log('Request body size (bytes):', JSON.stringify(requestBody).length);
-  console.log('================================================');
-
-  const startTime = Date.now();
-  console.log(`[${new Date().toISOString()}] Starting LLM API request (callLLMWithMessages)...`);
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${getApiKey()}`,
-      },
-      body: JSON.stringify(requestBody),
-      signal: AbortSignal.timeout(timeoutMs),
-    });
-
-    const elapsed = Date.now() - startTime;
-    console.log(`[${new Date().toISOString()}] LLM API response received (callLLMWithMessages)`);
-    console.log('Response status:', response.status);
-    console.log('Response elapsed time (ms):', elapsed);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('=== LLM API Error Response ===');
-      console.error('Status:', response.status);
-      console.error('Error body:', errorText);
-      console.error('==============================');
-      throw new Error(`LLM API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json() as LLMResponse;
-
-    if (!data.choices || data.choices.length === 0) {
-      console.error('No choices in LLM response:', JSON.stringify(data));
-      throw new Error('No response from LLM');
-    }
-
-    console.log('LLM response content length:', data.choices[0].message.content.length);
-    console.log('Total request duration (ms):', Date.now() - startTime);
-
-    return data.choices[0].message.content;
-  } catch (error: unknown) {
-    const elapsed = Date.now() - startTime;
-    console.error('=== LLM Request Failed (callLLMWithMessages) ===');
-    console.error('Elapsed time before failure (ms):', elapsed);
-    console.error('Error type:', error?.constructor?.name);
-
-    if (error instanceof Error) {
-      console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
-
-      const errorWithCause = error as Error & { cause?: Error & { code?: string } };
-      if (errorWithCause.cause) {
-        console.error('=== Error Cause Details ===');
-        console.error('Cause type:', errorWithCause.cause.constructor?.name);
-        console.error('Cause message:', errorWithCause.cause.message);
-        console.error('Cause code:', errorWithCause.cause.code);
-        console.error('===========================');
-      }
-    }
-
-    console.error('Full error object:', JSON.stringify(error, Object.getOwnPropertyNames(error)));
-    console.error('===============================================');
+    undefined,
+    options?.maxRetries
+  );
+  return completion.content;
+}
 
-    throw error;
+/**
+ * Call LLM with tools the model may choose to call.
+ * Returns either final content or the tool calls the model wants run.
+ */
+export async function callLLMWithTools(
+  messages: LLMMessage[],
+  tools: LLMToolDefinition[],
+  options?: {
+    temperature?: number;
+    maxTokens?: number;
+    toolChoice?: 'auto' | 'none';
   }
+): Promise<LLMCompletion> {
+  return runRequest('callLLMWithTools', {
+    messages,
+    tools,
+    toolChoice: options?.toolChoice,
+    temperature: options?.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: options?.maxTokens ?? DEFAULT_MAX_TOKENS,
+  });
+}
+
+/**
+ * Call the LLM with streaming enabled.
+ * Calls onDelta for each content fragment and resolves with the full text.
+ */
+export async function streamLLM(
+  systemPrompt: string,
+  userMessage: string,
+  onDelta: (delta: string) => void,
+  conversationHistory?: LLMMessage[]
+): Promise<string> {
+  const completion = await runRequest(
+    'streamLLM',
+    {
+      messages: buildMessages(systemPrompt, userMessage, conversationHistory),
+      temperature: DEFAULT_TEMPERATURE,
+      maxTokens: DEFAULT_MAX_TOKENS,
+    },
+    onDelta
+  );
+  return completion.content;
 }
 
 /**
  * Diagnostic function to test LLM API connectivity
- * Returns detailed information about the connection attempt
+ * Sends a one-token request and returns detailed information about the attempt
  */
 export async function testLLMConnectivity(): Promise<{
   success: boolean;
   config: {
+    provider: string;
     apiUrl: string;
     model: string;
     timeoutMs: number;
@@ -318,14 +326,14 @@ export async function testLLMConnectivity(): Promise<{
     durationMs: number;
   };
   result?: {
-    status: number;
-    statusText: string;
-    headers: Record<string, string>;
+    finishReason: string;
+    usage?: LLMCompletion['usage'];
   };
   error?: {
     type: string;
     message: string;
-    code?: string;
+    status?: number;
+    retryable?: boolean;
     cause?: {
       type: string;
       message: string;
@@ -333,19 +341,14 @@ export async function testLLMConnectivity(): Promise<{
     };
   };
 }> {
-  const apiUrl = getApiUrl();
-  const model = getModel();
-  const timeoutMs = getTimeoutMs();
-  let hasApiKey = false;
-
-  try {
-    getApiKey();
-    hasApiKey = true;
-  } catch {
-    hasApiKey = false;
-  }
-
-  const config = { apiUrl, model, timeoutMs, hasApiKey };
+  const providerConfig = getLLMConfig();
+  const config = {
+    provider: providerConfig.provider,
+    apiUrl: providerConfig.apiUrl,
+    model: providerConfig.model,
+    timeoutMs: providerConfig.timeoutMs,
+    hasApiKey: Boolean(providerConfig.apiKey),
+  };
   const startTime = new Date().toISOString();
   const startMs = Date.now();
 
@@ -354,74 +357,44 @@ export async function testLLMConnectivity(): Promise<{
   console.log('Start time:', startTime);
 
   try {
-    // Simple test request with minimal payload
-    const testBody = {
-      model,
+    const completion = await getLLMProvider(providerConfig).complete({
       messages: [{ role: 'user', content: 'test' }],
-      max_tokens: 1,
-    };
-
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${hasApiKey ? getApiKey() : 'test-key'}`,
-      },
-      body: JSON.stringify(testBody),
-      signal: AbortSignal.timeout(timeoutMs),
+      maxTokens: 1,
     });
-
-    const endTime = new Date().toISOString();
     const durationMs = Date.now() - startMs;
-
     console.log('Connection successful!');
-    console.log('Status:', response.status);
     console.log('Duration (ms):', durationMs);
 
     return {
       success: true,
       config,
-      timing: { startTime, endTime, durationMs },
-      result: {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries()),
-      },
+      timing: { startTime, endTime: new Date().toISOString(), durationMs },
+      result: { finishReason: completion.finishReason, usage: completion.usage },
     };
   } catch (error: unknown) {
-    const endTime = new Date().toISOString();
     const durationMs = Date.now() - startMs;
-
     console.error('Connection failed!');
     console.error('Duration before failure (ms):', durationMs);
 
-    const errorInfo: {
-      type: string;
-      message: string;
-      code?: string;
-      cause?: { type: string; message: string; code?: string };
-    } = {
-      type: error?.constructor?.name || 'Unknown',
-      message: error instanceof Error ? error.message : String(error),
+    const llmError = toLLMError(providerConfig.provider, error, providerConfig.timeoutMs);
+    const cause = llmError.cause as (Error & { code?: string }) | undefined;
+    const errorInfo = {
+      type: llmError.name,
+      message: llmError.message,
+      status: llmError.status,
+      retryable: llmError.retryable,
+      cause: cause && {
+        type: cause.constructor?.name || 'Unknown',
+        message: cause.message,
+        code: cause.code,
+      },
     };
-
-    if (error instanceof Error) {
-      const errorWithCause = error as Error & { cause?: Error & { code?: string } };
-      if (errorWithCause.cause) {
-        errorInfo.cause = {
-          type: errorWithCause.cause.constructor?.name || 'Unknown',
-          message: errorWithCause.cause.message,
-          code: errorWithCause.cause.code,
-        };
-      }
-    }
-
     console.error('Error info:', JSON.stringify(errorInfo));
 
     return {
       success: false,
       config,
-      timing: { startTime, endTime, durationMs },
+      timing: { startTime, endTime: new Date().toISOString(), durationMs },
       error: errorInfo,
     };
   }
@@ -1,15 +1,28 @@
 /**
  * Content Parsing Utilities
- * Extracts card markers and structured data from LLM responses
+ * Extracts card markers and structured data from LLM responses.
+ * Cards are checked against their schema and repaired where possible (see lib/validation/cards.ts).
  */
 
-import type { Card, CardType } from '../../types';
+import type { Card, CardType, CardWarning } from '../../types';
+import { isCardType, validateCard, type CardDataContext } from '../validation';
 
 /**
  * Card marker pattern
  * Format: <<<CARD:card-type:{"json":"data"}>>>
  */
-const CARD_PATTERN = /<<<CARD:([a-z-]+):([\s\S]*?)>>>/g;
+export const CARD_PATTERN = /<<<CARD:([a-z-]+):([\s\S]*?)>>>/g;
+
+/**
+ * Reference to a card built server-side, placed by the model
+ * Format: <<<CARD_REF:card-id>>>
+ */
+export const CARD_REF_PATTERN = /<<<CARD_REF:([\w-]+)>>>/g;
+
+/**
+ * Look up a referenced card by ID
+ */
+export type CardResolver = (id: string) => Card | undefined;
 
 /**
  * Parsed content segment - either text or a card
@@ -27,6 +40,8 @@ export interface ParsedResponse {
   segments: ContentSegment[];
   cards: Card[];
   plainText: string;
+  // Cards dropped because they couldn't be repaired
+  warnings: CardWarning[];
 }
 
 /**
@@ -58,48 +73,50 @@ function extractJson(str: string): string {
 }
 
 /**
- * Parse a single card marker
+ * Parse a single card marker, validating and repairing its data.
+ * Returns a warning instead when the card can't be shown.
  */
-function parseCardMarker(cardType: string, jsonStr: string): Card | null {
+function parseCardMarker(
+  cardType: string,
+  jsonStr: string,
+  context?: CardDataContext
+): { card: Card } | { warning: CardWarning } {
+  if (!isCardType(cardType)) {
+    console.warn(`Unknown card type: ${cardType}`);
+    return { warning: { code: 'unknown_card_type', card_type: cardType, errors: [`Unknown card type: ${cardType}`] } };
+  }
+
+  let data: unknown;
   try {
     // Extract and parse JSON
     const jsonContent = extractJson(jsonStr) || jsonStr;
-    const data = JSON.parse(jsonContent);
-
-    // Validate card type
-    const validTypes: CardType[] = [
-      'task-list',
-      'task',
-      'client',
-      'client-list',
-      'policy',
-      'policy-list',
-      'review',
-      'confirmation',
-    ];
-
-    if (!validTypes.includes(cardType as CardType)) {
-      console.warn(`Unknown card type: ${cardType}`);
-      return null;
-    }
-
-    return {
-      type: cardType as CardType,
-      data,
-    } as Card;
+    data = JSON.parse(jsonContent);
   } catch (error) {
     console.error('Error parsing card JSON:', error);
     console.error('JSON string:', jsonStr);
-    return null;
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    return { warning: { code: 'invalid_json', card_type: cardType, errors: [message] } };
+  }
+
+  const result = validateCard(cardType, data, context);
+  if (!result.valid) {
+    console.warn(`Invalid ${cardType} card:`, result.errors.join('; '));
+    return { warning: { code: 'invalid_card', card_type: cardType, errors: result.errors } };
   }
+  if (result.value.repairs.length > 0) {
+    console.log(`Repaired ${cardType} card:`, result.value.repairs.join('; '));
+  }
+  return { card: result.value.card };
 }
 
 /**
- * Parse LLM response content and extract cards
+ * Parse LLM response content and extract cards.
+ * With a data context, card records are matched to and completed from the gathered records.
  */
-export function parseContent(content: string): ParsedResponse {
+export function parseContent(content: string, context?: CardDataContext): ParsedResponse {
   const segments: ContentSegment[] = [];
   const cards: Card[] = [];
+  const warnings: CardWarning[] = [];
   let lastIndex = 0;
 
   // Reset regex
@@ -117,15 +134,17 @@ export function parseContent(content: string): ParsedResponse {
 
     // Parse the card
     const [fullMatch, cardType, jsonStr] = match;
-    const card = parseCardMarker(cardType, jsonStr);
+    const parsed = parseCardMarker(cardType, jsonStr, context);
 
-    if (card) {
+    if ('card' in parsed) {
       segments.push({
         type: 'card',
         content: fullMatch,
-        card,
+        card: parsed.card,
       });
-      cards.push(card);
+      cards.push(parsed.card);
+    } else {
+      warnings.push(parsed.warning);
     }
 
     lastIndex = match.index + fullMatch.length;
@@ -150,6 +169,118 @@ export function parseContent(content: string): ParsedResponse {
     segments,
     cards,
     plainText,
+    warnings,
+  };
+}
+
+const CARD_MARKER_PREFIX = '<<<CARD:';
+const CARD_REF_PREFIX = '<<<CARD_REF:';
+const COMPLETE_CARD_PATTERN = /^<<<CARD:([a-z-]+):([\s\S]*?)>>>/;
+const COMPLETE_CARD_REF_PATTERN = /^<<<CARD_REF:([\w-]+)>>>/;
+
+/**
+ * Incremental parser for streamed content
+ */
+export interface CardStreamParser {
+  push(delta: string): ContentSegment[];
+  flush(): ContentSegment[];
+}
+
+/**
+ * Length of the longest suffix of text that could still grow into a card marker or reference
+ */
+function partialMarkerLength(text: string): number {
+  const max = Math.min(text.length, CARD_REF_PREFIX.length - 1);
+  for (let length = max; length > 0; length--) {
+    const suffix = text.slice(-length);
+    if (CARD_MARKER_PREFIX.startsWith(suffix) || CARD_REF_PREFIX.startsWith(suffix)) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Index of the first card marker or reference in text, or -1
+ */
+function findMarkerStart(text: string): number {
+  const starts = [text.indexOf(CARD_MARKER_PREFIX), text.indexOf(CARD_REF_PREFIX)].filter((i) => i !== -1);
+  return starts.length > 0 ? Math.min(...starts) : -1;
+}
+
+/**
+ * Create a parser that splits streamed text into text and card segments.
+ * Text is released as soon as it cannot be part of a marker; a card segment
+ * is emitted once its full marker has arrived and parseContent accepts it (warnings for
+ * rejected cards come from parsing the full reply afterwards).
+ * Card references are swapped for the card resolveReference returns, and dropped when it has none.
+ */
+export function createCardStreamParser(
+  resolveReference?: CardResolver,
+  context?: CardDataContext
+): CardStreamParser {
+  let buffer = '';
+
+  const drain = (final: boolean): ContentSegment[] => {
+    const segments: ContentSegment[] = [];
+
+    while (buffer.length > 0) {
+      const markerStart = findMarkerStart(buffer);
+
+      if (markerStart === -1) {
+        const keep = final ? 0 : partialMarkerLength(buffer);
+        const text = buffer.slice(0, buffer.length - keep);
+        if (text) {
+          segments.push({ type: 'text', content: text });
+        }
+        buffer = buffer.slice(buffer.length - keep);
+        break;
+      }
+
+      if (markerStart > 0) {
+        segments.push({ type: 'text', content: buffer.slice(0, markerStart) });
+        buffer = buffer.slice(markerStart);
+      }
+
+      const reference = buffer.match(COMPLETE_CARD_REF_PATTERN);
+      if (reference) {
+        const card = resolveReference?.(reference[1]);
+        if (card) {
+          segments.push({ type: 'card', content: buildCardMarker(card.type, card.data), card });
+        } else {
+          console.warn(`Unknown card reference: ${reference[1]}`);
+        }
+        buffer = buffer.slice(reference[0].length);
+        continue;
+      }
+
+      const match = buffer.match(COMPLETE_CARD_PATTERN);
+      if (!match) {
+        // Marker still arriving; an unterminated marker at the end is dropped
+        if (final) {
+          buffer = '';
+        }
+        break;
+      }
+
+      const card = parseContent(match[0], context).cards[0];
+      if (card) {
+        segments.push({ type: 'card', content: match[0], card });
+      }
+      buffer = buffer.slice(match[0].length);
+    }
+
+    return segments;
+  };
+
+  return {
+    push(delta: string): ContentSegment[] {
+      buffer += delta;
+      return drain(false);
+    },
+    flush(): ContentSegment[] {
+      return drain(true);
+    },
   };
 }
 
@@ -157,7 +288,11 @@ export function parseContent(content: string): ParsedResponse {
  * Strip card markers from content, leaving only plain text
  */
 export function stripCardMarkers(content: string): string {
-  return content.replace(CARD_PATTERN, '').replace(/\n{3,}/g, '\n\n').trim();
+  return content
+    .replace(CARD_PATTERN, '')
+    .replace(CARD_REF_PATTERN, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
 }
 
 /**
@@ -183,6 +318,21 @@ export function buildCardMarker(type: CardType, data: unknown): string {
   return `<<<CARD:${type}:${JSON.stringify(data)}>>>`;
 }
 
+/**
+ * Replace card references with the full markers of the cards they name.
+ * References to unknown cards are removed.
+ */
+export function expandCardReferences(content: string, resolveReference: CardResolver): string {
+  return content.replace(CARD_REF_PATTERN, (_reference, id: string) => {
+    const card = resolveReference(id);
+    if (!card) {
+      console.warn(`Unknown card reference: ${id}`);
+      return '';
+    }
+    return buildCardMarker(card.type, card.data);
+  });
+}
+
 /**
  * Escape JSON for embedding in prompt
  */
@@ -11,12 +11,24 @@ import type {
   ResolvedContext,
 } from '../../types';
 import type { ChatContext } from '../../types';
+import { findDatePhrase } from '../utils/dates';
 
 /**
  * Intent patterns with their regex matchers
  */
 const INTENT_PATTERNS: IntentPattern[] = [
   // Task-related intents
+  // create_task comes first: "remind me to call Jo today" is not a request for today's tasks
+  {
+    intent: 'create_task',
+    patterns: [
+      /\bremind\s*me\s+(?:to|about)\b/i,
+      /\b(?:create|add|make|set\s*up|schedule)\s+(?:a\s+|an\s+)?(?:new\s+)?(?:task|to-?do|reminder|follow[\s-]*up)\b/i,
+      /\bset\s+(?:a\s+)?reminder\b/i,
+      /\bnew\s+task\b/i,
+      /\b(?:add|put)\b.*\b(?:to|on)\s+my\s+(?:to-?do|task)\s*list\b/i,
+    ],
+  },
   {
     intent: 'show_todays_tasks',
     patterns: [
@@ -451,31 +463,116 @@ const INTENT_PATTERNS: IntentPattern[] = [
   },
 ];
 
+// One name word, including accented letters, apostrophes and hyphens (O'Brien, Dubé, Jean-Luc)
+const NAME_WORD = "[A-Za-zÀ-ÖØ-öø-ÿ][A-Za-zÀ-ÖØ-öø-ÿ'’-]*";
+const NAME = `(${NAME_WORD}(?:\\s+${NAME_WORD})*)`;
+
+// Words that end a captured name ("jon smyth and his policies")
+const NAME_STOP_WORDS = new Set([
+  'and', 'or', 'about', 'for', 'with', 'please', 'today', 'now', 'again',
+  'policy', 'policies', 'portfolio', 'info', 'details', 'account', 'accounts',
+  'is', 'are', 'has', 'have', 'to', 'in', 'on', 'at', 'this', 'next', 'last',
+  'by', 'before', 'after', 'regarding', 're', 'tomorrow', 'tonight',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+const MAX_NAME_WORDS = 4;
+
+// Words that can precede a name inside a capture ("show Dylan's portfolio")
+const NAME_LEAD_WORDS = new Set(['show', 'get', 'see', 'open', 'what', 'whats', 'are', 'is', 'me', 'my', 'the']);
+
+/**
+ * Cut a captured name at the first word that can't be part of it
+ */
+function trimCapturedName(captured: string): string | undefined {
+  const words: string[] = [];
+  const captureWords = captured.trim().split(/\s+/);
+  while (captureWords.length > 1 && NAME_LEAD_WORDS.has(captureWords[0].toLowerCase().replace(/['’]/g, ''))) {
+    captureWords.shift();
+  }
+  for (const word of captureWords) {
+    if (NAME_STOP_WORDS.has(word.toLowerCase()) || words.length >= MAX_NAME_WORDS) {
+      break;
+    }
+    words.push(word.replace(/[’']s$/i, ''));
+  }
+  return words.length > 0 ? words.join(' ') : undefined;
+}
+
+// Verbs that are followed by the person a task is about ("call ...", "follow up with ...")
+const CONTACT_VERBS = '\\b(?:call|phone|ring|email|e-mail|text|meet(?:\\s+with)?|contact|visit|follow[\\s-]*up\\s+with|check\\s*in\\s*with|reach\\s*out\\s*to)';
+
+// Phrases that start a new task; the capture is the rest of the message.
+// "schedule a follow-up with Jo" keeps "follow-up" in the title.
+const NEW_TASK_LEAD = /^(?:(?:hey|ok|okay)[,\s]+)?(?:please\s+)?(?:(?:can|could)\s+you\s+)?(?:remind\s*me\s+(?:to|about)|(?:create|add|make|set\s*up|schedule)\s+(?:a\s+|an\s+)?(?:new\s+)?(?:(?:task|to-?do|reminder)(?:\s*(?:to|for|about|called|titled|named|:|-))?|(?=follow[\s-]*up))|set\s+(?:a\s+)?reminder(?:\s+(?:to|for|about))?|new\s+task(?:\s*(?:to|:|-))?)\s*(.+)$/i;
+
 /**
  * Extract client name from message
  */
 function extractClientName(message: string): string | undefined {
   // Pattern: "tell me about [Name]", "client [Name]", "[Name]'s policies"
   const patterns = [
-    /tell\s*me\s*about\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i,
-    /(?:client|customer)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i,
-    /who\s*is\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i,
-    /look\s*up\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i,
-    /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)'s\s*(?:policies?|portfolio|info)/i,
-    /policies?\s*for\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i,
-    /info(?:rmation)?\s*(?:on|about|for)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i,
+    new RegExp(`tell\\s*me\\s*about\\s+(?:the\\s+)?${NAME}`, 'i'),
+    new RegExp(`(?:client|customer)\\s+${NAME}`, 'i'),
+    new RegExp(`who\\s*is\\s+${NAME}`, 'i'),
+    new RegExp(`look\\s*up\\s+${NAME}`, 'i'),
+    // At most two words before the possessive, so "what are Jo's policies" finds "Jo"
+    new RegExp(`(${NAME_WORD}(?:\\s+${NAME_WORD})?)['’]s\\s*(?:policies?|portfolio|info)`, 'i'),
+    new RegExp(`policies?\\s*for\\s+${NAME}`, 'i'),
+    new RegExp(`info(?:rmation)?\\s*(?:on|about|for)\\s+${NAME}`, 'i'),
   ];
 
   for (const pattern of patterns) {
     const match = message.match(pattern);
     if (match && match[1]) {
-      return match[1].trim();
+      const name = trimCapturedName(match[1]);
+      if (name) {
+        return name;
+      }
+    }
+  }
+
+  // "call Dylan Jackson", "email the Patels": only capitalised words count, so "call the office" finds nothing
+  const contact = message.match(new RegExp(`${CONTACT_VERBS}\\s+(?:the\\s+)?${NAME}`, 'i'));
+  if (contact && contact[1]) {
+    const words: string[] = [];
+    for (const word of (trimCapturedName(contact[1]) || '').split(' ')) {
+      if (!/^\p{Lu}/u.test(word)) {
+        break;
+      }
+      words.push(word);
+    }
+    if (words.length > 0) {
+      return words.join(' ');
     }
   }
 
   return undefined;
 }
 
+/**
+ * Extract the title of a task being created ("remind me to call Jo next Tuesday" -> "Call Jo").
+ * The due date and priority words are removed; they are extracted separately.
+ */
+function extractNewTaskTitle(message: string): string | undefined {
+  const match = message.match(NEW_TASK_LEAD);
+  if (!match || !match[1]) {
+    return undefined;
+  }
+
+  let title = match[1];
+  const due = findDatePhrase(title);
+  if (due) {
+    title = title.replace(due.phrase, ' ');
+  }
+  title = title
+    .replace(/\b(?:(?:high|medium|low)[\s-]*priority|urgent(?:ly)?|asap)\b/gi, ' ')
+    .replace(/\s*\bplease\b\s*/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s:,-]+|[\s.,!?-]+$/g, '');
+
+  return title ? title.charAt(0).toUpperCase() + title.slice(1) : undefined;
+}
+
 /**
  * Extract task title or reference from message
  */
@@ -506,6 +603,61 @@ function extractPolicyNumber(message: string): string | undefined {
   return match ? match[1] : undefined;
 }
 
+/**
+ * Extract a policy type ("life insurance", "RRSP", ...) from message
+ */
+function extractPolicyType(message: string): string | undefined {
+  const types: [RegExp, string][] = [
+    [/\blife\b/i, 'Life Insurance'],
+    [/\bhealth\b/i, 'Health Insurance'],
+    [/\b(?:auto|car)\b/i, 'Auto Insurance'],
+    [/\b(?:home|house|property)\b/i, 'Home Insurance'],
+    [/critical\s*illness/i, 'Critical Illness'],
+    [/\bdisability\b/i, 'Disability'],
+    [/\b(?:rrsp|rrif|retirement|pension)\b/i, 'Retirement'],
+    [/\b(?:tfsa|investment|segregated\s*fund)/i, 'Investment'],
+  ];
+
+  for (const [pattern, type] of types) {
+    if (pattern.test(message)) {
+      return type;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract a policy status ("lapsed policies", "policies that are active") from message
+ */
+function extractPolicyStatus(message: string): string | undefined {
+  const match = message.match(/\b(active|pending|expired|cancelled|canceled|lapsed|suspended)\b/i);
+  if (!match) {
+    return undefined;
+  }
+  const status = match[1].toLowerCase() === 'canceled' ? 'cancelled' : match[1].toLowerCase();
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+/**
+ * Extract the search term from "search for X", "find tasks about X", ...
+ */
+function extractSearchQuery(message: string): string | undefined {
+  const patterns = [
+    /(?:find|search)\s*(?:for\s*)?(?:tasks?|polic(?:y|ies)|clients?)\s*(?:about|for|with|matching|named)\s+["']?(.+?)["']?\s*\??$/i,
+    /^(?:search|find|look\s*(?:up|for))\s+(?:for\s+)?["']?(.+?)["']?\s*\??$/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = message.match(pattern);
+    if (match && match[1]) {
+      return match[1].trim();
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Extract all entities from a message
  */
@@ -517,9 +669,14 @@ function extractEntities(message: string): ExtractedEntities {
     entities.client_name = clientName;
   }
 
-  const taskRef = extractTaskReference(message);
-  if (taskRef) {
-    entities.task_title = taskRef;
+  const taskTitle = extractNewTaskTitle(message) || extractTaskReference(message);
+  if (taskTitle) {
+    entities.task_title = taskTitle;
+  }
+
+  const due = findDatePhrase(message);
+  if (due) {
+    entities.date = due.date.toISOString();
   }
 
   const policyNum = extractPolicyNumber(message);
@@ -527,6 +684,21 @@ function extractEntities(message: string): ExtractedEntities {
     entities.policy_number = policyNum;
   }
 
+  const policyType = extractPolicyType(message);
+  if (policyType) {
+    entities.policy_type = policyType;
+  }
+
+  const policyStatus = extractPolicyStatus(message);
+  if (policyStatus) {
+    entities.policy_status = policyStatus;
+  }
+
+  const searchQuery = extractSearchQuery(message);
+  if (searchQuery) {
+    entities.search_query = searchQuery;
+  }
+
   // Check for time references
   if (/today/i.test(message)) {
     entities.time_range = 'today';
@@ -540,32 +712,80 @@ function extractEntities(message: string): ExtractedEntities {
 }
 
 /**
- * Classify the intent of a user message
+ * A regex match for one intent
  */
-export function classifyIntent(message: string): IntentClassification {
+export interface IntentPatternMatch {
+  intent: UserIntent;
+  // Share of the message (ignoring spaces) covered by the longest matching pattern
+  coverage: number;
+}
+
+/**
+ * Every intent whose patterns match the message, in pattern priority order
+ */
+export function matchIntentPatterns(message: string): IntentPatternMatch[] {
   const normalizedMessage = message.trim();
-  const entities = extractEntities(normalizedMessage);
+  const messageLength = normalizedMessage.replace(/\s+/g, '').length || 1;
+  const matches: IntentPatternMatch[] = [];
 
-  // Check each pattern
   for (const { intent, patterns } of INTENT_PATTERNS) {
+    let matched = false;
+    let coverage = 0;
     for (const pattern of patterns) {
-      if (pattern.test(normalizedMessage)) {
-        return {
-          intent,
-          entities,
-          confidence: 0.9,
-          raw_message: message,
-        };
+      const match = normalizedMessage.match(pattern);
+      if (match) {
+        matched = true;
+        coverage = Math.max(coverage, match[0].replace(/\s+/g, '').length / messageLength);
       }
     }
+    if (matched) {
+      matches.push({ intent, coverage: Math.min(coverage, 1) });
+    }
   }
 
+  return matches;
+}
+
+/**
+ * Confidence for the first (highest priority) match.
+ * Rises with how much of the message the pattern explains and
+ * drops when other intents also matched.
+ */
+function patternConfidence(matches: IntentPatternMatch[]): number {
+  if (matches.length === 0) {
+    return 0.3;
+  }
+  const base = 0.55 + 0.4 * matches[0].coverage;
+  const confidence = base / (1 + 0.5 * (matches.length - 1));
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Least confidence for an explicit create_task trigger ("remind me to", "add a task").
+ * The words after the trigger are the task itself, so the pattern covering little of the
+ * message, or the task mentioning today's tasks or a client, says nothing about the advisor
+ * wanting something else. Without the floor a longer reminder would go to the LLM classifier.
+ */
+const CREATE_TASK_TRIGGER_CONFIDENCE = 0.9;
+
+/**
+ * Classify the intent of a user message with the regex patterns only
+ */
+export function classifyIntent(message: string): IntentClassification {
+  const normalizedMessage = message.trim();
+  const entities = extractEntities(normalizedMessage);
+  const matches = matchIntentPatterns(normalizedMessage);
   // Default to general question
+  const intent = matches[0]?.intent ?? 'general_question';
+  const confidence = patternConfidence(matches);
+
   return {
-    intent: 'general_question',
+    intent,
     entities,
-    confidence: 0.5,
+    confidence: intent === 'create_task' ? Math.max(confidence, CREATE_TASK_TRIGGER_CONFIDENCE) : confidence,
     raw_message: message,
+    source: 'pattern',
+    alternatives: matches.length > 1 ? matches.slice(1).map((m) => m.intent) : undefined,
   };
 }
 
@@ -0,0 +1,229 @@
+/**
+ * PII Redaction
+ * Replaces personal details with placeholders ([EMAIL_1], [PHONE_2], ...) before anything is sent
+ * to the LLM, and puts the real values back into what it returns.
+ *
+ * One redactor serves one chat request and keeps the mapping for it: a value always gets the same
+ * placeholder, whether it's found in the data context, a tool result, the advisor's message or an
+ * earlier turn. Values are found two ways:
+ *   - by field name, anywhere in the data (PII_FIELDS, or PII_REDACTION_FIELDS when set)
+ *   - by pattern in any text, for email addresses and phone numbers when those kinds are redacted
+ *
+ * PII_REDACTION_FIELDS is a comma-separated list of field or field:KIND entries replacing the
+ * defaults (e.g. "primary_email:EMAIL,first_name:NAME,last_name:NAME"); "none" turns redaction off.
+ */
+
+import { CARD_PATTERN } from './parse-content';
+
+/**
+ * Fields redacted by default, with the placeholder kind each gets
+ */
+export const PII_FIELDS: Record<string, string> = {
+  primary_email: 'EMAIL',
+  secondary_email: 'EMAIL',
+  primary_phone: 'PHONE',
+  secondary_phone: 'PHONE',
+  address_line_1: 'ADDRESS',
+  address_line_2: 'ADDRESS',
+  postal_code: 'POSTAL_CODE',
+  sin_last4: 'SIN',
+  date_of_birth: 'DOB',
+};
+
+// Found in free text as well as in their fields
+const PII_PATTERNS: Record<string, RegExp> = {
+  EMAIL: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  PHONE: /(?<![\w+])(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}(?!\w)/g,
+};
+
+const PLACEHOLDER_PATTERN = /\[([A-Z_]+_\d+)\]/g;
+// The longest a placeholder cut off at the end of a stream chunk can be while still incomplete
+const MAX_PARTIAL_PLACEHOLDER = 24;
+
+/**
+ * Replaces placeholders in text as it streams in, holding back a placeholder split across chunks
+ */
+export interface PlaceholderStreamRehydrator {
+  push(text: string): string;
+  flush(): string;
+}
+
+/**
+ * Redaction state for one request
+ */
+export interface PiiRedactor {
+  // Whether any fields are redacted at all
+  enabled: boolean;
+  // A copy of data with PII fields and any PII found in its text replaced
+  redact<T>(data: T): T;
+  // Text with known values and any PII found in it replaced
+  redactText(text: string): string;
+  // Text with placeholders replaced by the values they stand for; inside card markers
+  // the values are JSON-escaped so the marker still parses
+  rehydrateText(text: string): string;
+  // A copy of parsed data (e.g. a card) with placeholders in its strings replaced
+  rehydrate<T>(data: T): T;
+  createStreamRehydrator(): PlaceholderStreamRehydrator;
+}
+
+/**
+ * Redacted fields and their kinds, from PII_REDACTION_FIELDS or the defaults
+ */
+export function getPiiFieldConfig(): Record<string, string> {
+  const raw = process.env.PII_REDACTION_FIELDS?.trim();
+  if (!raw) {
+    return PII_FIELDS;
+  }
+  if (raw.toLowerCase() === 'none') {
+    return {};
+  }
+
+  const fields: Record<string, string> = {};
+  for (const entry of raw.split(',')) {
+    const [field, kind] = entry.split(':').map((part) => part.trim());
+    if (field) {
+      fields[field] = (kind || PII_FIELDS[field] || 'PII').toUpperCase();
+    }
+  }
+  return fields;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Copy a JSON-like value, transforming every string in it.
+ * field is the key the value was found under, if any.
+ */
+function mapStrings(value: unknown, transform: (text: string, field?: string) => string, field?: string): unknown {
+  if (typeof value === 'string') {
+    return transform(value, field);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, transform, field));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform, key)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Create the redactor for one request
+ */
+export function createPiiRedactor(fields: Record<string, string> = getPiiFieldConfig()): PiiRedactor {
+  const enabled = Object.keys(fields).length > 0;
+  const kinds = new Set(Object.values(fields));
+  const patterns = Object.entries(PII_PATTERNS).filter(([kind]) => kinds.has(kind));
+
+  const placeholders = new Map<string, string>(); // value -> placeholder
+  const values = new Map<string, string>(); // placeholder name -> value
+  const counts = new Map<string, number>();
+
+  const placeholderFor = (value: string, kind: string): string => {
+    const existing = placeholders.get(value);
+    if (existing) {
+      return existing;
+    }
+    const count = (counts.get(kind) ?? 0) + 1;
+    counts.set(kind, count);
+    const name = `${kind}_${count}`;
+    placeholders.set(value, `[${name}]`);
+    values.set(name, value);
+    return `[${name}]`;
+  };
+
+  const redactText = (text: string): string => {
+    if (!enabled || !text) {
+      return text;
+    }
+    // Values already mapped, longest first so one containing another is replaced whole
+    let redacted = text;
+    const known = [...placeholders.keys()].sort((a, b) => b.length - a.length);
+    for (const value of known) {
+      redacted = redacted.replace(
+        new RegExp(`(?<![\\w@.])${escapeRegExp(value)}(?![\\w@])`, 'g'),
+        placeholders.get(value) as string
+      );
+    }
+    for (const [kind, pattern] of patterns) {
+      redacted = redacted.replace(pattern, (match) => placeholderFor(match, kind));
+    }
+    return redacted;
+  };
+
+  const redactField = (text: string, field?: string): string | undefined =>
+    field && fields[field] && text ? placeholderFor(text, fields[field]) : undefined;
+
+  const replacePlaceholders = (text: string, escape: (value: string) => string): string =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      const value = values.get(name);
+      return value === undefined ? placeholder : escape(value);
+    });
+
+  const rehydrateText = (text: string): string => {
+    if (values.size === 0 || !text) {
+      return text;
+    }
+    let result = '';
+    let lastIndex = 0;
+    for (const match of text.matchAll(new RegExp(CARD_PATTERN.source, 'g'))) {
+      const index = match.index ?? 0;
+      result += replacePlaceholders(text.slice(lastIndex, index), (value) => value);
+      result += replacePlaceholders(match[0], (value) => JSON.stringify(value).slice(1, -1));
+      lastIndex = index + match[0].length;
+    }
+    return result + replacePlaceholders(text.slice(lastIndex), (value) => value);
+  };
+
+  return {
+    enabled,
+
+    redact<T>(data: T): T {
+      if (!enabled) {
+        return data;
+      }
+      // Map the field values first, so they're caught wherever else in the data they appear
+      mapStrings(data, (text, field) => redactField(text, field) ?? text);
+      return mapStrings(data, (text, field) => redactField(text, field) ?? redactText(text)) as T;
+    },
+
+    redactText,
+
+    rehydrateText,
+
+    rehydrate<T>(data: T): T {
+      if (values.size === 0) {
+        return data;
+      }
+      return mapStrings(data, (text) => replacePlaceholders(text, (value) => value)) as T;
+    },
+
+    createStreamRehydrator(): PlaceholderStreamRehydrator {
+      let pending = '';
+      return {
+        push(text: string): string {
+          pending += text;
+          // Hold back a trailing "[" that may still become a placeholder
+          const open = pending.lastIndexOf('[');
+          const partial = open !== -1 ? pending.slice(open) : '';
+          const held =
+            partial.length > 0 && partial.length <= MAX_PARTIAL_PLACEHOLDER && /^\[[A-Z_\d]*$/.test(partial)
+              ? open
+              : pending.length;
+          const ready = pending.slice(0, held);
+          pending = pending.slice(held);
+          return rehydrateText(ready);
+        },
+        flush(): string {
+          const rest = rehydrateText(pending);
+          pending = '';
+          return rest;
+        },
+      };
+    },
+  };
+}
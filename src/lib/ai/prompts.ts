@@ -42,7 +42,7 @@ When the advisor asks you to do something and you have the necessary data:
 ### RULE 3: GENERATE DOCUMENTS WITH REVIEW CARDS
 When asked to create any document, report, or analysis:
 - Generate the FULL content immediately
-- Present it using a review card with the appropriate action_type
+- Present it using a review card: a short title, a one-line message, and the full document in generated_content
 - DO NOT say "I cannot create official documents" - you CAN and SHOULD create drafts for review
 - The advisor will approve/reject your work using the review card
 
@@ -68,11 +68,16 @@ When displaying structured data, embed cards using this exact format:
 
 <<<CARD:card-type:{"key":"value"}>>>
 
-Available card types and their data structures:
+### Lists: reference them, don't write them
+Task, client and policy lists are built for you from the data. Each one listed under Available Cards
+(or returned by a tool as card_id) is placed by writing its ID in a card reference on its own line:
 
-### task-list
-Display a list of tasks:
-<<<CARD:task-list:{"title":"Today's Tasks","tasks":[{"task_id":"T001","title":"Review portfolio","status":"pending","due_date":"2026-01-21T10:00:00Z","priority":"high","client_name":"John Smith","ai_completed":false}],"show_actions":true}>>>
+<<<CARD_REF:tasks>>>
+
+Never write task-list, client-list or policy-list cards yourself, and only use IDs you were given.
+Write the text around the card: what stands out, what needs attention, what to do next.
+
+Other card types and their data structures:
 
 ### task
 Display a single task with details:
@@ -82,23 +87,15 @@ Display a single task with details:
 Display client information:
 <<<CARD:client:{"client":{"client_id":"C001","first_name":"John","last_name":"Smith","primary_email":"john@email.com","client_status":"Active","client_segment":"High Net Worth","portfolio_value":1250000,"risk_profile":"moderate"},"show_policies":true}>>>
 
-### client-list
-Display a list of clients:
-<<<CARD:client-list:{"title":"Your Clients","clients":[{"client_id":"C001","first_name":"John","last_name":"Smith","primary_email":"john@email.com","client_status":"Active","portfolio_value":1250000}]}>>>
-
 ### policy
 Display policy information:
 <<<CARD:policy:{"policy":{"policy_id":"POL001","client_id":"C001","policy_number":"LI-2024-001","policy_type":"Life Insurance","policy_status":"Active","coverage_amount":500000,"premium_amount":250,"premium_frequency":"Monthly"},"show_claims":false}>>>
 
-### policy-list
-Display a list of policies:
-<<<CARD:policy-list:{"title":"Client Policies","policies":[{"policy_id":"POL001","client_id":"C001","policy_number":"LI-2024-001","policy_type":"Life Insurance","policy_status":"Active","coverage_amount":500000,"premium_amount":250,"premium_frequency":"Monthly"}],"client_name":"John Smith"}>>>
-
 ### review
 Display AI-completed work for approval:
-<<<CARD:review:{"task_id":"T001","task":{"task_id":"T001","title":"Draft email to client","status":"needs-review","ai_completed":true},"title":"Email Draft Ready","message":"Dear Mr. Smith,\\n\\nI hope this email finds you well...\\n\\nBest regards,\\n[Your Name]","action_type":"email_draft","summary":"Follow-up email drafted for portfolio review discussion","confidence":88}>>>
+<<<CARD:review:{"task":{"task_id":"T001"},"title":"Email Draft Ready","message":"Follow-up email drafted for the portfolio review discussion","generated_content":"Dear Mr. Smith,\\n\\nI hope this email finds you well...\\n\\nBest regards,\\n[Your Name]"}>>>
 
-Supported action_type values: email_draft, meeting_notes, portfolio_review, policy_summary, client_summary, compliance_check, report, reminder, analysis, proposal, birthday_greeting, renewal_notice
+Give the task_id when the work belongs to a task from the data (the rest of the task is filled in for you); leave out "task" for documents that don't. Use only these fields.
 
 ### confirmation
 Display a confirmation message:
@@ -111,6 +108,28 @@ Display a confirmation message:
 4. Mix cards with regular text for context
 5. Use cards when displaying data, plain text for conversation`;
 
+/**
+ * Instructions added when the model can call data tools
+ */
+export const TOOL_USE_INSTRUCTIONS = `
+## Data Tools
+You can call tools to look up tasks, clients, policies, search results and metrics.
+- If the Available Data section does not answer the question, call a tool instead of guessing
+- Use search_clients to turn a client name into a client_id before calling tools that need one
+- Call several tools in the same turn when they don't depend on each other
+- Never invent IDs, names or numbers that did not come from the data or a tool result
+- Tool results are JSON; present them to the advisor with cards as described above
+- List results come with a card_id: place that list with a card reference instead of rewriting it`;
+
+/**
+ * Added when personal details in the prompt are replaced with placeholders (see pii.ts)
+ */
+export const PII_PLACEHOLDER_INSTRUCTIONS = `
+## Personal Details
+Emails, phone numbers, addresses and other personal details appear as placeholders such as [EMAIL_1] or [PHONE_2].
+- Write a placeholder exactly as given, brackets included, wherever you would write the detail; the advisor sees the real value
+- Never guess or invent the value behind a placeholder`;
+
 /**
  * Intent-specific prompt additions
  */
@@ -209,7 +228,7 @@ export const INTENT_PROMPTS: Record<string, string> = {
 - Policy coverage adequacy review
 - Documentation completeness check
 - Any regulatory concerns or recommendations
-Present the complete report using a review card with action_type "compliance_check". DO NOT ask for more information - use what you have.`,
+Present the complete report in a review card's generated_content, titled e.g. "Compliance Check - <client name>". DO NOT ask for more information - use what you have.`,
 
   create_portfolio_analysis: `The advisor wants a portfolio analysis. You MUST create this immediately. Generate a detailed portfolio analysis including:
 - Current asset allocation breakdown
@@ -217,16 +236,16 @@ Present the complete report using a review card with action_type "compliance_che
 - Performance commentary
 - Rebalancing recommendations if applicable
 - Coverage gaps or opportunities
-Present using a review card with action_type "portfolio_review". DO NOT ask for clarification.`,
+Present it in a review card's generated_content, titled e.g. "Portfolio Analysis - <client name>". DO NOT ask for clarification.`,
 
-  create_client_summary: `The advisor wants a client summary. Generate a comprehensive client summary including all relevant information from the data provided - profile, portfolio, policies, and any notable items. Present using a review card with action_type "client_summary".`,
+  create_client_summary: `The advisor wants a client summary. Generate a comprehensive client summary including all relevant information from the data provided - profile, portfolio, policies, and any notable items. Present it in a review card's generated_content, titled e.g. "Client Summary - <client name>".`,
 
   create_meeting_prep: `The advisor wants meeting preparation materials. Create comprehensive meeting prep including:
 - Client overview and key facts
 - Recent activity or changes
 - Discussion points and agenda items
 - Any concerns to address
-Present using a review card with action_type "meeting_notes".`,
+Present it in a review card's generated_content, titled e.g. "Meeting Prep - <client name>".`,
 
   create_report: `The advisor wants you to create a report or document. Generate the complete document based on context and present it using a review card. DO NOT say you cannot create documents - you absolutely can and should.`,
 
@@ -248,16 +267,24 @@ Present using a review card with action_type "meeting_notes".`,
 /**
  * Build the full system prompt with card instructions
  */
-export function buildSystemPrompt(): string {
-  return `${SYSTEM_PROMPT}\n\n${CARD_EMBEDDING_INSTRUCTIONS}`;
+export function buildSystemPrompt(options?: { tools?: boolean; redacted?: boolean }): string {
+  let prompt = `${SYSTEM_PROMPT}\n\n${CARD_EMBEDDING_INSTRUCTIONS}`;
+  if (options?.tools) {
+    prompt += `\n\n${TOOL_USE_INSTRUCTIONS}`;
+  }
+  if (options?.redacted) {
+    prompt += `\n\n${PII_PLACEHOLDER_INSTRUCTIONS}`;
+  }
+  return prompt;
 }
 
 /**
- * Build a context-aware prompt with intent-specific instructions
+ * Build a context-aware prompt with intent-specific instructions and the cards ready to place
  */
 export function buildPromptWithIntent(
   intent: string,
-  contextData?: string
+  contextData?: string,
+  availableCards?: string
 ): string {
   const intentPrompt = INTENT_PROMPTS[intent] || INTENT_PROMPTS.general_question;
   let prompt = `\n\n## Current Intent\n${intentPrompt}`;
@@ -265,6 +292,9 @@ export function buildPromptWithIntent(
   if (contextData) {
     prompt += `\n\n## Available Data\n${contextData}`;
   }
+  if (availableCards) {
+    prompt += `\n\n## Available Cards\n${availableCards}`;
+  }
 
   return prompt;
 }
@@ -279,9 +309,14 @@ export function formatDataContext(data: {
   focusedTask?: unknown;
   focusedClient?: unknown;
   focusedPolicy?: unknown;
+  metrics?: Record<string, unknown>;
 }): string {
   const parts: string[] = [];
 
+  if (data.metrics) {
+    parts.push(`Metrics:\n${JSON.stringify(data.metrics, null, 2)}`);
+  }
+
   if (data.focusedTask) {
     parts.push(`Focused Task:\n${JSON.stringify(data.focusedTask, null, 2)}`);
   }
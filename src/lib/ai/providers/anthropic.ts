@@ -0,0 +1,228 @@
+/**
+ * Anthropic Provider
+ * The Messages API: system prompt apart from the turns, tool calls and results as content
+ * blocks, and turns that must alternate between user and assistant.
+ */
+
+import { LLMResponseError, LLMUnavailableError } from './errors';
+import { parseToolArguments, postJson, readJson, readServerSentEvents } from './http';
+import type {
+  LLMCompletion,
+  LLMFinishReason,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  LLMToolCall,
+  LLMUsage,
+} from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4000;
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Split out the system prompt and convert the turns, merging consecutive turns of one role
+ * (tool results go back as a user turn, one block per result)
+ */
+function toAnthropicMessages(messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const append = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+  const text = (content: string): AnthropicContentBlock[] => (content ? [{ type: 'text', text: content }] : []);
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        system.push(message.content);
+        break;
+      case 'user':
+        append('user', text(message.content));
+        break;
+      case 'assistant':
+        append('assistant', [
+          ...text(message.content),
+          ...(message.tool_calls ?? []).map(
+            (call): AnthropicContentBlock => ({
+              type: 'tool_use',
+              id: call.id,
+              name: call.function.name,
+              input: parseToolArguments(call.function.arguments),
+            })
+          ),
+        ]);
+        break;
+      case 'tool':
+        append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id ?? '', content: message.content }]);
+        break;
+    }
+  }
+  return { system: system.join('\n\n'), messages: converted };
+}
+
+function toFinishReason(reason: string | null | undefined): LLMFinishReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'max_tokens':
+      return 'length';
+    default:
+      return 'other';
+  }
+}
+
+function toUsage(input: number, output: number): LLMUsage {
+  return { inputTokens: input, outputTokens: output, totalTokens: input + output };
+}
+
+export function createAnthropicProvider(config: LLMProviderConfig): LLMProvider {
+  const headers: Record<string, string> = {
+    'x-api-key': config.apiKey ?? '',
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+
+  const buildBody = (request: LLMRequest, stream: boolean) => {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const tools = request.tools && request.tools.length > 0 ? request.tools : undefined;
+    return {
+      model: config.model,
+      system: system || undefined,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: stream || undefined,
+      tools: tools?.map((tool) => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters,
+      })),
+      tool_choice: tools ? { type: request.toolChoice ?? 'auto' } : undefined,
+    };
+  };
+
+  return {
+    name: config.provider,
+    config,
+
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      const response = await postJson(config, headers, buildBody(request, false));
+      const data = await readJson<AnthropicResponse>(config, response);
+      if (!data.content) {
+        console.error('No content in LLM response:', JSON.stringify(data));
+        throw new LLMResponseError(config.provider, 'no content');
+      }
+
+      const toolCalls: LLMToolCall[] = [];
+      let content = '';
+      for (const block of data.content) {
+        if (block.type === 'text') {
+          content += block.text;
+        } else if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          });
+        }
+      }
+      return {
+        content,
+        toolCalls,
+        finishReason: toFinishReason(data.stop_reason),
+        usage: data.usage && toUsage(data.usage.input_tokens ?? 0, data.usage.output_tokens ?? 0),
+      };
+    },
+
+    async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+      const response = await postJson(
+        config,
+        { ...headers, Accept: 'text/event-stream' },
+        buildBody(request, true)
+      );
+
+      let content = '';
+      let finishReason: LLMFinishReason = 'other';
+      let inputTokens = 0;
+      let outputTokens = 0;
+      await readServerSentEvents(config, response, ({ data }) => {
+        let event: AnthropicStreamEvent;
+        try {
+          event = JSON.parse(data) as AnthropicStreamEvent;
+        } catch {
+          console.warn('Skipping malformed stream chunk:', data);
+          return;
+        }
+
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+            outputTokens = event.message?.usage?.output_tokens ?? outputTokens;
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              content += event.delta.text;
+              onDelta(event.delta.text);
+            }
+            break;
+          case 'message_delta':
+            finishReason = toFinishReason(event.delta?.stop_reason);
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            break;
+          case 'message_stop':
+            return true;
+          case 'error':
+            // Mid-stream failures (e.g. overloaded_error) arrive as an event, after the 200
+            throw new LLMUnavailableError(
+              config.provider,
+              `${event.error?.type ?? 'error'}: ${event.error?.message ?? 'stream failed'}`
+            );
+        }
+      });
+
+      return { content, toolCalls: [], finishReason, usage: toUsage(inputTokens, outputTokens) };
+    },
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Bedrock Provider
+ * The Converse API, signed with the Lambda's own credentials: no API key, but the role needs
+ * bedrock:InvokeModel and bedrock:InvokeModelWithResponseStream on the model.
+ */
+
+import {
+  BedrockRuntimeClient,
+  ConverseCommand,
+  ConverseStreamCommand,
+  type ContentBlock,
+  type Message,
+  type StopReason,
+  type TokenUsage,
+  type Tool,
+  type ToolConfiguration,
+  type ToolUseBlock,
+} from '@aws-sdk/client-bedrock-runtime';
+import {
+  LLMAuthenticationError,
+  LLMError,
+  LLMRateLimitError,
+  LLMRequestError,
+  LLMResponseError,
+  LLMTimeoutError,
+  LLMUnavailableError,
+  llmErrorFromStatus,
+  toLLMError,
+} from './errors';
+import { parseToolArguments } from './http';
+import type {
+  LLMCompletion,
+  LLMFinishReason,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  LLMToolCall,
+  LLMUsage,
+} from './types';
+
+// The SDK's JSON document type, for tool inputs and schemas
+type JsonDocument = NonNullable<ToolUseBlock['input']>;
+
+// One client per region, reused across invocations like the DynamoDB client
+const clients = new Map<string, BedrockRuntimeClient>();
+
+function getClient(region: string | undefined): BedrockRuntimeClient {
+  const key = region ?? '';
+  let client = clients.get(key);
+  if (!client) {
+    client = new BedrockRuntimeClient(region ? { region } : {});
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Split out the system prompt and convert the turns, merging consecutive turns of one role
+ * (tool results go back as a user turn, one block per result)
+ */
+function toBedrockMessages(messages: LLMMessage[]): { system: string[]; messages: Message[] } {
+  const system: string[] = [];
+  const converted: Message[] = [];
+
+  const append = (role: 'user' | 'assistant', blocks: ContentBlock[]) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) {
+      last.content = [...(last.content ?? []), ...blocks];
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+  const text = (content: string): ContentBlock[] => (content ? [{ text: content }] : []);
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        system.push(message.content);
+        break;
+      case 'user':
+        append('user', text(message.content));
+        break;
+      case 'assistant':
+        append('assistant', [
+          ...text(message.content),
+          ...(message.tool_calls ?? []).map(
+            (call): ContentBlock => ({
+              toolUse: {
+                toolUseId: call.id,
+                name: call.function.name,
+                input: parseToolArguments(call.function.arguments) as JsonDocument,
+              },
+            })
+          ),
+        ]);
+        break;
+      case 'tool':
+        append('user', [
+          { toolResult: { toolUseId: message.tool_call_id ?? '', content: [{ text: message.content }] } },
+        ]);
+        break;
+    }
+  }
+  return { system, messages: converted };
+}
+
+function toFinishReason(reason: StopReason | string | undefined): LLMFinishReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'max_tokens':
+      return 'length';
+    default:
+      return 'other';
+  }
+}
+
+function toUsage(usage: TokenUsage | undefined): LLMUsage | undefined {
+  return usage
+    ? {
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        totalTokens: usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0),
+      }
+    : undefined;
+}
+
+/**
+ * Map a Bedrock service exception to the matching LLMError
+ */
+function toBedrockError(config: LLMProviderConfig, error: unknown): LLMError {
+  if (!(error instanceof Error) || error instanceof LLMError) {
+    return toLLMError(config.provider, error, config.timeoutMs);
+  }
+  const status = (error as Error & { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  switch (error.name) {
+    case 'AccessDeniedException':
+    case 'UnrecognizedClientException':
+    case 'ExpiredTokenException':
+      return new LLMAuthenticationError(config.provider, error.message, status);
+    case 'ThrottlingException':
+    case 'ServiceQuotaExceededException':
+      return new LLMRateLimitError(config.provider, error.message, status);
+    case 'ModelTimeoutException':
+      return new LLMTimeoutError(config.provider, config.timeoutMs, { cause: error });
+    case 'ValidationException':
+    case 'ResourceNotFoundException':
+      return new LLMRequestError(config.provider, error.message, status);
+    case 'InternalServerException':
+    case 'ServiceUnavailableException':
+    case 'ModelNotReadyException':
+    case 'ModelErrorException':
+    case 'ModelStreamErrorException':
+      return new LLMUnavailableError(config.provider, error.message, status, { cause: error });
+  }
+  return status
+    ? llmErrorFromStatus(config.provider, status, error.message)
+    : toLLMError(config.provider, error, config.timeoutMs);
+}
+
+export function createBedrockProvider(config: LLMProviderConfig): LLMProvider {
+  const buildInput = (request: LLMRequest) => {
+    const { system, messages } = toBedrockMessages(request.messages);
+    const tools = request.tools && request.tools.length > 0 ? request.tools : undefined;
+    // Converse has no "none" tool choice, and needs the tools listed whenever the turns contain
+    // tool calls, so a final tools-off round still lists them and leaves the choice to the model
+    const toolConfig: ToolConfiguration | undefined = tools && {
+      tools: tools.map(
+        (tool): Tool => ({
+          toolSpec: {
+            name: tool.function.name,
+            description: tool.function.description,
+            inputSchema: { json: tool.function.parameters as JsonDocument },
+          },
+        })
+      ),
+      toolChoice: request.toolChoice === 'none' ? undefined : { auto: {} },
+    };
+    return {
+      modelId: config.model,
+      system: system.map((text) => ({ text })),
+      messages,
+      inferenceConfig: { temperature: request.temperature, maxTokens: request.maxTokens },
+      toolConfig,
+    };
+  };
+
+  return {
+    name: config.provider,
+    config,
+
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      let output;
+      try {
+        output = await getClient(config.region).send(new ConverseCommand(buildInput(request)), {
+          abortSignal: AbortSignal.timeout(config.timeoutMs),
+        });
+      } catch (error) {
+        throw toBedrockError(config, error);
+      }
+
+      const blocks = output.output?.message?.content;
+      if (!blocks) {
+        console.error('No message in LLM response:', JSON.stringify(output.output));
+        throw new LLMResponseError(config.provider, 'no message');
+      }
+
+      const toolCalls: LLMToolCall[] = [];
+      let content = '';
+      for (const block of blocks) {
+        if (block.text) {
+          content += block.text;
+        } else if (block.toolUse) {
+          toolCalls.push({
+            id: block.toolUse.toolUseId ?? '',
+            type: 'function',
+            function: { name: block.toolUse.name ?? '', arguments: JSON.stringify(block.toolUse.input ?? {}) },
+          });
+        }
+      }
+      return {
+        content,
+        toolCalls,
+        finishReason: toFinishReason(output.stopReason),
+        usage: toUsage(output.usage),
+      };
+    },
+
+    async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+      let content = '';
+      let finishReason: LLMFinishReason = 'other';
+      let usage: LLMUsage | undefined;
+
+      let output;
+      try {
+        output = await getClient(config.region).send(new ConverseStreamCommand(buildInput(request)), {
+          abortSignal: AbortSignal.timeout(config.timeoutMs),
+        });
+      } catch (error) {
+        throw toBedrockError(config, error);
+      }
+      if (!output.stream) {
+        return { content, toolCalls: [], finishReason, usage };
+      }
+
+      const events = output.stream[Symbol.asyncIterator]();
+      for (;;) {
+        let next;
+        try {
+          next = await events.next();
+        } catch (error) {
+          throw toBedrockError(config, error);
+        }
+        if (next.done) {
+          break;
+        }
+
+        const event = next.value;
+        const streamError =
+          event.internalServerException ??
+          event.modelStreamErrorException ??
+          event.serviceUnavailableException ??
+          event.throttlingException ??
+          event.validationException;
+        if (streamError) {
+          throw toBedrockError(config, streamError);
+        }
+
+        const delta = event.contentBlockDelta?.delta?.text;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (event.messageStop) {
+          finishReason = toFinishReason(event.messageStop.stopReason);
+        }
+        if (event.metadata) {
+          usage = toUsage(event.metadata.usage);
+        }
+      }
+
+      return { content, toolCalls: [], finishReason, usage };
+    },
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * LLM Provider Configuration
+ *   LLM_PROVIDER    zhipu (default), openai, anthropic, bedrock or ollama
+ *   LLM_API_URL     endpoint, defaulting per provider (any OpenAI-compatible server works with openai)
+ *   LLM_API_KEY     required except for bedrock (the Lambda role) and ollama (a local server)
+ *   LLM_MODEL       model name, or the model ID for bedrock
+ *   LLM_TIMEOUT_MS  per-request timeout
+ *   LLM_REGION      bedrock region, defaulting to the Lambda's
+ *
+ * Tried once the primary's retries are used up, when LLM_FALLBACK_PROVIDER or LLM_FALLBACK_MODEL
+ * is set: LLM_FALLBACK_PROVIDER, LLM_FALLBACK_API_URL, LLM_FALLBACK_API_KEY and LLM_FALLBACK_MODEL,
+ * each defaulting to the primary's setting when the provider is the same. A fallback that needs
+ * an API key and has none is skipped.
+ *
+ * Retries: LLM_MAX_RETRIES per provider (default 2), after a jittered exponential delay starting
+ * at LLM_RETRY_BASE_DELAY_MS (default 500).
+ */
+
+import type { LLMProviderConfig, LLMProviderName } from './types';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+// The missing fallback API key is reported once per container, not on every call
+let reportedUnconfiguredFallback = false;
+
+/**
+ * How often and how patiently a failed call is retried
+ */
+export interface LLMRetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, { apiUrl: string; model: string; needsApiKey: boolean }> = {
+  // BigModel endpoint, which is more reliable from AWS than api.z.ai
+  zhipu: {
+    apiUrl: 'https://open.bigmodel.cn/api/paas/v4/chat/completions',
+    model: 'glm-4.7-flashx',
+    needsApiKey: true,
+  },
+  openai: {
+    apiUrl: 'https://api.openai.com/v1/chat/completions',
+    model: 'gpt-4o-mini',
+    needsApiKey: true,
+  },
+  anthropic: {
+    apiUrl: 'https://api.anthropic.com/v1/messages',
+    model: 'claude-3-5-haiku-latest',
+    needsApiKey: true,
+  },
+  bedrock: {
+    apiUrl: '',
+    model: 'anthropic.claude-3-5-haiku-20241022-v1:0',
+    needsApiKey: false,
+  },
+  // Ollama's OpenAI-compatible endpoint; a llama.cpp server works the same way
+  ollama: {
+    apiUrl: 'http://localhost:11434/v1/chat/completions',
+    model: 'llama3.1',
+    needsApiKey: false,
+  },
+};
+
+export const LLM_PROVIDER_NAMES = Object.keys(PROVIDER_DEFAULTS) as LLMProviderName[];
+
+function parseProviderName(variable: string, fallback: string): LLMProviderName {
+  const raw = (process.env[variable] || fallback).trim().toLowerCase();
+  if (!LLM_PROVIDER_NAMES.includes(raw as LLMProviderName)) {
+    throw new Error(`Unknown ${variable} "${raw}" (expected one of ${LLM_PROVIDER_NAMES.join(', ')})`);
+  }
+  return raw as LLMProviderName;
+}
+
+function readNumber(variable: string, fallback: number, min = 1): number {
+  const raw = process.env[variable];
+  if (!raw) {
+    return fallback;
+  }
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+function getTimeoutMs(): number {
+  return readNumber('LLM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+}
+
+/**
+ * The configured provider, with defaults filled in
+ */
+export function getLLMConfig(): LLMProviderConfig {
+  const provider = parseProviderName('LLM_PROVIDER', 'zhipu');
+  const defaults = PROVIDER_DEFAULTS[provider];
+  return {
+    provider,
+    apiUrl: process.env.LLM_API_URL || defaults.apiUrl,
+    apiKey: process.env.LLM_API_KEY || undefined,
+    model: process.env.LLM_MODEL || defaults.model,
+    timeoutMs: getTimeoutMs(),
+    region: provider === 'bedrock' ? process.env.LLM_REGION || process.env.AWS_REGION : undefined,
+  };
+}
+
+/**
+ * The fallback provider, or undefined when none is configured or it can't be called
+ */
+export function getLLMFallbackConfig(primary: LLMProviderConfig = getLLMConfig()): LLMProviderConfig | undefined {
+  if (!process.env.LLM_FALLBACK_PROVIDER && !process.env.LLM_FALLBACK_MODEL) {
+    return undefined;
+  }
+  const provider = parseProviderName('LLM_FALLBACK_PROVIDER', primary.provider);
+  const sameProvider = provider === primary.provider;
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const fallback: LLMProviderConfig = {
+    provider,
+    apiUrl: process.env.LLM_FALLBACK_API_URL || (sameProvider ? primary.apiUrl : defaults.apiUrl),
+    apiKey: process.env.LLM_FALLBACK_API_KEY || (sameProvider ? primary.apiKey : undefined),
+    model: process.env.LLM_FALLBACK_MODEL || defaults.model,
+    timeoutMs: primary.timeoutMs,
+    region: provider === 'bedrock' ? process.env.LLM_REGION || process.env.AWS_REGION : undefined,
+  };
+
+  // Every call to it would fail authentication, using up the retries and the time budget
+  if (!isProviderConfigured(fallback)) {
+    if (!reportedUnconfiguredFallback) {
+      reportedUnconfiguredFallback = true;
+      console.error(`LLM fallback ${provider} has no LLM_FALLBACK_API_KEY set, so it is not used`);
+    }
+    return undefined;
+  }
+  return fallback;
+}
+
+export function getLLMRetryConfig(): LLMRetryConfig {
+  return {
+    maxRetries: readNumber('LLM_MAX_RETRIES', DEFAULT_MAX_RETRIES, 0),
+    baseDelayMs: readNumber('LLM_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_BASE_DELAY_MS),
+    maxDelayMs: MAX_RETRY_DELAY_MS,
+  };
+}
+
+/**
+ * Whether the provider has what it needs to be called; without it the chat runs on patterns only
+ */
+export function isProviderConfigured(config: LLMProviderConfig): boolean {
+  return !PROVIDER_DEFAULTS[config.provider].needsApiKey || Boolean(config.apiKey);
+}
@@ -0,0 +1,127 @@
+/**
+ * LLM Errors
+ * What every provider throws, whatever its API reports, so callers can tell a bad key from a
+ * busy service without knowing which provider is configured.
+ */
+
+import type { LLMProviderName } from './types';
+
+/**
+ * Base class of all provider failures. retryable says whether the same request may succeed later.
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LLMProviderName,
+    public readonly retryable: boolean,
+    public readonly status?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'LLMError';
+  }
+}
+
+/**
+ * The API key or credentials were rejected (401/403)
+ */
+export class LLMAuthenticationError extends LLMError {
+  constructor(provider: LLMProviderName, detail: string, status?: number) {
+    super(`${provider} rejected the credentials: ${detail}`, provider, false, status);
+    this.name = 'LLMAuthenticationError';
+  }
+}
+
+/**
+ * The provider is throttling us (429). retryAfterMs is its hint, when it gave one.
+ */
+export class LLMRateLimitError extends LLMError {
+  constructor(
+    provider: LLMProviderName,
+    detail: string,
+    status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(`${provider} rate limit exceeded: ${detail}`, provider, true, status);
+    this.name = 'LLMRateLimitError';
+  }
+}
+
+/**
+ * No answer within LLM_TIMEOUT_MS, or the provider timed out itself
+ */
+export class LLMTimeoutError extends LLMError {
+  constructor(provider: LLMProviderName, timeoutMs: number, options?: { cause?: unknown }) {
+    super(`${provider} did not respond within ${timeoutMs}ms`, provider, true, undefined, options);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * The provider refused the request itself (other 4xx): a bad model name, an oversized prompt, ...
+ */
+export class LLMRequestError extends LLMError {
+  constructor(provider: LLMProviderName, detail: string, status?: number) {
+    super(`${provider} rejected the request: ${detail}`, provider, false, status);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * The provider failed or couldn't be reached (5xx, overloaded, network errors)
+ */
+export class LLMUnavailableError extends LLMError {
+  constructor(provider: LLMProviderName, detail: string, status?: number, options?: { cause?: unknown }) {
+    super(`${provider} is unavailable: ${detail}`, provider, true, status, options);
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+/**
+ * The provider answered with something we can't read
+ */
+export class LLMResponseError extends LLMError {
+  constructor(provider: LLMProviderName, detail: string) {
+    super(`${provider} returned an unusable response: ${detail}`, provider, false);
+    this.name = 'LLMResponseError';
+  }
+}
+
+/**
+ * The error for an HTTP error status
+ */
+export function llmErrorFromStatus(
+  provider: LLMProviderName,
+  status: number,
+  detail: string,
+  retryAfterMs?: number
+): LLMError {
+  if (status === 401 || status === 403) {
+    return new LLMAuthenticationError(provider, detail, status);
+  }
+  if (status === 429) {
+    return new LLMRateLimitError(provider, detail, status, retryAfterMs);
+  }
+  if (status === 408) {
+    return new LLMUnavailableError(provider, `request timeout (${detail})`, status);
+  }
+  if (status >= 400 && status < 500) {
+    return new LLMRequestError(provider, detail, status);
+  }
+  return new LLMUnavailableError(provider, detail, status);
+}
+
+/**
+ * Normalise anything thrown while calling a provider. Aborts from our own timeout become
+ * LLMTimeoutError; other non-LLM errors are network failures.
+ */
+export function toLLMError(provider: LLMProviderName, error: unknown, timeoutMs: number): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return new LLMTimeoutError(provider, timeoutMs, { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMUnavailableError(provider, message, undefined, { cause: error });
+}
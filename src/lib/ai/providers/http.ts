@@ -0,0 +1,156 @@
+/**
+ * HTTP helpers shared by the providers called over fetch
+ */
+
+import { LLMResponseError, llmErrorFromStatus, toLLMError } from './errors';
+import type { LLMProviderConfig } from './types';
+
+/**
+ * A server-sent event: its event: name, if any, and its data: lines joined
+ */
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Milliseconds from a Retry-After header (seconds or an HTTP date)
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * POST a JSON body within the configured timeout. Resolves with the response once it is OK;
+ * error statuses and network failures are thrown as LLMErrors.
+ */
+export async function postJson(
+  config: LLMProviderConfig,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(config.apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+  } catch (error) {
+    throw toLLMError(config.provider, error, config.timeoutMs);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    console.error('=== LLM API Error Response ===');
+    console.error('Provider:', config.provider);
+    console.error('Status:', response.status);
+    console.error('Error body:', errorText);
+    console.error('==============================');
+    throw llmErrorFromStatus(
+      config.provider,
+      response.status,
+      errorText || response.statusText,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return response;
+}
+
+/**
+ * Read the JSON body of an OK response
+ */
+export async function readJson<T>(config: LLMProviderConfig, response: Response): Promise<T> {
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new LLMResponseError(config.provider, `invalid JSON (${error.message})`);
+    }
+    throw toLLMError(config.provider, error, config.timeoutMs);
+  }
+}
+
+/**
+ * Read a server-sent event stream, calling onEvent for each event until it returns true or the
+ * stream ends. Events are separated by a blank line; each may carry several data: lines.
+ */
+export async function readServerSentEvents(
+  config: LLMProviderConfig,
+  response: Response,
+  onEvent: (event: ServerSentEvent) => boolean | void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  const handleEvent = (rawEvent: string) => {
+    const lines = rawEvent.split(/\r?\n/);
+    const eventLine = lines.find((line) => line.startsWith('event:'));
+    const data = lines
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (data) {
+      finished = onEvent({ event: eventLine?.slice(6).trim(), data }) === true;
+    }
+  };
+
+  const read = async () => {
+    try {
+      return await reader.read();
+    } catch (error) {
+      throw toLLMError(config.provider, error, config.timeoutMs);
+    }
+  };
+
+  while (!finished) {
+    const { done, value } = await read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1 && !finished) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+      handleEvent(rawEvent);
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  // Some servers close the stream without a trailing blank line
+  if (!finished && buffer.trim()) {
+    handleEvent(buffer);
+  }
+  if (finished) {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Tool-call arguments as the object the Anthropic and Bedrock APIs expect.
+ * Arguments that aren't a JSON object become an empty one.
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = args ? JSON.parse(args) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
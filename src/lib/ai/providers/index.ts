@@ -0,0 +1,29 @@
+/**
+ * LLM provider exports
+ */
+
+import { createAnthropicProvider } from './anthropic';
+import { createBedrockProvider } from './bedrock';
+import { getLLMConfig } from './config';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider, LLMProviderConfig } from './types';
+
+export * from './types';
+export * from './errors';
+export * from './config';
+
+/**
+ * The provider for a configuration, by default the one LLM_PROVIDER names
+ */
+export function getLLMProvider(config: LLMProviderConfig = getLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'bedrock':
+      return createBedrockProvider(config);
+    case 'zhipu':
+    case 'openai':
+    case 'ollama':
+      return createOpenAICompatibleProvider(config);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * OpenAI-compatible Provider
+ * Chat-completions APIs: OpenAI itself, Zhipu (BigModel), and local Ollama or llama.cpp servers.
+ */
+
+import { LLMResponseError } from './errors';
+import { postJson, readJson, readServerSentEvents } from './http';
+import type {
+  LLMCompletion,
+  LLMFinishReason,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMUsage,
+} from './types';
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  tools?: LLMToolDefinition[];
+  tool_choice?: 'auto' | 'none';
+  [extra: string]: unknown;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: LLMToolCall[];
+    };
+    finish_reason: string;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * Per-server differences
+ */
+export interface OpenAICompatibleOptions {
+  // Extra request fields, e.g. Zhipu's thinking switch
+  extraBody?: Record<string, unknown>;
+  // Whether the server accepts stream_options to report usage at the end of a stream
+  streamUsage?: boolean;
+}
+
+// Zhipu's GLM models think before answering unless told not to; we want the fast answer
+const ZHIPU_OPTIONS: OpenAICompatibleOptions = {
+  extraBody: { thinking: { type: 'disabled' } },
+};
+
+/**
+ * The options for each provider served by this API
+ */
+function optionsFor(config: LLMProviderConfig): OpenAICompatibleOptions {
+  switch (config.provider) {
+    case 'zhipu':
+      return ZHIPU_OPTIONS;
+    case 'openai':
+    case 'ollama':
+      return { streamUsage: true };
+    default:
+      return {};
+  }
+}
+
+function toFinishReason(reason: string | null | undefined): LLMFinishReason {
+  switch (reason) {
+    case 'stop':
+      return 'stop';
+    case 'tool_calls':
+      return 'tool_calls';
+    case 'length':
+      return 'length';
+    default:
+      return 'other';
+  }
+}
+
+function toUsage(usage: ChatCompletionUsage | null | undefined): LLMUsage | undefined {
+  return usage
+    ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens, totalTokens: usage.total_tokens }
+    : undefined;
+}
+
+export function createOpenAICompatibleProvider(
+  config: LLMProviderConfig,
+  options: OpenAICompatibleOptions = optionsFor(config)
+): LLMProvider {
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const buildBody = (request: LLMRequest, stream: boolean): ChatCompletionRequest => {
+    const tools = request.tools && request.tools.length > 0 ? request.tools : undefined;
+    return {
+      model: config.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: stream || undefined,
+      stream_options: stream && options.streamUsage ? { include_usage: true } : undefined,
+      tools,
+      tool_choice: tools ? request.toolChoice ?? 'auto' : undefined,
+      ...options.extraBody,
+    };
+  };
+
+  return {
+    name: config.provider,
+    config,
+
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      const response = await postJson(config, headers, buildBody(request, false));
+      const data = await readJson<ChatCompletionResponse>(config, response);
+
+      const choice = data.choices?.[0];
+      if (!choice) {
+        console.error('No choices in LLM response:', JSON.stringify(data));
+        throw new LLMResponseError(config.provider, 'no choices');
+      }
+      return {
+        content: choice.message.content || '',
+        toolCalls: choice.message.tool_calls || [],
+        finishReason: toFinishReason(choice.finish_reason),
+        usage: toUsage(data.usage),
+      };
+    },
+
+    async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+      const response = await postJson(
+        config,
+        { ...headers, Accept: 'text/event-stream' },
+        buildBody(request, true)
+      );
+
+      let content = '';
+      let finishReason: LLMFinishReason = 'other';
+      let usage: LLMUsage | undefined;
+      await readServerSentEvents(config, response, ({ data }) => {
+        if (data === '[DONE]') {
+          return true;
+        }
+        let chunk: ChatCompletionChunk;
+        try {
+          chunk = JSON.parse(data) as ChatCompletionChunk;
+        } catch {
+          console.warn('Skipping malformed stream chunk:', data);
+          return;
+        }
+
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (choice?.finish_reason) {
+          finishReason = toFinishReason(choice.finish_reason);
+        }
+        usage = toUsage(chunk.usage) ?? usage;
+      });
+
+      return { content, toolCalls: [], finishReason, usage };
+    },
+  };
+}
+
@@ -0,0 +1,94 @@
+/**
+ * LLM Provider Types
+ * The provider-neutral request and response shapes. Messages and tools use the OpenAI-compatible
+ * format the rest of the app was written against; each provider translates to and from its own API.
+ */
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: LLMToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Function tool the model may call (OpenAI-compatible format)
+ */
+export interface LLMToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON Schema
+  };
+}
+
+/**
+ * Tool call requested by the model
+ */
+export interface LLMToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded arguments
+  };
+}
+
+export type LLMProviderName = 'zhipu' | 'openai' | 'anthropic' | 'bedrock' | 'ollama';
+
+/**
+ * Which provider to call and how, from the LLM_* environment variables
+ */
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  apiUrl: string; // Unused by bedrock, which calls the regional endpoint
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+  region?: string; // bedrock only
+}
+
+/**
+ * One completion request
+ */
+export interface LLMRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Token counts, whatever the provider calls them
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// stop: the model finished its answer; tool_calls: it wants tools run; length: it hit maxTokens
+export type LLMFinishReason = 'stop' | 'tool_calls' | 'length' | 'other';
+
+/**
+ * Assistant turn: final content, or the tool calls the model wants run
+ */
+export interface LLMCompletion {
+  content: string;
+  toolCalls: LLMToolCall[];
+  finishReason: LLMFinishReason;
+  usage?: LLMUsage;
+}
+
+/**
+ * One LLM API. Failures are thrown as LLMError subclasses (see errors.ts).
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly config: LLMProviderConfig;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  // Calls onDelta with each content fragment as it arrives; resolves with the whole turn
+  stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion>;
+}
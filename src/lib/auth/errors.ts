@@ -0,0 +1,38 @@
+/**
+ * Auth Errors
+ */
+
+import type { AdvisorRole, Permission } from '../../types';
+
+/**
+ * A request has no bearer token, or one that doesn't verify. Handlers answer 401.
+ */
+export class AuthenticationError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Authentication failed: ${reason}`);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The caller's role lacks a permission the request needs. Handlers answer 403 naming it.
+ */
+export class PermissionDeniedError extends Error {
+  constructor(
+    public readonly permission: Permission,
+    public readonly role: AdvisorRole
+  ) {
+    super(`Missing permission ${permission} (role ${role})`);
+    this.name = 'PermissionDeniedError';
+  }
+
+  /**
+   * What a 403 response reports, so the caller knows what to ask for
+   */
+  toResponseData(): Record<string, unknown> {
+    return {
+      missing_permission: this.permission,
+      role: this.role,
+    };
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Auth module exports
+ */
+
+export * from './errors';
+export * from './jwt';
+export * from './middleware';
+export * from './permissions';
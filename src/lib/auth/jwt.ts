@@ -0,0 +1,251 @@
+/**
+ * JWT Verification
+ * Verifies bearer tokens with node:crypto, no JWT library needed.
+ *
+ * Tokens are signed either by the identity provider, whose public keys are fetched from
+ * AUTH_JWKS_URL (RS256 or ES256), or with AUTH_LOCAL_SIGNING_KEY (HS256) for local runs and tests.
+ * With neither configured every token is rejected.
+ *
+ * AUTH_ISSUER and AUTH_AUDIENCE, when set, must match the token's iss and aud (or Cognito's client_id).
+ * AUTH_ADVISOR_CLAIM names the claim holding the advisor ID, the account_manager_id of their clients
+ * (sub by default). The role comes from the role claim, or the roles or cognito:groups lists
+ * (highest by ROLE_PRECEDENCE if several); a token with none of them is an advisor.
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify, type JsonWebKey, type KeyObject } from 'node:crypto';
+import { AuthenticationError } from './errors';
+import { ROLE_PRECEDENCE } from './permissions';
+import type { AdvisorIdentity } from '../../types';
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  email?: string;
+  name?: string;
+  role?: string;
+  roles?: string[];
+  [claim: string]: unknown;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+interface JwksCache {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+}
+
+// Signing keys are refetched after this long, or sooner (but not more often) for an unknown kid
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFETCH_MS = 30 * 1000;
+// Allowed clock difference with the token issuer
+const CLOCK_SKEW_SECONDS = 60;
+const DEFAULT_LOCAL_TOKEN_TTL_SECONDS = 60 * 60;
+
+let jwksCache: JwksCache | null = null;
+
+async function fetchJwks(url: string): Promise<JwksCache> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`JWKS request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const body = (await response.json()) as { keys?: Jwk[] };
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of body.keys || []) {
+    if (jwk.use && jwk.use !== 'sig') continue;
+    try {
+      keys.set(jwk.kid || '', createPublicKey({ key: jwk, format: 'jwk' }));
+    } catch (error) {
+      console.warn('Skipping unusable JWKS key:', jwk.kid, error);
+    }
+  }
+  console.log('JWKS keys loaded:', [...keys.keys()].join(', '));
+  return { keys, fetchedAt: Date.now() };
+}
+
+/**
+ * Public key for a kid, from the cached JWKS or a fresh fetch
+ */
+async function getJwksKey(url: string, kid: string): Promise<KeyObject> {
+  const age = jwksCache ? Date.now() - jwksCache.fetchedAt : Infinity;
+  if (!jwksCache || age > JWKS_CACHE_MS || (!jwksCache.keys.has(kid) && age > JWKS_MIN_REFETCH_MS)) {
+    jwksCache = await fetchJwks(url);
+  }
+  const key = jwksCache.keys.get(kid);
+  if (!key) {
+    throw new AuthenticationError(`unknown signing key ${kid || '(no kid)'}`);
+  }
+  return key;
+}
+
+function getLocalSigningKey(): string | undefined {
+  return process.env.AUTH_LOCAL_SIGNING_KEY || undefined;
+}
+
+function signHs256(signingInput: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(signingInput).digest();
+}
+
+/**
+ * Check a token's signature. Each algorithm has exactly one source of keys, so a token can't
+ * choose HS256 to be checked against a public key.
+ */
+async function verifySignature(header: JwtHeader, signingInput: string, signature: Buffer): Promise<boolean> {
+  switch (header.alg) {
+    case 'HS256': {
+      const secret = getLocalSigningKey();
+      if (!secret) {
+        throw new AuthenticationError('HS256 tokens are not accepted');
+      }
+      const expected = signHs256(signingInput, secret);
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+    case 'RS256':
+    case 'ES256': {
+      const url = process.env.AUTH_JWKS_URL;
+      if (!url) {
+        throw new AuthenticationError(`${header.alg} tokens are not accepted`);
+      }
+      const key = await getJwksKey(url, header.kid || '');
+      try {
+        const data = Buffer.from(signingInput);
+        return header.alg === 'ES256'
+          ? verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature)
+          : verify('sha256', data, key, signature);
+      } catch {
+        // A key of the wrong type for the algorithm
+        return false;
+      }
+    }
+    default:
+      throw new AuthenticationError(`unsupported algorithm ${header.alg}`);
+  }
+}
+
+/**
+ * Decode a header or claims segment, which must be a JSON object
+ */
+function decodeSegment<T extends object>(segment: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+  } catch {
+    throw new AuthenticationError('malformed token');
+  }
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AuthenticationError('malformed token');
+  }
+  return value as T;
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Check expiry, not-before, issuer and audience
+ */
+function checkClaims(claims: JwtClaims): void {
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number') {
+    throw new AuthenticationError('token has no expiry');
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new AuthenticationError('token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthenticationError('token not yet valid');
+  }
+
+  const issuer = process.env.AUTH_ISSUER;
+  if (issuer && claims.iss !== issuer) {
+    throw new AuthenticationError('unexpected issuer');
+  }
+
+  const audience = process.env.AUTH_AUDIENCE;
+  if (audience) {
+    const audiences = [...(Array.isArray(claims.aud) ? claims.aud : [claims.aud]), claims.client_id];
+    if (!audiences.includes(audience)) {
+      throw new AuthenticationError('unexpected audience');
+    }
+  }
+}
+
+/**
+ * Verify a JWT's signature and claims, returning the claims
+ */
+export async function verifyJwt(token: string): Promise<JwtClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthenticationError('malformed token');
+  }
+
+  const [encodedHeader, encodedClaims, encodedSignature] = parts;
+  const header = decodeSegment<JwtHeader>(encodedHeader);
+  const claims = decodeSegment<JwtClaims>(encodedClaims);
+
+  const valid = await verifySignature(
+    header,
+    `${encodedHeader}.${encodedClaims}`,
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!valid) {
+    throw new AuthenticationError('signature does not match');
+  }
+
+  checkClaims(claims);
+  return claims;
+}
+
+/**
+ * The advisor a verified token identifies
+ */
+export function identityFromClaims(claims: JwtClaims): AdvisorIdentity {
+  const advisorClaim = process.env.AUTH_ADVISOR_CLAIM || 'sub';
+  const advisorId = claims[advisorClaim];
+  if (typeof advisorId !== 'string' || !advisorId) {
+    throw new AuthenticationError(`token has no ${advisorClaim} claim`);
+  }
+
+  const listed = (claim: unknown) => (Array.isArray(claim) ? claim : []);
+  const roles = [claims.role, ...listed(claims.roles), ...listed(claims['cognito:groups'])];
+
+  return {
+    advisor_id: advisorId,
+    role: ROLE_PRECEDENCE.find((role) => roles.includes(role)) ?? 'advisor',
+    email: claims.email,
+    name: claims.name,
+  };
+}
+
+/**
+ * Sign an HS256 token with AUTH_LOCAL_SIGNING_KEY, for local runs and tests.
+ * exp defaults to an hour from now.
+ */
+export function signLocalJwt(claims: JwtClaims, ttlSeconds = DEFAULT_LOCAL_TOKEN_TTL_SECONDS): string {
+  const secret = getLocalSigningKey();
+  if (!secret) {
+    throw new Error('AUTH_LOCAL_SIGNING_KEY environment variable not set');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const signingInput = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment({
+    iat: now,
+    exp: now + ttlSeconds,
+    ...claims,
+  })}`;
+  return `${signingInput}.${signHs256(signingInput, secret).toString('base64url')}`;
+}
@@ -0,0 +1,55 @@
+/**
+ * Auth Middleware
+ * Every handler except health runs behind withAuth: the bearer token is verified and the handler
+ * runs as the advisor it identifies, so lib/db only reads and writes within their book.
+ */
+
+import type { APIGatewayProxyResultV2, Context } from 'aws-lambda';
+import type { AdvisorIdentity, AuditSource } from '../../types';
+import { getHeader, type ApiGatewayEvent } from '../utils/api-gateway';
+import { errorResponse } from '../utils/response';
+import { runWithAccess } from '../db/access';
+import { AuthenticationError } from './errors';
+import { verifyJwt, identityFromClaims } from './jwt';
+
+export type ApiHandler = (event: ApiGatewayEvent, context?: Context) => Promise<APIGatewayProxyResultV2>;
+
+/**
+ * Verify the request's bearer token and return the advisor it identifies
+ */
+export async function authenticate(event: ApiGatewayEvent): Promise<AdvisorIdentity> {
+  const authorization = getHeader(event, 'Authorization');
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    throw new AuthenticationError('missing bearer token');
+  }
+  return identityFromClaims(await verifyJwt(token));
+}
+
+/**
+ * Wrap a handler so it only runs for an authenticated advisor, scoped to their book.
+ * Answers 401 for a missing or invalid token, 503 if the signing keys can't be fetched.
+ * source is what the audit trail records the handler's changes as coming from.
+ */
+export function withAuth(handler: ApiHandler, source: AuditSource = 'rest'): ApiHandler {
+  return async (event, context) => {
+    let identity: AdvisorIdentity;
+    try {
+      identity = await authenticate(event);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        console.log('Unauthorized:', error.reason);
+        return errorResponse('Unauthorized', 401, error.reason);
+      }
+      console.error('Authentication error:', error);
+      return errorResponse(
+        'Authentication unavailable',
+        503,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+
+    console.log('Authenticated advisor:', identity.advisor_id, 'role:', identity.role);
+    return runWithAccess(identity, () => handler(event, context), source);
+  };
+}
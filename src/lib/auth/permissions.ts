@@ -0,0 +1,145 @@
+/**
+ * Permissions
+ * What each role may do, and which Client/Policy fields need a permission to see or change.
+ *
+ * Handlers check the action permission of each route; the db write operations check it again,
+ * since the chat pipeline reaches them too. Sensitive fields are removed from records as they are
+ * read (see lib/db/access.ts), so they never reach a response, a card or the LLM.
+ */
+
+import { PermissionDeniedError } from './errors';
+import type { AdvisorIdentity, AdvisorRole, Client, Permission, Policy } from '../../types';
+
+const ALL_PERMISSIONS: Permission[] = [
+  'clients:read',
+  'clients:create',
+  'clients:update',
+  'clients:delete',
+  'clients:assign',
+  'policies:read',
+  'policies:create',
+  'policies:update',
+  'policies:lifecycle',
+  'tasks:read',
+  'tasks:create',
+  'tasks:update',
+  'tasks:complete',
+  'tasks:approve',
+  'chat:use',
+  'analytics:read',
+  'search:use',
+  'records:all',
+  'audit:read',
+  'client.sin_last4',
+  'client.date_of_birth',
+  'client.internal_notes',
+  'policy.internal_notes',
+  'policy.agent_notes',
+  'policy.beneficiaries',
+];
+
+const EVERYDAY_PERMISSIONS: Permission[] = ['chat:use', 'analytics:read', 'search:use'];
+
+const SENSITIVE_FIELD_PERMISSIONS: Permission[] = ALL_PERMISSIONS.filter((permission) => permission.includes('.'));
+
+export const ROLE_PERMISSIONS: Record<AdvisorRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  advisor: ALL_PERMISSIONS.filter(
+    (permission) => permission !== 'clients:assign' && permission !== 'records:all' && permission !== 'audit:read'
+  ),
+  assistant: [
+    ...EVERYDAY_PERMISSIONS,
+    'clients:read',
+    'clients:update',
+    'policies:read',
+    'tasks:read',
+    'tasks:create',
+    'tasks:update',
+    'tasks:complete',
+  ],
+  compliance: [
+    ...EVERYDAY_PERMISSIONS,
+    ...SENSITIVE_FIELD_PERMISSIONS,
+    'clients:read',
+    'policies:read',
+    'tasks:read',
+    'tasks:approve',
+    'records:all',
+    'audit:read',
+  ],
+};
+
+// A token listing several roles gets the first of these it has
+export const ROLE_PRECEDENCE: AdvisorRole[] = ['admin', 'compliance', 'advisor', 'assistant'];
+
+export type SensitiveEntity = 'client' | 'policy';
+
+/**
+ * Fields hidden from callers without the matching permission
+ */
+export const SENSITIVE_FIELDS: {
+  client: Partial<Record<keyof Client, Permission>>;
+  policy: Partial<Record<keyof Policy, Permission>>;
+} = {
+  client: {
+    sin_last4: 'client.sin_last4',
+    date_of_birth: 'client.date_of_birth',
+    internal_notes: 'client.internal_notes',
+  },
+  policy: {
+    internal_notes: 'policy.internal_notes',
+    agent_notes: 'policy.agent_notes',
+    beneficiaries: 'policy.beneficiaries',
+  },
+};
+
+export function hasPermission(identity: AdvisorIdentity, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[identity.role].includes(permission);
+}
+
+/**
+ * Throw PermissionDeniedError unless the identity has the permission
+ */
+export function checkPermission(identity: AdvisorIdentity, permission: Permission): void {
+  if (!hasPermission(identity, permission)) {
+    throw new PermissionDeniedError(permission, identity.role);
+  }
+}
+
+/**
+ * A copy of a record without the sensitive fields the identity may not see
+ */
+export function redactSensitiveFields<T extends object>(
+  entity: SensitiveEntity,
+  record: T,
+  identity: AdvisorIdentity
+): T {
+  const hidden = Object.entries(SENSITIVE_FIELDS[entity])
+    .filter(([, permission]) => !hasPermission(identity, permission))
+    .map(([field]) => field);
+  if (hidden.length === 0) {
+    return record;
+  }
+
+  const redacted = { ...record } as Record<string, unknown>;
+  for (const field of hidden) {
+    delete redacted[field];
+  }
+  return redacted as T;
+}
+
+/**
+ * Throw PermissionDeniedError if a change sets or clears a sensitive field the identity may not touch.
+ * A cleared field (sent as null or "") is present with an undefined value, and counts as a write.
+ */
+export function checkSensitiveFieldWrites(
+  entity: SensitiveEntity,
+  changes: object,
+  identity: AdvisorIdentity
+): void {
+  for (const [field, permission] of Object.entries(SENSITIVE_FIELDS[entity])) {
+    if (field in changes) {
+      checkPermission(identity, permission);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Data Cards
+ * Cards built straight from the records gathered for a chat turn, without the LLM.
+ * List cards are registered under an ID the model places with a card reference, so it writes
+ * only the narrative; the degraded reply uses them when the LLM can't be reached.
+ */
+
+import type { Card, Client, ClientSummary, Policy, PolicySummary, Task, TaskSummary } from '../../types';
+import { buildCardMarker } from '../ai';
+import { toClientSummary, toPolicySummary, toTaskSummary } from '../db';
+import type { PromptData } from './data';
+
+/**
+ * Titles for the list cards, when the gatherer knows better than "Tasks" (e.g. "Overdue Tasks")
+ */
+export interface CardTitles {
+  tasks?: string;
+  clients?: string;
+  policies?: string;
+}
+
+/**
+ * Cards built for a turn, by the ID the model uses to place them
+ */
+export interface CardRegistry {
+  // Store a card and return its ID
+  register(card: Card): string;
+  get(id: string): Card | undefined;
+  // One line per card for the prompt: ID, type, title and what it holds
+  describe(): string;
+  readonly size: number;
+}
+
+// ID stem per list card type; a second card of the same type gets "-2" and so on
+const CARD_ID_STEMS: Partial<Record<Card['type'], string>> = {
+  'task-list': 'tasks',
+  'client-list': 'clients',
+  'policy-list': 'policies',
+};
+
+function describeCard(id: string, card: Card): string {
+  switch (card.type) {
+    case 'task-list':
+      return `- ${id}: task-list "${card.data.title}" (${card.data.tasks.length} tasks: ${card.data.tasks.map((t) => t.task_id).join(', ')})`;
+    case 'client-list':
+      return `- ${id}: client-list "${card.data.title}" (${card.data.clients.length} clients: ${card.data.clients.map((c) => c.client_id).join(', ')})`;
+    case 'policy-list':
+      return `- ${id}: policy-list "${card.data.title}" (${card.data.policies.length} policies: ${card.data.policies.map((p) => p.policy_id).join(', ')})`;
+    default:
+      return `- ${id}: ${card.type}`;
+  }
+}
+
+export function createCardRegistry(): CardRegistry {
+  const cards = new Map<string, Card>();
+
+  return {
+    register(card: Card): string {
+      const stem = CARD_ID_STEMS[card.type] ?? card.type;
+      let id = stem;
+      for (let n = 2; cards.has(id); n++) {
+        id = `${stem}-${n}`;
+      }
+      cards.set(id, card);
+      return id;
+    },
+
+    get(id: string): Card | undefined {
+      return cards.get(id);
+    },
+
+    describe(): string {
+      return [...cards].map(([id, card]) => describeCard(id, card)).join('\n');
+    },
+
+    get size(): number {
+      return cards.size;
+    },
+  };
+}
+
+export function taskListCard(title: string, tasks: TaskSummary[]): Card {
+  return { type: 'task-list', data: { title, tasks, show_actions: true } };
+}
+
+export function clientListCard(title: string, clients: ClientSummary[]): Card {
+  return { type: 'client-list', data: { title, clients } };
+}
+
+export function policyListCard(title: string, policies: PolicySummary[], clientName?: string): Card {
+  return { type: 'policy-list', data: { title, policies, client_name: clientName } };
+}
+
+/**
+ * A list card per kind of record gathered, from the summary projections
+ */
+export function buildListCards(data: PromptData, titles: CardTitles = {}): Card[] {
+  const cards: Card[] = [];
+  const focusedClient = data.focusedClient as Client | undefined;
+  const clientName = focusedClient ? `${focusedClient.first_name} ${focusedClient.last_name}` : undefined;
+
+  if (data.tasks && data.tasks.length > 0) {
+    cards.push(taskListCard(titles.tasks ?? 'Tasks', (data.tasks as Task[]).map(toTaskSummary)));
+  }
+  if (data.clients && data.clients.length > 0) {
+    cards.push(clientListCard(titles.clients ?? 'Clients', (data.clients as Client[]).map(toClientSummary)));
+  }
+  if (data.policies && data.policies.length > 0) {
+    cards.push(
+      policyListCard(
+        titles.policies ?? (clientName ? `${clientName}'s Policies` : 'Policies'),
+        (data.policies as Policy[]).map(toPolicySummary),
+        clientName
+      )
+    );
+  }
+  return cards;
+}
+
+/**
+ * One card per kind of record gathered: the focused task, client and policy, then the lists
+ */
+export function buildDataCards(data: PromptData, titles?: CardTitles): Card[] {
+  const cards: Card[] = [];
+  const focusedClient = data.focusedClient as Client | undefined;
+
+  if (data.focusedTask) {
+    cards.push({ type: 'task', data: { task: data.focusedTask as Task, show_actions: true } });
+  }
+  if (focusedClient) {
+    cards.push({ type: 'client', data: { client: focusedClient, show_policies: Boolean(data.policies?.length) } });
+  }
+  if (data.focusedPolicy) {
+    cards.push({ type: 'policy', data: { policy: data.focusedPolicy as Policy } });
+  }
+  return [...cards, ...buildListCards(data, titles)];
+}
+
+/**
+ * The cards as markers, one per line, for a reply written without the LLM
+ */
+export function formatCardMarkers(cards: Card[]): string {
+  return cards.map((card) => buildCardMarker(card.type, card.data)).join('\n\n');
+}
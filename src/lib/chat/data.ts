@@ -0,0 +1,503 @@
+/**
+ * Intent Data Gathering
+ * Fetches the records the model needs to answer each intent
+ */
+
+import type {
+  ChatContext,
+  Client,
+  ClientNameResolution,
+  ExtractedEntities,
+  UserIntent,
+} from '../../types';
+import { formatDataContext, type PiiRedactor } from '../ai';
+import {
+  getTodaysTasks,
+  getTasks,
+  getPendingReviewTasks,
+  getOverdueTasks,
+  getTasksByPriority,
+  getTasksThisWeek,
+  getTasksThisMonth,
+  getInProgressTasks,
+  getCompletedTasks,
+  searchTasks,
+  getTaskById,
+  resolveClientName,
+  getClientById,
+  getClients,
+  getRecentClients,
+  getHighNetWorthClients,
+  getClientsByStatus,
+  getTopClientsByPortfolio,
+  searchClients,
+  getPoliciesForClient,
+  getPolicies,
+  getExpiringPolicies,
+  getExpiringThisWeek,
+  getExpiringThisMonth,
+  getPoliciesByType,
+  getPoliciesByStatus,
+  getOverduePolicies,
+  getRenewalReminders,
+  searchPolicies,
+  getPolicyById,
+  globalSearch,
+  groupSearchHits,
+  getDashboardMetrics,
+  getTaskMetrics,
+  getClientMetrics,
+  getPolicyMetrics,
+  getPortfolioMetrics,
+  getTodaySummary,
+  getWeeklySummary,
+} from '../db';
+import type { CardTitles } from './cards';
+
+// Completed tasks and recent clients are open-ended lists; keep the prompt small
+const RECENT_LIMIT = 10;
+const BIRTHDAY_WINDOW_DAYS = 14;
+
+/**
+ * Data gathered for a chat turn
+ */
+export interface GatheredData {
+  formattedData: string;
+  // The records themselves, unredacted, for cards built without the LLM
+  records: PromptData;
+  // Titles for the list cards built from the records
+  cardTitles?: CardTitles;
+  focusedTaskId?: string;
+  focusedClientId?: string;
+  focusedPolicyId?: string;
+  // Set when a typed client name matched several clients; the advisor must pick one
+  clientDisambiguation?: ClientNameResolution;
+}
+
+export type PromptData = Parameters<typeof formatDataContext>[0];
+
+/**
+ * Inputs available to every gatherer
+ */
+interface GatherRequest {
+  entities: ExtractedEntities;
+  context?: ChatContext;
+  resolvedContext?: { task_id?: string; client_id?: string; policy_id?: string };
+}
+
+/**
+ * What a gatherer found, before formatting
+ */
+interface IntentData {
+  data: PromptData;
+  cardTitles?: CardTitles;
+  focusedTaskId?: string;
+  focusedClientId?: string;
+  focusedPolicyId?: string;
+  clientDisambiguation?: ClientNameResolution;
+}
+
+type IntentDataGatherer = (request: GatherRequest) => Promise<IntentData>;
+
+/**
+ * Card title from a gatherer's label, e.g. "today's" and "Tasks" make "Today's Tasks"
+ */
+function listTitle(label: string, noun: string): string {
+  const words = label.split(' ').map((word) => word.charAt(0).toUpperCase() + word.slice(1));
+  return `${words.join(' ')} ${noun}`;
+}
+
+/**
+ * Fetch a plain task list
+ */
+function taskList(label: string, fetch: () => Promise<unknown[]>): IntentDataGatherer {
+  return async () => {
+    console.log(`Fetching ${label} tasks...`);
+    const tasks = await fetch();
+    console.log(`${label} tasks count:`, tasks.length);
+    return { data: { tasks }, cardTitles: { tasks: listTitle(label, 'Tasks') } };
+  };
+}
+
+/**
+ * Fetch a plain client list
+ */
+function clientList(label: string, fetch: () => Promise<unknown[]>): IntentDataGatherer {
+  return async () => {
+    console.log(`Fetching ${label} clients...`);
+    const clients = await fetch();
+    console.log(`${label} clients count:`, clients.length);
+    return { data: { clients }, cardTitles: { clients: listTitle(label, 'Clients') } };
+  };
+}
+
+/**
+ * Fetch a plain policy list
+ */
+function policyList(label: string, fetch: () => Promise<unknown[]>): IntentDataGatherer {
+  return async () => {
+    console.log(`Fetching ${label} policies...`);
+    const policies = await fetch();
+    console.log(`${label} policies count:`, policies.length);
+    return { data: { policies }, cardTitles: { policies: listTitle(label, 'Policies') } };
+  };
+}
+
+/**
+ * Fetch a metrics object
+ */
+function metrics(label: string, fetch: () => Promise<object>): IntentDataGatherer {
+  return async () => {
+    console.log(`Fetching ${label}...`);
+    const result = await fetch();
+    return { data: { metrics: { [label]: result } } };
+  };
+}
+
+/**
+ * Focus on the task referenced by the message or conversation
+ */
+async function gatherTaskFocus({ entities, resolvedContext }: GatherRequest): Promise<IntentData> {
+  const taskId = resolvedContext?.task_id || entities.task_id;
+  if (taskId) {
+    const task = await getTaskById(taskId);
+    if (task) {
+      return { data: { focusedTask: task }, focusedTaskId: taskId };
+    }
+  }
+  return { data: {} };
+}
+
+/**
+ * Resolve a typed client name, keeping the candidates when it is ambiguous
+ */
+async function findClientByName(
+  name: string
+): Promise<{ client: Client | null; ambiguous?: ClientNameResolution }> {
+  const resolution = await resolveClientName(name);
+  console.log('Client name resolution:', name, resolution.status, 'candidates:', resolution.candidates.length);
+  return resolution.status === 'ambiguous'
+    ? { client: null, ambiguous: resolution }
+    : { client: resolution.client };
+}
+
+/**
+ * Find the client named in the message, or the one referenced by ID.
+ * Set useFocused to fall back to the client already under discussion.
+ */
+async function findClient(
+  { entities, context, resolvedContext }: GatherRequest,
+  useFocused: boolean
+): Promise<{ client: Client | null; ambiguous?: ClientNameResolution }> {
+  if (entities.client_name) {
+    return findClientByName(entities.client_name);
+  }
+
+  const clientId = resolvedContext?.client_id
+    || (useFocused ? context?.focused_client_id : undefined)
+    || entities.client_id;
+  return { client: clientId ? await getClientById(clientId) : null };
+}
+
+/**
+ * Focus on a client and include their policies
+ */
+function clientFocus(useFocused: boolean): IntentDataGatherer {
+  return async (request) => {
+    const { client, ambiguous } = await findClient(request, useFocused);
+    if (!client) {
+      return { data: {}, clientDisambiguation: ambiguous };
+    }
+
+    const policies = await getPoliciesForClient(client.client_id);
+    return {
+      data: {
+        focusedClient: client,
+        policies: policies.length > 0 ? policies : undefined,
+      },
+      focusedClientId: client.client_id,
+    };
+  };
+}
+
+/**
+ * Policies for one client, focusing the client when found by name
+ */
+async function gatherClientPolicies(request: GatherRequest): Promise<IntentData> {
+  const { entities, resolvedContext } = request;
+  const clientId = resolvedContext?.client_id || entities.client_id;
+
+  if (clientId) {
+    return { data: { policies: await getPoliciesForClient(clientId) } };
+  }
+
+  if (entities.client_name) {
+    const { client, ambiguous } = await findClientByName(entities.client_name);
+    if (client) {
+      return {
+        data: { focusedClient: client, policies: await getPoliciesForClient(client.client_id) },
+        focusedClientId: client.client_id,
+      };
+    }
+    return { data: {}, clientDisambiguation: ambiguous };
+  }
+
+  return { data: {} };
+}
+
+/**
+ * Focus on the policy referenced by ID, number or conversation
+ */
+async function gatherPolicyFocus({ entities, resolvedContext }: GatherRequest): Promise<IntentData> {
+  const policyId = resolvedContext?.policy_id || entities.policy_id;
+  if (policyId) {
+    const policy = await getPolicyById(policyId);
+    if (policy) {
+      return { data: { focusedPolicy: policy }, focusedPolicyId: policyId };
+    }
+  }
+
+  if (entities.policy_number) {
+    const [policy] = await searchPolicies(entities.policy_number);
+    if (policy) {
+      return { data: { focusedPolicy: policy }, focusedPolicyId: policy.policy_id };
+    }
+  }
+
+  return { data: {} };
+}
+
+/**
+ * Client, policies and task from the conversation, for drafting documents
+ */
+async function gatherDocumentContext(request: GatherRequest): Promise<IntentData> {
+  const result = await clientFocus(true)(request);
+
+  // Also include focused task if relevant (for meeting prep)
+  const taskId = request.resolvedContext?.task_id || request.context?.focused_task_id;
+  if (taskId) {
+    const task = await getTaskById(taskId);
+    if (task) {
+      result.data.focusedTask = task;
+      result.focusedTaskId = taskId;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The client being written to, or everyone with a birthday coming up
+ */
+async function gatherBirthdayContext(request: GatherRequest): Promise<IntentData> {
+  const result = await gatherDocumentContext(request);
+  if (result.focusedClientId || result.clientDisambiguation) {
+    return result;
+  }
+
+  const now = new Date();
+  const clients = (await getClients()).filter((c) => {
+    if (!c.date_of_birth) return false;
+    const birthDate = new Date(c.date_of_birth);
+    const next = new Date(now.getFullYear(), birthDate.getUTCMonth(), birthDate.getUTCDate());
+    if (next < new Date(now.getFullYear(), now.getMonth(), now.getDate())) {
+      next.setFullYear(now.getFullYear() + 1);
+    }
+    return next.getTime() - now.getTime() <= BIRTHDAY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  });
+  console.log('Clients with upcoming birthdays:', clients.length);
+  return { data: { clients } };
+}
+
+/**
+ * The client's policies, or every active policy due for renewal
+ */
+async function gatherRenewalContext(request: GatherRequest): Promise<IntentData> {
+  const result = await gatherDocumentContext(request);
+  if (result.focusedClientId || result.clientDisambiguation) {
+    return result;
+  }
+  return { data: { policies: await getRenewalReminders() } };
+}
+
+/**
+ * Policies of the requested type, or all policies when no type was recognised
+ */
+async function gatherPoliciesByType({ entities }: GatherRequest): Promise<IntentData> {
+  console.log('Fetching policies by type:', entities.policy_type);
+  const policies = entities.policy_type
+    ? await getPoliciesByType(entities.policy_type)
+    : await getPolicies();
+  return {
+    data: { policies },
+    cardTitles: entities.policy_type ? { policies: `${entities.policy_type} Policies` } : undefined,
+  };
+}
+
+/**
+ * Policies with the requested status, or all policies when no status was recognised
+ */
+async function gatherPoliciesByStatus({ entities }: GatherRequest): Promise<IntentData> {
+  console.log('Fetching policies by status:', entities.policy_status);
+  const status = entities.policy_status as Parameters<typeof getPoliciesByStatus>[0] | undefined;
+  const policies = status ? await getPoliciesByStatus(status) : await getPolicies();
+  return { data: { policies } };
+}
+
+/**
+ * Search one entity type by the extracted query, falling back to the client name
+ */
+function search(
+  label: string,
+  run: (query: string) => Promise<Partial<PromptData>>
+): IntentDataGatherer {
+  return async ({ entities }) => {
+    const query = entities.search_query || entities.client_name || entities.policy_number;
+    if (!query) {
+      console.log(`No ${label} search query found`);
+      return { data: {} };
+    }
+    console.log(`Searching ${label} for:`, query);
+    return { data: await run(query) };
+  };
+}
+
+/**
+ * Today's work plus pending reviews, as a conversation opener
+ */
+async function gatherOverview(): Promise<IntentData> {
+  const [todaysTasks, pendingReviews] = await Promise.all([getTodaysTasks(), getPendingReviewTasks()]);
+  return { data: { tasks: [...todaysTasks.slice(0, 3), ...pendingReviews.slice(0, 2)] } };
+}
+
+/**
+ * For general questions, provide some context
+ */
+async function gatherGeneralContext(): Promise<IntentData> {
+  const tasks = await getTodaysTasks();
+  return { data: { tasks: tasks.slice(0, 5) } };
+}
+
+/**
+ * Data source for every intent. Typed as a full Record so adding an intent
+ * to UserIntent without a mapping here fails the type-check.
+ */
+const INTENT_DATA_GATHERERS: Record<UserIntent, IntentDataGatherer> = {
+  // Task intents
+  show_todays_tasks: taskList('today\'s', getTodaysTasks),
+  show_all_tasks: taskList('all', () => getTasks()),
+  show_task_status: gatherTaskFocus,
+  show_pending_reviews: async () => {
+    console.log('Fetching pending review tasks...');
+    const tasks = await getPendingReviewTasks();
+    console.log('Pending review tasks count:', tasks.length);
+    // Focus on the first pending review task
+    const cardTitles = { tasks: 'Pending Reviews' };
+    if (tasks.length === 0) {
+      return { data: { tasks }, cardTitles };
+    }
+    console.log('Focused on task:', tasks[0].task_id);
+    return { data: { tasks, focusedTask: tasks[0] }, cardTitles, focusedTaskId: tasks[0].task_id };
+  },
+  show_overdue_tasks: taskList('overdue', getOverdueTasks),
+  show_high_priority_tasks: taskList('high priority', () => getTasksByPriority('high')),
+  show_tasks_this_week: taskList('this week\'s', getTasksThisWeek),
+  show_tasks_this_month: taskList('this month\'s', getTasksThisMonth),
+  show_in_progress_tasks: taskList('in progress', getInProgressTasks),
+  show_completed_tasks: taskList('completed', () => getCompletedTasks(RECENT_LIMIT)),
+  approve_task: gatherTaskFocus,
+  reject_task: gatherTaskFocus,
+  complete_task: gatherTaskFocus,
+  // Only a client named or referenced in the message is linked to the new task
+  create_task: clientFocus(false),
+
+  // Client intents
+  show_client_info: clientFocus(false),
+  show_client_list: clientList('all', () => getClients()),
+  search_clients: search('clients', async (query) => ({ clients: await searchClients(query) })),
+  show_client_policies: gatherClientPolicies,
+  show_recent_clients: clientList('recent', () => getRecentClients(RECENT_LIMIT)),
+  show_high_net_worth_clients: clientList('high net worth', getHighNetWorthClients),
+  show_active_clients: clientList('active', () => getClientsByStatus('Active')),
+  show_inactive_clients: clientList('inactive', () => getClientsByStatus('Inactive')),
+  show_prospect_clients: clientList('prospect', () => getClientsByStatus('Prospect')),
+  show_clients_by_portfolio: clientList('top portfolio', () => getTopClientsByPortfolio(RECENT_LIMIT)),
+
+  // Policy intents
+  show_policy_info: gatherPolicyFocus,
+  show_policies_for_client: gatherClientPolicies,
+  show_expiring_policies: policyList('expiring', getExpiringPolicies),
+  show_expiring_this_week: policyList('expiring this week', getExpiringThisWeek),
+  show_expiring_this_month: policyList('expiring this month', getExpiringThisMonth),
+  show_policies_by_type: gatherPoliciesByType,
+  show_policies_by_status: gatherPoliciesByStatus,
+  show_overdue_policies: policyList('overdue', getOverduePolicies),
+
+  // Analytics intents
+  show_dashboard: metrics('dashboard', getDashboardMetrics),
+  show_task_summary: metrics('tasks', getTaskMetrics),
+  show_client_summary: metrics('clients', getClientMetrics),
+  show_policy_summary: metrics('policies', getPolicyMetrics),
+  show_portfolio_summary: metrics('portfolio', getPortfolioMetrics),
+  show_today_summary: async () => {
+    const [summary, tasks] = await Promise.all([getTodaySummary(), getTodaysTasks()]);
+    return { data: { metrics: { today: summary }, tasks } };
+  },
+  show_week_summary: async () => {
+    const [summary, tasks] = await Promise.all([getWeeklySummary(), getTasksThisWeek()]);
+    return { data: { metrics: { week: summary }, tasks } };
+  },
+
+  // Communication intents
+  draft_email: gatherDocumentContext,
+  draft_meeting_notes: gatherDocumentContext,
+  draft_birthday_message: gatherBirthdayContext,
+  draft_renewal_notice: gatherRenewalContext,
+
+  // Document generation intents - use context from conversation
+  create_compliance_check: gatherDocumentContext,
+  create_portfolio_analysis: gatherDocumentContext,
+  create_client_summary: gatherDocumentContext,
+  create_meeting_prep: gatherDocumentContext,
+  create_report: gatherDocumentContext,
+
+  // Search intents
+  global_search: search('everything', async (query) => groupSearchHits((await globalSearch(query)).hits)),
+  search_tasks: search('tasks', async (query) => ({ tasks: await searchTasks(query) })),
+  search_policies: search('policies', async (query) => ({ policies: await searchPolicies(query) })),
+
+  // General intents
+  general_question: gatherGeneralContext,
+  greeting: gatherOverview,
+  help: gatherOverview,
+  unknown: gatherGeneralContext,
+};
+
+/**
+ * Gather relevant data based on the classified intent.
+ * With a redactor, personal details are replaced in the formatted data.
+ */
+export async function gatherDataForIntent(
+  intent: UserIntent,
+  entities: ExtractedEntities,
+  context?: ChatContext,
+  resolvedContext?: { task_id?: string; client_id?: string; policy_id?: string },
+  redactor?: PiiRedactor
+): Promise<GatheredData> {
+  console.log('gatherDataForIntent - Intent:', intent);
+  console.log('Entities:', JSON.stringify(entities));
+  console.log('Resolved context:', JSON.stringify(resolvedContext));
+
+  const gatherer = INTENT_DATA_GATHERERS[intent] || gatherGeneralContext;
+  const result = await gatherer({ entities, context, resolvedContext });
+
+  return {
+    formattedData: formatDataContext(redactor ? redactor.redact(result.data) : result.data),
+    records: result.data,
+    cardTitles: result.cardTitles,
+    focusedTaskId: result.focusedTaskId,
+    focusedClientId: result.focusedClientId,
+    focusedPolicyId: result.focusedPolicyId,
+    clientDisambiguation: result.clientDisambiguation,
+  };
+}
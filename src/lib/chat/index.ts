@@ -0,0 +1,9 @@
+/**
+ * Chat pipeline exports
+ */
+
+export * from './cards';
+export * from './data';
+export * from './pipeline';
+export * from './tools';
+export * from './task-creation';
@@ -0,0 +1,505 @@
+/**
+ * Chat Pipeline
+ * Shared by the JSON chat endpoint and the streaming endpoint:
+ * prepareChat does everything before the LLM call, finalizeChat everything after.
+ */
+
+import type {
+  ChatContext,
+  ChatResponse,
+  ChatStreamEvent,
+  ClientNameResolution,
+  CardWarning,
+  IntentClassification,
+  Message,
+  ToolCallRecord,
+} from '../../types';
+import {
+  buildSystemPrompt,
+  buildPromptWithIntent,
+  classifyIntentWithLLM,
+  resolveContextReferences,
+  callLLM,
+  streamLLM,
+  parseContent,
+  createCardStreamParser,
+  buildConversationWindow,
+  buildCardMarker,
+  expandCardReferences,
+  createPiiRedactor,
+  LLMError,
+  type LLMMessage,
+  type PiiRedactor,
+} from '../ai';
+import {
+  approveTask,
+  rejectTask,
+  completeTask,
+  generateSessionId,
+  createMessage,
+  getSession,
+  getSessionMessages,
+  appendSessionMessages,
+  InvalidTransitionError,
+  AccessDeniedError,
+} from '../db';
+import { PermissionDeniedError } from '../auth';
+import type { CardDataContext } from '../validation';
+import {
+  buildDataCards,
+  buildListCards,
+  createCardRegistry,
+  formatCardMarkers,
+  type CardRegistry,
+} from './cards';
+import { gatherDataForIntent, type GatheredData } from './data';
+import { isToolCallingEnabled, runToolLoop } from './tools';
+import { createTaskFromChat } from './task-creation';
+
+// Number of stored messages loaded when resuming a session.
+// Turns that don't fit the LLM token budget are summarised, not dropped.
+const SESSION_HISTORY_LIMIT = 40;
+
+/**
+ * Everything needed to call the LLM and finish the turn
+ */
+export interface PreparedChat {
+  sessionId: string;
+  message: string;
+  userMessage: Message;
+  context: ChatContext;
+  intentResult: IntentClassification;
+  dataContext: GatheredData;
+  tasksUpdated: boolean;
+  systemPrompt: string;
+  history: LLMMessage[];
+  // The message as sent to the LLM, with personal details replaced
+  promptMessage: string;
+  // Placeholders used in the prompt, for filling in the reply
+  redactor: PiiRedactor;
+  // List cards built from the data, which the reply places by ID
+  cards: CardRegistry;
+  toolsEnabled: boolean;
+  // Reply decided without the LLM (e.g. asking which client was meant, or a created task)
+  directReply?: string;
+}
+
+/**
+ * Options for preparing a chat turn
+ */
+export interface PrepareChatOptions {
+  // Let the model call data tools; intent-based data is still pre-fetched
+  tools?: boolean;
+}
+
+/**
+ * Load stored session state and merge it with the request context.
+ * Context sent by the client wins over what was stored.
+ */
+async function loadSessionContext(
+  sessionId: string,
+  context?: ChatContext
+): Promise<ChatContext> {
+  try {
+    const [session, history] = await Promise.all([
+      getSession(sessionId),
+      context?.conversation_history
+        ? Promise.resolve(undefined)
+        : getSessionMessages(sessionId, SESSION_HISTORY_LIMIT),
+    ]);
+    console.log('Session loaded:', Boolean(session), 'history messages:', history?.length ?? 0);
+
+    return {
+      ...session?.context,
+      ...context,
+      session_id: sessionId,
+      conversation_history: context?.conversation_history || history,
+    };
+  } catch (error) {
+    console.error('Error loading session, continuing without history:', error);
+    return { ...context, session_id: sessionId };
+  }
+}
+
+/**
+ * Persist the user message and assistant reply to the session
+ */
+async function saveExchange(
+  sessionId: string,
+  userMessage: Message,
+  assistantMessage: Message,
+  context: ChatContext
+): Promise<void> {
+  try {
+    await appendSessionMessages(sessionId, [userMessage, assistantMessage], context);
+    console.log('Session saved:', sessionId);
+  } catch (error) {
+    console.error('Error saving session:', error);
+  }
+}
+
+/**
+ * Ask the advisor to pick a client when a typed name matched several
+ */
+function buildClientDisambiguationReply(resolution: ClientNameResolution): string {
+  const card = buildCardMarker('client-list', {
+    title: `Clients matching "${resolution.query}"`,
+    clients: resolution.candidates.map((candidate) => candidate.client),
+  });
+  return `I found ${resolution.candidates.length} clients matching "${resolution.query}". Which one did you mean?\n\n${card}`;
+}
+
+/**
+ * Reply for a task action the state machine or the caller's permissions refused, so the model
+ * never confirms it. Other failures fall through to the LLM as before.
+ */
+function describeRefusedAction(error: unknown): string | undefined {
+  const refused =
+    error instanceof InvalidTransitionError ||
+    error instanceof PermissionDeniedError ||
+    error instanceof AccessDeniedError;
+  return refused ? `I couldn't do that: ${error.message}.` : undefined;
+}
+
+/**
+ * The gathered records card validation matches the model's cards against
+ */
+function cardDataContext(dataContext: GatheredData): CardDataContext {
+  return dataContext.records as CardDataContext;
+}
+
+/**
+ * Reply for when the LLM couldn't be reached, with cards for the data gathered for the message
+ */
+function buildDegradedReply(dataContext: GatheredData): string {
+  const cards = buildDataCards(dataContext.records, dataContext.cardTitles);
+  if (cards.length === 0) {
+    return 'I can\'t reach the assistant service right now. Please try again in a moment.';
+  }
+  return `I can't reach the assistant service right now, so here is what I found for you.\n\n${formatCardMarkers(cards)}`;
+}
+
+/**
+ * Run every step that happens before the LLM call
+ */
+export async function prepareChat(
+  message: string,
+  requestContext?: ChatContext,
+  requestSessionId?: string,
+  options?: PrepareChatOptions
+): Promise<PreparedChat> {
+  console.log('prepareChat - Starting chat processing');
+  console.log('Message length:', message.length);
+  console.log('Context fields:', requestContext ? Object.keys(requestContext).join(', ') : '(none)');
+
+  // Step 0: Resume the session (stored focus + recent messages)
+  const sessionId = requestSessionId || generateSessionId();
+  const redactor = createPiiRedactor();
+  const userMessage = createMessage('user', message);
+  const context = requestSessionId
+    ? await loadSessionContext(sessionId, requestContext)
+    : { ...requestContext, session_id: sessionId };
+  console.log('Session ID:', sessionId, 'resumed:', Boolean(requestSessionId));
+
+  // Step 1: Classify intent
+  console.log('Step 1: Classifying intent...');
+  const intentResult = await classifyIntentWithLLM(message, context, redactor);
+  console.log('Intent:', intentResult.intent, 'Confidence:', intentResult.confidence, 'Source:', intentResult.source);
+  console.log('Entities:', JSON.stringify(intentResult.entities));
+
+  // Step 2: Resolve context references ("it", "that", etc.)
+  console.log('Step 2: Resolving context references...');
+  const resolvedContext = resolveContextReferences(message, context);
+  console.log('Resolved context:', JSON.stringify(resolvedContext));
+
+  // Step 3: Gather relevant data based on intent
+  console.log('Step 3: Gathering data for intent...');
+  let dataContext = await gatherDataForIntent(
+    intentResult.intent,
+    intentResult.entities,
+    context,
+    resolvedContext,
+    redactor
+  );
+  console.log('Data context gathered, focused IDs:', {
+    task: dataContext.focusedTaskId,
+    client: dataContext.focusedClientId,
+    policy: dataContext.focusedPolicyId
+  });
+
+  // Step 4: Handle action intents (approve, reject, complete, create)
+  console.log('Step 4: Handling action intents...');
+  let tasksUpdated = false;
+  let actionReply: string | undefined;
+  if (intentResult.intent === 'create_task' && !dataContext.clientDisambiguation) {
+    console.log('Creating task from message');
+    try {
+      const created = await createTaskFromChat(message, intentResult.entities, dataContext.focusedClientId);
+      actionReply = created.reply;
+      if (created.task) {
+        tasksUpdated = true;
+        dataContext = { ...dataContext, focusedTaskId: created.task.task_id };
+        console.log('Task created successfully:', created.task.task_id);
+      }
+    } catch (error) {
+      console.error('Error creating task:', error);
+      actionReply =
+        describeRefusedAction(error) ?? 'I couldn\'t create that task just now. Please try again in a moment.';
+    }
+  } else if (intentResult.intent === 'approve_task' && resolvedContext.task_id) {
+    console.log('Approving task:', resolvedContext.task_id);
+    try {
+      await approveTask(resolvedContext.task_id);
+      tasksUpdated = true;
+      console.log('Task approved successfully');
+    } catch (error) {
+      console.error('Error approving task:', error);
+      actionReply = describeRefusedAction(error);
+    }
+  } else if (intentResult.intent === 'reject_task' && resolvedContext.task_id) {
+    console.log('Rejecting task:', resolvedContext.task_id);
+    try {
+      await rejectTask(resolvedContext.task_id);
+      tasksUpdated = true;
+      console.log('Task rejected successfully');
+    } catch (error) {
+      console.error('Error rejecting task:', error);
+      actionReply = describeRefusedAction(error);
+    }
+  } else if (intentResult.intent === 'complete_task' && resolvedContext.task_id) {
+    console.log('Completing task:', resolvedContext.task_id);
+    try {
+      await completeTask(resolvedContext.task_id);
+      tasksUpdated = true;
+      console.log('Task completed successfully');
+    } catch (error) {
+      console.error('Error completing task:', error);
+      actionReply = describeRefusedAction(error);
+    }
+  }
+
+  // Step 5: Build the list cards, then the prompt that offers them by ID
+  console.log('Step 5: Building cards and prompts...');
+  const cards = createCardRegistry();
+  for (const card of buildListCards(dataContext.records, dataContext.cardTitles)) {
+    cards.register(card);
+  }
+  const toolsEnabled = Boolean(options?.tools);
+  const systemPrompt =
+    buildSystemPrompt({ tools: toolsEnabled, redacted: redactor.enabled }) +
+    buildPromptWithIntent(intentResult.intent, dataContext.formattedData, cards.describe() || undefined);
+  console.log('Prompts built, system prompt length:', systemPrompt.length, 'cards:', cards.size);
+
+  // Step 6: Bound the prior turns sent with the prompt
+  const historyWindow = buildConversationWindow(context.conversation_history);
+  console.log('History window:', {
+    included: historyWindow.includedCount,
+    summarised: historyWindow.summarisedCount,
+    estimatedTokens: historyWindow.estimatedTokens,
+  });
+
+  // Step 6b: Replace personal details in what's sent; the data context already was
+  const history = historyWindow.messages.map((turn) => ({ ...turn, content: redactor.redactText(turn.content) }));
+  const promptMessage = redactor.redactText(message);
+
+  return {
+    sessionId,
+    message,
+    userMessage,
+    context,
+    intentResult,
+    dataContext,
+    tasksUpdated,
+    systemPrompt,
+    history,
+    promptMessage,
+    redactor,
+    cards,
+    toolsEnabled,
+    directReply: dataContext.clientDisambiguation
+      ? buildClientDisambiguationReply(dataContext.clientDisambiguation)
+      : actionReply,
+  };
+}
+
+/**
+ * Run every step that happens after the LLM call
+ */
+export async function finalizeChat(
+  prepared: PreparedChat,
+  llmResponse: string,
+  toolCalls?: ToolCallRecord[],
+  llmError?: LLMError
+): Promise<ChatResponse> {
+  const { sessionId, context, intentResult, dataContext, redactor } = prepared;
+
+  // Step 7: Put the referenced cards in place and parse the response for cards,
+  // then put back the details the prompt had replaced
+  console.log('Step 7: Parsing response for cards...');
+  const expandedResponse = expandCardReferences(llmResponse, (id) => prepared.cards.get(id));
+  const parsedResponse = parseContent(expandedResponse, cardDataContext(dataContext));
+  console.log('Cards found:', parsedResponse.cards.length);
+  const content = redactor.rehydrateText(expandedResponse);
+  const parsedCards = parsedResponse.cards.map((card) => redactor.rehydrate(card));
+  const warnings: CardWarning[] = parsedResponse.warnings.map((warning) => redactor.rehydrate(warning));
+  if (warnings.length > 0) {
+    console.warn('Cards dropped:', JSON.stringify(warnings));
+  }
+
+  // Step 8: Build the updated context
+  console.log('Step 8: Building updated context...');
+  const updatedContext: ChatContext = {
+    ...context,
+    session_id: sessionId,
+    last_intent: intentResult.intent,
+    focused_task_id: dataContext.focusedTaskId || context?.focused_task_id,
+    focused_client_id: dataContext.focusedClientId || context?.focused_client_id,
+    focused_policy_id: dataContext.focusedPolicyId || context?.focused_policy_id,
+    conversation_history: undefined,
+  };
+
+  // Step 9: Persist the exchange
+  console.log('Step 9: Saving session...');
+  const cards = parsedCards.length > 0 ? parsedCards : undefined;
+  await saveExchange(
+    sessionId,
+    prepared.userMessage,
+    createMessage('assistant', content, cards),
+    updatedContext
+  );
+
+  console.log('finalizeChat - Completed successfully');
+  console.log('Updated context:', JSON.stringify(updatedContext));
+  return {
+    content,
+    cards,
+    context: updatedContext,
+    tasks_updated: prepared.tasksUpdated || undefined,
+    tools_used: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
+    degraded: llmError ? true : undefined,
+    error: llmError?.name,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+/**
+ * Process a chat message and generate a response
+ */
+export async function processChat(
+  message: string,
+  requestContext?: ChatContext,
+  requestSessionId?: string
+): Promise<ChatResponse> {
+  const prepared = await prepareChat(message, requestContext, requestSessionId, {
+    tools: isToolCallingEnabled(),
+  });
+
+  if (prepared.directReply) {
+    console.log('Replying without LLM');
+    return finalizeChat(prepared, prepared.directReply);
+  }
+
+  try {
+    if (!prepared.toolsEnabled) {
+      console.log('Calling LLM...');
+      const llmResponse = await callLLM(prepared.systemPrompt, prepared.promptMessage, prepared.history);
+      console.log('LLM response received, length:', llmResponse.length);
+      return await finalizeChat(prepared, llmResponse);
+    }
+
+    console.log('Calling LLM with tools...');
+    const result = await runToolLoop(
+      [
+        { role: 'system', content: prepared.systemPrompt },
+        ...prepared.history,
+        { role: 'user', content: prepared.promptMessage },
+      ],
+      prepared.redactor,
+      prepared.cards
+    );
+    console.log('LLM response received, length:', result.content.length, 'rounds:', result.rounds, 'tool calls:', result.toolCalls.length);
+
+    return await finalizeChat(prepared, result.content, result.toolCalls);
+  } catch (error) {
+    if (!(error instanceof LLMError)) {
+      throw error;
+    }
+    // Retries and the fallback are used up; answer with the data instead of failing the request
+    console.error('LLM unavailable, replying with data cards only:', error.message);
+    return finalizeChat(prepared, buildDegradedReply(prepared.dataContext), undefined, error);
+  }
+}
+
+/**
+ * Process a chat message, emitting tokens and cards as they arrive.
+ * Card marker text is withheld from token events and sent as card events instead.
+ * Tools are not offered here; the reply relies on the intent-based data only.
+ */
+export async function streamChat(
+  message: string,
+  emit: (event: ChatStreamEvent) => void,
+  requestContext?: ChatContext,
+  requestSessionId?: string
+): Promise<ChatResponse> {
+  const prepared = await prepareChat(message, requestContext, requestSessionId);
+  const cardParser = createCardStreamParser(
+    (id) => prepared.cards.get(id),
+    cardDataContext(prepared.dataContext)
+  );
+  const rehydrator = prepared.redactor.createStreamRehydrator();
+
+  const emitText = (text: string) => {
+    if (text) {
+      emit({ type: 'token', text });
+    }
+  };
+  const forward = (segments: ReturnType<typeof cardParser.push>) => {
+    for (const segment of segments) {
+      if (segment.type === 'text') {
+        emitText(rehydrator.push(segment.content));
+      } else if (segment.card) {
+        emitText(rehydrator.flush());
+        emit({ type: 'card', card: prepared.redactor.rehydrate(segment.card) });
+      }
+    }
+  };
+
+  let llmResponse: string;
+  let llmError: LLMError | undefined;
+  if (prepared.directReply) {
+    console.log('Replying without LLM');
+    llmResponse = prepared.directReply;
+    forward(cardParser.push(llmResponse));
+  } else {
+    console.log('Streaming LLM response...');
+    let streamed = '';
+    try {
+      llmResponse = await streamLLM(
+        prepared.systemPrompt,
+        prepared.promptMessage,
+        (delta) => {
+          streamed += delta;
+          forward(cardParser.push(delta));
+        },
+        prepared.history
+      );
+    } catch (error) {
+      if (!(error instanceof LLMError)) {
+        throw error;
+      }
+      // Keep whatever was already streamed and follow it with the data cards
+      console.error('LLM unavailable, replying with data cards only:', error.message);
+      llmError = error;
+      const degradedReply = (streamed ? '\n\n' : '') + buildDegradedReply(prepared.dataContext);
+      forward(cardParser.push(degradedReply));
+      llmResponse = streamed + degradedReply;
+    }
+  }
+  forward(cardParser.flush());
+  emitText(rehydrator.flush());
+  console.log('LLM stream finished, length:', llmResponse.length);
+
+  const response = await finalizeChat(prepared, llmResponse, undefined, llmError);
+  emit({ type: 'done', response });
+  return response;
+}
@@ -0,0 +1,139 @@
+/**
+ * Chat Task Creation
+ * Creates the task described in a create_task message
+ * ("remind me to call Dylan Jackson next Tuesday about his renewal")
+ */
+
+import type { ExtractedEntities, Policy, Task, TaskPriority } from '../../types';
+import { buildCardMarker } from '../ai';
+import { createTask, getClientById, getPoliciesForClient } from '../db';
+import { parseDueDate } from '../utils';
+
+/**
+ * Outcome of a create_task turn. task is unset when nothing was created.
+ */
+export interface ChatTaskCreation {
+  task?: Task;
+  reply: string;
+}
+
+// Due when the message names no date
+const DEFAULT_DUE_PHRASE = 'tomorrow';
+
+// First matching verb decides the task_type, using the values already in the task data
+const TASK_TYPE_PATTERNS: [RegExp, string][] = [
+  [/^(?:call|phone|ring)\b/i, 'call'],
+  [/^(?:email|e-mail|text|send|write|mail)\b/i, 'communication'],
+  [/^(?:meet|schedule\s+a\s+meeting)\b/i, 'meeting'],
+  [/^review\b/i, 'review'],
+  [/^prepare\b|^prep\b/i, 'preparation'],
+];
+
+function detectPriority(message: string): TaskPriority {
+  if (/\b(?:urgent(?:ly)?|asap|high[\s-]*priority|important)\b/i.test(message)) {
+    return 'high';
+  }
+  if (/\blow[\s-]*priority\b/i.test(message)) {
+    return 'low';
+  }
+  return 'medium';
+}
+
+function detectTaskType(title: string): string | undefined {
+  return TASK_TYPE_PATTERNS.find(([pattern]) => pattern.test(title))?.[1];
+}
+
+/**
+ * Pick the client's policy the task is about, only when the message makes it unambiguous:
+ * a policy number, a policy type held once, or a renewal (the next active policy to renew).
+ */
+function choosePolicy(message: string, entities: ExtractedEntities, policies: Policy[]): Policy | undefined {
+  if (entities.policy_number) {
+    const number = entities.policy_number.toLowerCase();
+    return policies.find((p) => p.policy_number.toLowerCase() === number);
+  }
+
+  if (entities.policy_type) {
+    const ofType = policies.filter((p) => p.policy_type === entities.policy_type);
+    return ofType.length === 1 ? ofType[0] : undefined;
+  }
+
+  if (/\brenew(?:al|als|ing)?\b/i.test(message)) {
+    const now = Date.now();
+    return policies
+      .filter((p) => p.policy_status === 'Active' && p.renewal_date && new Date(p.renewal_date).getTime() >= now)
+      .sort((a, b) => new Date(a.renewal_date!).getTime() - new Date(b.renewal_date!).getTime())[0];
+  }
+
+  const active = policies.filter((p) => p.policy_status === 'Active');
+  return /\bpolicy\b/i.test(message) && active.length === 1 ? active[0] : undefined;
+}
+
+function formatDue(date: Date): string {
+  return date.toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Create the task described by the message and build the reply with its task card
+ */
+export async function createTaskFromChat(
+  message: string,
+  entities: ExtractedEntities,
+  clientId?: string
+): Promise<ChatTaskCreation> {
+  console.log('createTaskFromChat - entities:', JSON.stringify(entities), 'client:', clientId);
+
+  if (!entities.task_title) {
+    return {
+      reply: 'What should the task be? For example: "Remind me to call Dylan Jackson next Tuesday about his renewal."',
+    };
+  }
+
+  const parsedDue = entities.date ? parseDueDate(entities.date) : null;
+  const due = parsedDue || parseDueDate(DEFAULT_DUE_PHRASE)!;
+
+  const client = clientId ? await getClientById(clientId) : null;
+  const policy = client
+    ? choosePolicy(message, entities, await getPoliciesForClient(client.client_id))
+    : undefined;
+
+  const task = await createTask({
+    title: entities.task_title,
+    description: message,
+    status: 'pending',
+    due_date: due.toISOString(),
+    priority: detectPriority(message),
+    tags: [],
+    task_type: detectTaskType(entities.task_title),
+    client_id: client?.client_id,
+    client_name: client ? `${client.first_name} ${client.last_name}` : undefined,
+    policy_id: policy?.policy_id,
+    ai_completed: false,
+  });
+  console.log('Task created from chat:', task.task_id, 'client:', task.client_id, 'policy:', task.policy_id);
+
+  const links = [
+    task.client_name && `linked to ${task.client_name}`,
+    policy && `policy ${policy.policy_number}`,
+  ].filter(Boolean);
+  const notes = [
+    !parsedDue && 'You didn\'t mention a date, so I set it for tomorrow morning.',
+    entities.client_name && !client && `I couldn't find a client named "${entities.client_name}", so it isn't linked to a client.`,
+  ].filter(Boolean);
+
+  const reply = [
+    `Done. I've added "${task.title}", due ${formatDue(due)}${links.length > 0 ? `, ${links.join(' and ')}` : ''}.`,
+    ...notes,
+  ].join(' ');
+
+  return {
+    task,
+    reply: `${reply}\n\n${buildCardMarker('task', { task })}`,
+  };
+}
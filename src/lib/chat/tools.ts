@@ -0,0 +1,446 @@
+/**
+ * Chat Tools
+ * Exposes the data layer to the model as callable tools, and runs the
+ * call → execute → reply loop with a cap on rounds.
+ */
+
+import type {
+  Card,
+  Client,
+  ClientFilters,
+  ClientSummary,
+  Policy,
+  PolicyFilters,
+  PolicySummary,
+  TaskFilters,
+  TaskSummary,
+  ToolCallRecord,
+} from '../../types';
+import {
+  callLLMWithTools,
+  type LLMMessage,
+  type LLMToolCall,
+  type LLMToolDefinition,
+  type PiiRedactor,
+} from '../ai';
+import {
+  getTaskSummaries,
+  getTaskById,
+  getClientSummaries,
+  getClientById,
+  searchClients,
+  resolveClientName,
+  getPolicySummaries,
+  getPolicyById,
+  getExpiringPolicies,
+  getOverduePolicies,
+  globalSearch,
+  groupSearchHits,
+  MAX_SEARCH_LIMIT,
+  getDashboardMetrics,
+  getTodaySummary,
+  getWeeklySummary,
+  toClientSummary,
+  toPolicySummary,
+} from '../db';
+import { clientListCard, policyListCard, taskListCard, type CardRegistry } from './cards';
+
+const DEFAULT_MAX_TOOL_ROUNDS = 3;
+// Keep tool results small enough to fit comfortably in the prompt
+const MAX_RESULT_ITEMS = 25;
+
+/**
+ * A data-layer function the model can call
+ */
+export interface ChatTool<TArgs = Record<string, unknown>, TResult = unknown> {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, Record<string, unknown>>;
+    required?: string[];
+  };
+  execute: (args: TArgs) => Promise<TResult>;
+  // Card for the result, built here so the model only places it by its card_id
+  card?: (result: TResult, args: TArgs) => Card | undefined;
+}
+
+/**
+ * Result of running the tool loop
+ */
+export interface ToolLoopResult {
+  content: string;
+  toolCalls: ToolCallRecord[];
+  rounds: number;
+}
+
+function defineTool<TArgs, TResult = unknown>(tool: ChatTool<TArgs, TResult>): ChatTool {
+  return tool as unknown as ChatTool;
+}
+
+/**
+ * A list result trimmed to fit the prompt
+ */
+interface ListResult<T> {
+  total: number;
+  items: T[];
+  truncated: boolean;
+}
+
+/**
+ * Trim list results and report the full count
+ */
+function limitList<T>(items: T[]): ListResult<T> {
+  return {
+    total: items.length,
+    items: items.slice(0, MAX_RESULT_ITEMS),
+    truncated: items.length > MAX_RESULT_ITEMS,
+  };
+}
+
+/**
+ * Card for a list result, when it has anything to show
+ */
+function listResultCard<T>(result: ListResult<T>, build: (items: T[]) => Card): Card | undefined {
+  return result.items.length > 0 ? build(result.items) : undefined;
+}
+
+const TASK_STATUSES = ['pending', 'in-progress', 'completed', 'needs-review'];
+const TASK_PRIORITIES = ['low', 'medium', 'high'];
+const CLIENT_STATUSES = ['Active', 'Inactive', 'Prospect', 'Dormant'];
+const CLIENT_SEGMENTS = ['Retail', 'Mass Affluent', 'High Net Worth'];
+const POLICY_STATUSES = ['Active', 'Pending', 'Expired', 'Cancelled', 'Lapsed', 'Suspended'];
+const PAYMENT_STATUSES = ['Current', 'Overdue', 'Paid', 'Pending'];
+
+/**
+ * All tools available to the chat model
+ */
+export const CHAT_TOOLS: ChatTool[] = [
+  defineTool<TaskFilters, ListResult<TaskSummary>>({
+    name: 'get_tasks',
+    description: 'List tasks (summaries), sorted by due date. All filters are optional.',
+    parameters: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: TASK_STATUSES },
+        priority: { type: 'string', enum: TASK_PRIORITIES },
+        due_date: { type: 'string', enum: ['today', 'week', 'overdue', 'upcoming'] },
+        client_id: { type: 'string' },
+        ai_completed: { type: 'boolean' },
+      },
+    },
+    execute: async (args) => limitList(await getTaskSummaries(args)),
+    card: (result) => listResultCard(result, (tasks) => taskListCard('Tasks', tasks)),
+  }),
+  defineTool<{ task_id: string }>({
+    name: 'get_task',
+    description: 'Get full details of one task, including AI-generated content.',
+    parameters: {
+      type: 'object',
+      properties: { task_id: { type: 'string' } },
+      required: ['task_id'],
+    },
+    execute: async (args) => (await getTaskById(args.task_id)) ?? { error: 'Task not found' },
+  }),
+  defineTool<ClientFilters, ListResult<ClientSummary>>({
+    name: 'get_clients',
+    description: 'List clients (summaries). Filter by status, segment, type or risk profile. Use search_clients to find a client by name.',
+    parameters: {
+      type: 'object',
+      properties: {
+        client_type: { type: 'string', enum: ['Individual', 'Corporate', 'Trust', 'Other'] },
+        client_status: { type: 'string', enum: CLIENT_STATUSES },
+        client_segment: { type: 'string', enum: CLIENT_SEGMENTS },
+        risk_profile: { type: 'string', enum: ['conservative', 'moderate', 'aggressive'] },
+      },
+    },
+    execute: async (args) => limitList(await getClientSummaries(args)),
+    card: (result) => listResultCard(result, (clients) => clientListCard('Clients', clients)),
+  }),
+  defineTool<{ client_id: string }>({
+    name: 'get_client',
+    description: 'Get the full profile of one client by ID.',
+    parameters: {
+      type: 'object',
+      properties: { client_id: { type: 'string' } },
+      required: ['client_id'],
+    },
+    execute: async (args) => (await getClientById(args.client_id)) ?? { error: 'Client not found' },
+  }),
+  defineTool<{ query: string }, ListResult<Client>>({
+    name: 'search_clients',
+    description: 'Search clients by name, email or phone number.',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      required: ['query'],
+    },
+    execute: async (args) => limitList(await searchClients(args.query)),
+    card: (result, args) =>
+      listResultCard(result, (clients) =>
+        clientListCard(`Clients matching "${args.query}"`, clients.map(toClientSummary))
+      ),
+  }),
+  defineTool<{ name: string }>({
+    name: 'resolve_client_name',
+    description: 'Match a typed client name (nicknames, typos and accents allowed) to ranked candidate clients. status is ambiguous when several clients fit.',
+    parameters: {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+    },
+    execute: async (args) => {
+      const resolution = await resolveClientName(args.name);
+      return { status: resolution.status, candidates: resolution.candidates };
+    },
+  }),
+  defineTool<PolicyFilters, ListResult<PolicySummary>>({
+    name: 'get_policies',
+    description: 'List policies (summaries). Use client_id for one client\'s policies.',
+    parameters: {
+      type: 'object',
+      properties: {
+        client_id: { type: 'string' },
+        policy_type: { type: 'string' },
+        policy_status: { type: 'string', enum: POLICY_STATUSES },
+        payment_status: { type: 'string', enum: PAYMENT_STATUSES },
+        renewal_due: { type: 'boolean', description: 'Only policies renewing within 30 days' },
+      },
+    },
+    execute: async (args) => limitList(await getPolicySummaries(args)),
+    card: (result) => listResultCard(result, (policies) => policyListCard('Policies', policies)),
+  }),
+  defineTool<{ policy_id: string }>({
+    name: 'get_policy',
+    description: 'Get full details of one policy by ID.',
+    parameters: {
+      type: 'object',
+      properties: { policy_id: { type: 'string' } },
+      required: ['policy_id'],
+    },
+    execute: async (args) => (await getPolicyById(args.policy_id)) ?? { error: 'Policy not found' },
+  }),
+  defineTool<Record<string, never>, ListResult<Policy>>({
+    name: 'get_expiring_policies',
+    description: 'Policies with a renewal date in the next 30 days.',
+    parameters: { type: 'object', properties: {} },
+    execute: async () => limitList(await getExpiringPolicies()),
+    card: (result) =>
+      listResultCard(result, (policies) => policyListCard('Expiring Policies', policies.map(toPolicySummary))),
+  }),
+  defineTool<Record<string, never>, ListResult<Policy>>({
+    name: 'get_overdue_policies',
+    description: 'Policies whose premium payment is overdue.',
+    parameters: { type: 'object', properties: {} },
+    execute: async () => limitList(await getOverduePolicies()),
+    card: (result) =>
+      listResultCard(result, (policies) => policyListCard('Overdue Policies', policies.map(toPolicySummary))),
+  }),
+  defineTool<{ query: string }>({
+    name: 'global_search',
+    description: 'Search tasks, clients and policies at once by keyword, best matches first.',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      required: ['query'],
+    },
+    execute: async (args) => {
+      const results = groupSearchHits((await globalSearch(args.query, { limit: MAX_SEARCH_LIMIT })).hits);
+      return {
+        tasks: limitList(results.tasks),
+        clients: limitList(results.clients),
+        policies: limitList(results.policies),
+      };
+    },
+  }),
+  defineTool<Record<string, never>>({
+    name: 'get_dashboard_metrics',
+    description: 'Counts of tasks, clients and policies plus total assets under management.',
+    parameters: { type: 'object', properties: {} },
+    execute: async () => getDashboardMetrics(),
+  }),
+  defineTool<Record<string, never>>({
+    name: 'get_today_summary',
+    description: 'Tasks due today, overdue count, pending reviews and expiring policies.',
+    parameters: { type: 'object', properties: {} },
+    execute: async () => getTodaySummary(),
+  }),
+  defineTool<Record<string, never>>({
+    name: 'get_weekly_summary',
+    description: 'Tasks this week, completed this week, new clients and renewals due.',
+    parameters: { type: 'object', properties: {} },
+    execute: async () => getWeeklySummary(),
+  }),
+];
+
+const TOOLS_BY_NAME = new Map(CHAT_TOOLS.map((tool) => [tool.name, tool]));
+
+/**
+ * Tool definitions in the format sent to the LLM
+ */
+export function getToolDefinitions(): LLMToolDefinition[] {
+  return CHAT_TOOLS.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * Whether tool calling is turned on for this deployment
+ */
+export function isToolCallingEnabled(): boolean {
+  return process.env.LLM_TOOLS_ENABLED !== 'false';
+}
+
+function getMaxToolRounds(): number {
+  const raw = process.env.LLM_MAX_TOOL_ROUNDS;
+  if (!raw) {
+    return DEFAULT_MAX_TOOL_ROUNDS;
+  }
+  const parsed = Number(raw);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_MAX_TOOL_ROUNDS;
+}
+
+/**
+ * Check arguments against the tool's schema: required keys, primitive types and enums.
+ * Unknown keys are dropped so they never reach the data layer.
+ */
+function validateToolArgs(
+  tool: ChatTool,
+  args: Record<string, unknown>
+): { valid: true; args: Record<string, unknown> } | { valid: false; error: string } {
+  const cleaned: Record<string, unknown> = {};
+
+  for (const field of tool.parameters.required || []) {
+    if (args[field] === undefined || args[field] === null || args[field] === '') {
+      return { valid: false, error: `Missing required argument: ${field}` };
+    }
+  }
+
+  for (const [key, schema] of Object.entries(tool.parameters.properties)) {
+    const value = args[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (schema.type && typeof value !== schema.type) {
+      return { valid: false, error: `Argument ${key} must be a ${schema.type}` };
+    }
+    const allowed = schema.enum as unknown[] | undefined;
+    if (allowed && !allowed.includes(value)) {
+      return { valid: false, error: `Argument ${key} must be one of: ${allowed.join(', ')}` };
+    }
+    cleaned[key] = value;
+  }
+
+  return { valid: true, args: cleaned };
+}
+
+/**
+ * Execute one tool call and return the JSON the model will see.
+ * With a redactor, placeholders in the arguments are filled in and personal details in the
+ * result are replaced. With a card registry, list results get a card_id for the model to place.
+ */
+async function executeToolCall(
+  call: LLMToolCall,
+  round: number,
+  redactor?: PiiRedactor,
+  cards?: CardRegistry
+): Promise<{ output: string; record: ToolCallRecord }> {
+  const startTime = Date.now();
+  const record: ToolCallRecord = {
+    name: call.function.name,
+    arguments: {},
+    round,
+    success: false,
+    duration_ms: 0,
+  };
+
+  const finish = (result: unknown) => {
+    record.duration_ms = Date.now() - startTime;
+    return { output: JSON.stringify(redactor ? redactor.redact(result) : result), record };
+  };
+
+  const tool = TOOLS_BY_NAME.get(call.function.name);
+  if (!tool) {
+    record.error = 'Unknown tool';
+    return finish({ error: `Unknown tool: ${call.function.name}` });
+  }
+
+  let parsedArgs: Record<string, unknown>;
+  try {
+    parsedArgs = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    parsedArgs = redactor ? redactor.rehydrate(parsedArgs) : parsedArgs;
+  } catch {
+    record.error = 'Invalid JSON arguments';
+    return finish({ error: 'Arguments must be valid JSON' });
+  }
+  record.arguments = parsedArgs;
+
+  const validation = validateToolArgs(tool, parsedArgs);
+  if (!validation.valid) {
+    record.error = validation.error;
+    return finish({ error: validation.error });
+  }
+
+  try {
+    const result = await tool.execute(validation.args);
+    record.success = true;
+    const card = cards && tool.card?.(result, validation.args);
+    return finish(card ? { card_id: cards.register(card), ...(result as object) } : result);
+  } catch (error) {
+    console.error(`Tool ${tool.name} failed:`, error);
+    record.error = error instanceof Error ? error.message : 'Tool failed';
+    return finish({ error: record.error });
+  }
+}
+
+/**
+ * Let the model call tools until it answers or the round cap is reached.
+ * When the cap is hit, one last call is made with tools disabled so the
+ * model has to answer with what it has.
+ */
+export async function runToolLoop(
+  messages: LLMMessage[],
+  redactor?: PiiRedactor,
+  cards?: CardRegistry,
+  maxRounds = getMaxToolRounds()
+): Promise<ToolLoopResult> {
+  const conversation = [...messages];
+  const toolCalls: ToolCallRecord[] = [];
+  const tools = getToolDefinitions();
+
+  for (let round = 1; round <= maxRounds; round++) {
+    const response = await callLLMWithTools(conversation, tools);
+
+    if (response.toolCalls.length === 0) {
+      return { content: response.content, toolCalls, rounds: round };
+    }
+
+    console.log(`Tool round ${round}:`, response.toolCalls.map((c) => c.function.name).join(', '));
+    conversation.push({
+      role: 'assistant',
+      content: response.content,
+      tool_calls: response.toolCalls,
+    });
+
+    const results = await Promise.all(
+      response.toolCalls.map((call) => executeToolCall(call, round, redactor, cards))
+    );
+    results.forEach(({ output, record }, index) => {
+      toolCalls.push(record);
+      conversation.push({
+        role: 'tool',
+        tool_call_id: response.toolCalls[index].id,
+        content: output,
+      });
+    });
+  }
+
+  console.log('Tool round cap reached, requesting final answer');
+  const final = await callLLMWithTools(conversation, tools, { toolChoice: 'none' });
+  return { content: final.content, toolCalls, rounds: maxRounds + 1 };
+}
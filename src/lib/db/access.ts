@@ -0,0 +1,152 @@
+/**
+ * Data Access Scope
+ * Who the current request acts for, and which part of the book they can see.
+ *
+ * Handlers run inside runWithAccess (lib/auth/middleware.ts), and the entity operations read the
+ * identity from here, so the chat pipeline and its tools are scoped without passing it through
+ * every call. Advisors see the clients they manage, those clients' policies and tasks, and tasks
+ * assigned to them. Roles with records:all (admin, compliance) see everything.
+ * Outside runWithAccess nothing can be read.
+ *
+ * Records are redacted here as they're read (see lib/auth/permissions.ts): writes load the
+ * stored record unredacted, so a change never drops a field its author couldn't see.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  hasPermission,
+  checkPermission,
+  redactSensitiveFields,
+  checkSensitiveFieldWrites,
+  type SensitiveEntity,
+} from '../auth/permissions';
+import { queryIndex } from './dynamodb';
+import { advisorPartition, ADVISOR_CLIENT_PREFIX } from './index-keys';
+import type {
+  AdvisorIdentity,
+  AuditSource,
+  Client,
+  ClientRecord,
+  Permission,
+  Policy,
+  Task,
+} from '../../types';
+
+/**
+ * IDs of the clients an advisor manages; null when they can see every client
+ */
+export type AdvisorBook = Set<string> | null;
+
+interface AccessScope {
+  identity: AdvisorIdentity;
+  // Where the request's changes come from, for the audit trail
+  source: AuditSource;
+  // Loaded on first use and kept for the rest of the request
+  book?: Promise<AdvisorBook>;
+}
+
+const accessStorage = new AsyncLocalStorage<AccessScope>();
+
+/**
+ * Run a request's work as an advisor
+ */
+export function runWithAccess<T>(
+  identity: AdvisorIdentity,
+  fn: () => Promise<T>,
+  source: AuditSource = 'rest'
+): Promise<T> {
+  return accessStorage.run({ identity, source }, fn);
+}
+
+function getAccessScope(): AccessScope {
+  const scope = accessStorage.getStore();
+  if (!scope) {
+    throw new Error('No advisor identity in scope: data access must run inside runWithAccess');
+  }
+  return scope;
+}
+
+/**
+ * The advisor the current request acts for
+ */
+export function getAccessIdentity(): AdvisorIdentity {
+  return getAccessScope().identity;
+}
+
+/**
+ * Where the current request's changes come from
+ */
+export function getAccessSource(): AuditSource {
+  return getAccessScope().source;
+}
+
+/**
+ * Whether the caller sees every advisor's book
+ */
+export function canAccessAllRecords(): boolean {
+  return hasPermission(getAccessIdentity(), 'records:all');
+}
+
+/**
+ * Throw PermissionDeniedError unless the caller has the permission
+ */
+export function requirePermission(permission: Permission): void {
+  checkPermission(getAccessIdentity(), permission);
+}
+
+/**
+ * A record as the caller may see it, without the sensitive fields they lack permission for
+ */
+export function redactForAccess<T extends object>(entity: SensitiveEntity, record: T): T {
+  return redactSensitiveFields(entity, record, getAccessIdentity());
+}
+
+/**
+ * Throw PermissionDeniedError if a change sets a sensitive field the caller may not touch
+ */
+export function requireFieldWriteAccess(entity: SensitiveEntity, changes: object): void {
+  checkSensitiveFieldWrites(entity, changes, getAccessIdentity());
+}
+
+/**
+ * Client IDs in the current advisor's book, read from their GSI1 partition once per request.
+ * The index lags writes slightly, so single-record checks read the client instead.
+ */
+export function loadAdvisorBook(): Promise<AdvisorBook> {
+  const scope = getAccessScope();
+  if (hasPermission(scope.identity, 'records:all')) {
+    return Promise.resolve(null);
+  }
+  scope.book ??= queryIndex<ClientRecord>({
+    index: 'GSI1',
+    partition: advisorPartition(scope.identity.advisor_id),
+    skPrefix: ADVISOR_CLIENT_PREFIX,
+  }).then((records) => new Set(records.map((record) => record.data.client_id)));
+  return scope.book;
+}
+
+/**
+ * Add a client the current advisor just took on to their book, if it was already loaded,
+ * so the rest of the request sees it before the index does
+ */
+export async function addToAdvisorBook(clientId: string): Promise<void> {
+  const book = await getAccessScope().book;
+  book?.add(clientId);
+}
+
+export function canAccessClient(client: Client): boolean {
+  const identity = getAccessIdentity();
+  return hasPermission(identity, 'records:all') || client.account_manager_id === identity.advisor_id;
+}
+
+export function canAccessPolicy(policy: Policy, book: AdvisorBook): boolean {
+  return book === null || book.has(policy.client_id);
+}
+
+export function canAccessTask(task: Task, book: AdvisorBook): boolean {
+  return (
+    book === null ||
+    task.assigned_to === getAccessIdentity().advisor_id ||
+    (task.client_id !== undefined && book.has(task.client_id))
+  );
+}
@@ -1,11 +1,22 @@
 /**
  * Analytics and Dashboard Metrics
- * Aggregated data for dashboard views and summaries
+ * Aggregated data for dashboard views and summaries, optionally scoped to one advisor
  */
 
 import { getTasks, getTaskCount, getTodaysTasks, getOverdueTasks, getPendingReviewTasks } from './tasks';
-import { getClients, getClientCount } from './clients';
-import { getPolicies, getPolicyCount, getExpiringPolicies } from './policies';
+import { getClients, getClientCount, getClientsCreatedSince } from './clients';
+import { getPolicies } from './policies';
+import type { ClientFilters, Policy, PolicyFilters, TaskFilters } from '../../types';
+
+/**
+ * Narrows metrics to one advisor's book. Unset fields leave that part unscoped.
+ */
+export interface AnalyticsScope {
+  // Clients managed by this advisor, and their policies
+  account_manager_id?: string;
+  // Tasks assigned to this advisor
+  assigned_to?: string;
+}
 
 /**
  * Task metrics interface
@@ -82,15 +93,39 @@ export interface WeeklySummary {
   renewalsDue: number;
 }
 
+function taskScope(scope?: AnalyticsScope): TaskFilters | undefined {
+  return scope?.assigned_to ? { assigned_to: scope.assigned_to } : undefined;
+}
+
+function clientScope(scope?: AnalyticsScope): ClientFilters | undefined {
+  return scope?.account_manager_id ? { account_manager_id: scope.account_manager_id } : undefined;
+}
+
+/**
+ * Get policies, limited to the scoped advisor's clients when account_manager_id is set.
+ * Policies carry no advisor of their own, so they're matched through their client.
+ */
+async function getScopedPolicies(scope?: AnalyticsScope, filters?: PolicyFilters): Promise<Policy[]> {
+  const clientFilters = clientScope(scope);
+  if (!clientFilters) {
+    return getPolicies(filters);
+  }
+
+  const [policies, clients] = await Promise.all([getPolicies(filters), getClients(clientFilters)]);
+  const clientIds = new Set(clients.map((c) => c.client_id));
+  return policies.filter((p) => clientIds.has(p.client_id));
+}
+
 /**
  * Get task-specific metrics
  */
-export async function getTaskMetrics(): Promise<TaskMetrics> {
+export async function getTaskMetrics(scope?: AnalyticsScope): Promise<TaskMetrics> {
+  const filters = taskScope(scope);
   const [counts, todaysTasks, overdueTasks, pendingReviews] = await Promise.all([
-    getTaskCount(),
-    getTodaysTasks(),
-    getOverdueTasks(),
-    getPendingReviewTasks(),
+    getTaskCount(filters),
+    getTodaysTasks(filters),
+    getOverdueTasks(filters),
+    getPendingReviewTasks(filters),
   ]);
 
   return {
@@ -107,8 +142,8 @@ export async function getTaskMetrics(): Promise<TaskMetrics> {
 /**
  * Get client-specific metrics
  */
-export async function getClientMetrics(): Promise<ClientMetrics> {
-  const counts = await getClientCount();
+export async function getClientMetrics(scope?: AnalyticsScope): Promise<ClientMetrics> {
+  const counts = await getClientCount(clientScope(scope));
 
   return {
     total: counts.total,
@@ -125,25 +160,29 @@ export async function getClientMetrics(): Promise<ClientMetrics> {
 /**
  * Get policy-specific metrics
  */
-export async function getPolicyMetrics(): Promise<PolicyMetrics> {
-  const [counts, expiringPolicies] = await Promise.all([
-    getPolicyCount(),
-    getExpiringPolicies(),
+export async function getPolicyMetrics(scope?: AnalyticsScope): Promise<PolicyMetrics> {
+  const [policies, expiringPolicies] = await Promise.all([
+    getScopedPolicies(scope),
+    getScopedPolicies(scope, { renewal_due: true }),
   ]);
+  const byType: Record<string, number> = {};
+  for (const policy of policies) {
+    byType[policy.policy_type] = (byType[policy.policy_type] || 0) + 1;
+  }
 
   return {
-    total: counts.total,
-    active: counts.byStatus['Active'] || 0,
+    total: policies.length,
+    active: policies.filter((p) => p.policy_status === 'Active').length,
     expiringSoon: expiringPolicies.length,
-    byType: counts.byType,
+    byType,
   };
 }
 
 /**
  * Get portfolio metrics (AUM calculations)
  */
-export async function getPortfolioMetrics(): Promise<PortfolioMetrics> {
-  const clients = await getClients();
+export async function getPortfolioMetrics(scope?: AnalyticsScope): Promise<PortfolioMetrics> {
+  const clients = await getClients(clientScope(scope));
 
   const totalAUM = clients.reduce((sum, c) => sum + (c.portfolio_value || 0), 0);
   const clientsWithPortfolio = clients.filter((c) => c.portfolio_value && c.portfolio_value > 0);
@@ -160,12 +199,12 @@ export async function getPortfolioMetrics(): Promise<PortfolioMetrics> {
 /**
  * Get complete dashboard metrics
  */
-export async function getDashboardMetrics(): Promise<DashboardMetrics> {
+export async function getDashboardMetrics(scope?: AnalyticsScope): Promise<DashboardMetrics> {
   const [tasks, clients, policies, portfolio] = await Promise.all([
-    getTaskMetrics(),
-    getClientMetrics(),
-    getPolicyMetrics(),
-    getPortfolioMetrics(),
+    getTaskMetrics(scope),
+    getClientMetrics(scope),
+    getPolicyMetrics(scope),
+    getPortfolioMetrics(scope),
   ]);
 
   return {
@@ -179,12 +218,13 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
 /**
  * Get today's summary
  */
-export async function getTodaySummary(): Promise<TodaySummary> {
+export async function getTodaySummary(scope?: AnalyticsScope): Promise<TodaySummary> {
+  const filters = taskScope(scope);
   const [todaysTasks, overdueTasks, pendingReviews, expiringPolicies] = await Promise.all([
-    getTodaysTasks(),
-    getOverdueTasks(),
-    getPendingReviewTasks(),
-    getExpiringPolicies(),
+    getTodaysTasks(filters),
+    getOverdueTasks(filters),
+    getPendingReviewTasks(filters),
+    getScopedPolicies(scope, { renewal_due: true }),
   ]);
 
   return {
@@ -198,32 +238,27 @@ export async function getTodaySummary(): Promise<TodaySummary> {
 /**
  * Get weekly summary
  */
-export async function getWeeklySummary(): Promise<WeeklySummary> {
-  const [tasks, clients, expiringPolicies] = await Promise.all([
-    getTasks({ due_date: 'week' }),
-    getClients(),
-    getExpiringPolicies(),
-  ]);
-
-  // Calculate tasks completed this week
+export async function getWeeklySummary(scope?: AnalyticsScope): Promise<WeeklySummary> {
   const now = new Date();
   const startOfWeek = new Date(now);
   startOfWeek.setDate(now.getDate() - now.getDay());
   startOfWeek.setHours(0, 0, 0, 0);
 
-  const allTasks = await getTasks();
-  const completedThisWeek = allTasks.filter((t) => {
-    if (t.status !== 'completed' || !t.completed_at) return false;
+  const filters = taskScope(scope);
+  const [tasks, completedTasks, newClients, expiringPolicies] = await Promise.all([
+    getTasks({ ...filters, due_date: 'week' }),
+    getTasks({ ...filters, status: 'completed' }),
+    getClientsCreatedSince(startOfWeek, clientScope(scope)),
+    getScopedPolicies(scope, { renewal_due: true }),
+  ]);
+
+  // Calculate tasks completed this week
+  const completedThisWeek = completedTasks.filter((t) => {
+    if (!t.completed_at) return false;
     const completedDate = new Date(t.completed_at);
     return completedDate >= startOfWeek;
   });
 
-  // Calculate new clients this week
-  const newClients = clients.filter((c) => {
-    const createdDate = new Date(c.created_at);
-    return createdDate >= startOfWeek;
-  });
-
   return {
     tasksThisWeek: tasks.length,
     completedThisWeek: completedThisWeek.length,
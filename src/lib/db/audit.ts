@@ -0,0 +1,126 @@
+/**
+ * Audit Trail
+ * An append-only history of every change to clients, policies and tasks: who made it, in which
+ * role, from where (REST or chat), and the fields it changed, before and after.
+ *
+ * Each entry is written in the same transaction as the change it records, so no change is saved
+ * without one, and only if nothing has its key yet, so an entry is never overwritten.
+ * Nothing updates or deletes them.
+ *   pk AUDIT#<audit_id>, sk ENTRY
+ *   GSI1PK AUDIT#<entity_id>, GSI1SK <timestamp>#<audit_id>
+ *
+ * Chat sessions aren't audited: a session is itself the record of the conversation.
+ */
+
+import { generateId, getCurrentTimestamp, type ItemWrite } from './dynamodb';
+import { auditPartition } from './index-keys';
+import { getAccessIdentity, getAccessSource, requirePermission, redactForAccess } from './access';
+import { paginateIndex } from './pagination';
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  AuditRecord,
+  PaginatedResponse,
+  PaginationParams,
+} from '../../types';
+
+const ENTITY_TYPE = 'AUDIT';
+
+// Bookkeeping every write changes, left out of the diff
+const UNAUDITED_FIELDS = new Set(['updated_at', 'updated_by', 'record_version']);
+
+/**
+ * Build DynamoDB record from an AuditEntry
+ */
+function buildAuditRecord(entry: AuditEntry): AuditRecord {
+  return {
+    pk: `AUDIT#${entry.audit_id}`,
+    sk: 'ENTRY',
+    GSI1PK: auditPartition(entry.entity_id),
+    GSI1SK: `${entry.timestamp}#${entry.audit_id}`,
+    entity_type: ENTITY_TYPE,
+    data: entry,
+  };
+}
+
+/**
+ * Extract an AuditEntry from its record, without the sensitive values the caller may not see
+ */
+function extractAuditEntry(record: AuditRecord): AuditEntry {
+  const entry = record.data;
+  if (entry.entity_type === 'task') {
+    return entry;
+  }
+  return {
+    ...entry,
+    before: entry.before && redactForAccess(entry.entity_type, entry.before),
+    after: redactForAccess(entry.entity_type, entry.after),
+  };
+}
+
+/**
+ * The fields that differ between two versions of a record, with their values in each
+ */
+function diffFields(
+  before: object | null,
+  after: object
+): Pick<AuditEntry, 'changed_fields' | 'before' | 'after'> {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const changed = [...new Set([...Object.keys(previous), ...Object.keys(next)])].filter(
+    (field) => !UNAUDITED_FIELDS.has(field) && JSON.stringify(previous[field]) !== JSON.stringify(next[field])
+  );
+
+  const pick = (values: Record<string, unknown>) =>
+    Object.fromEntries(changed.map((field) => [field, values[field]]));
+  return {
+    changed_fields: changed,
+    before: before ? pick(previous) : undefined,
+    after: pick(next),
+  };
+}
+
+/**
+ * The audit entry for a change by the current caller, as a write for the change's transaction.
+ * before is null for a create.
+ */
+export function auditWrite<T extends object>(
+  entityType: AuditEntityType,
+  entityId: string,
+  action: AuditAction,
+  before: T | null,
+  after: T
+): ItemWrite {
+  const identity = getAccessIdentity();
+  const entry: AuditEntry = {
+    audit_id: generateId('AUD'),
+    entity_type: entityType,
+    entity_id: entityId,
+    action,
+    actor_id: identity.advisor_id,
+    actor_role: identity.role,
+    source: getAccessSource(),
+    timestamp: getCurrentTimestamp(),
+    ...diffFields(before, after),
+  };
+  return {
+    item: buildAuditRecord(entry),
+    condition: { expression: 'attribute_not_exists(pk)' },
+  };
+}
+
+/**
+ * One page of a record's audit trail, oldest change first. Needs audit:read.
+ */
+export async function getAuditTrailPage(
+  entityId: string,
+  page: PaginationParams = {}
+): Promise<PaginatedResponse<AuditEntry>> {
+  requirePermission('audit:read');
+  return paginateIndex<AuditRecord, AuditEntry>(
+    { index: 'GSI1', partition: auditPartition(entityId) },
+    page,
+    extractAuditEntry
+  );
+}
@@ -4,22 +4,52 @@
 
 import {
   getItem,
-  putItem,
-  updateItem,
-  queryByGSI1,
-  scanByEntityType,
+  putItemsTogether,
+  queryIndex,
   generateId,
   getCurrentTimestamp,
+  modifyVersionedItem,
+  type IndexQuery,
 } from './dynamodb';
+import {
+  clientIndexKeys,
+  typePartition,
+  statusPartition,
+  advisorPartition,
+  NAME_PREFIX,
+  ADVISOR_CLIENT_PREFIX,
+} from './index-keys';
+import {
+  getAccessIdentity,
+  canAccessClient,
+  canAccessAllRecords,
+  addToAdvisorBook,
+  requirePermission,
+  redactForAccess,
+  requireFieldWriteAccess,
+} from './access';
+import { paginateIndex } from './pagination';
+import { auditWrite } from './audit';
+import { indexSearchTokens } from './search-index';
 import type {
   Client,
   ClientSummary,
   ClientFilters,
   ClientRecord,
+  ClientNameCandidate,
+  ClientNameResolution,
+  PaginationParams,
+  PaginatedResponse,
 } from '../../types';
+import { scorePersonName } from '../utils/name-matching';
 
 const ENTITY_TYPE = 'CLIENT';
 
+// Name resolution thresholds (scores are 0-1)
+const MIN_NAME_SCORE = 0.6;
+const NAME_AMBIGUITY_MARGIN = 0.1;
+const MAX_NAME_CANDIDATES = 5;
+
 /**
  * Build DynamoDB record from Client data
  */
@@ -27,24 +57,23 @@ function buildClientRecord(client: Client): ClientRecord {
   return {
     pk: `CLIENT#${client.client_id}`,
     sk: 'PROFILE',
-    GSI1PK: 'TYPE#CLIENT',
-    GSI1SK: `STATUS#${client.client_status || 'Unknown'}#${client.client_id}`,
+    ...clientIndexKeys(client),
     entity_type: ENTITY_TYPE,
     data: client,
   };
 }
 
 /**
- * Extract Client data from DynamoDB record
+ * Extract Client data from DynamoDB record, as the caller may see it
  */
 function extractClient(record: ClientRecord): Client {
-  return record.data;
+  return redactForAccess('client', record.data);
 }
 
 /**
  * Convert Client to ClientSummary
  */
-function toSummary(client: Client): ClientSummary {
+export function toClientSummary(client: Client): ClientSummary {
   return {
     client_id: client.client_id,
     first_name: client.first_name,
@@ -60,53 +89,120 @@ function toSummary(client: Client): ClientSummary {
 }
 
 /**
- * Get a client by ID
+ * Pick the index partition that narrows a client query the most:
+ * the account manager's clients, then a status partition, then all clients.
+ * Soft-deleted clients carry no index keys, so none of these return them.
  */
-export async function getClientById(clientId: string): Promise<Client | null> {
+function buildClientQuery(filters?: ClientFilters): IndexQuery {
+  if (filters?.account_manager_id) {
+    return {
+      index: 'GSI1',
+      partition: advisorPartition(filters.account_manager_id),
+      skPrefix: ADVISOR_CLIENT_PREFIX,
+    };
+  }
+  if (filters?.client_status) {
+    return {
+      index: 'GSI3',
+      partition: statusPartition(ENTITY_TYPE, filters.client_status),
+      skPrefix: NAME_PREFIX,
+    };
+  }
+  return { index: 'GSI2', partition: typePartition(ENTITY_TYPE), skPrefix: NAME_PREFIX };
+}
+
+/**
+ * Advisors list their own clients unless they filter by another account manager
+ * (which then comes back empty); admins list whatever the filters select
+ */
+function scopeClientFilters(filters?: ClientFilters): ClientFilters | undefined {
+  if (canAccessAllRecords() || filters?.account_manager_id) {
+    return filters;
+  }
+  return { ...filters, account_manager_id: getAccessIdentity().advisor_id };
+}
+
+/**
+ * The account manager a client may be given: advisors keep their clients,
+ * and only clients:assign hands one to someone else
+ */
+function checkAccountManager(accountManagerId: string | undefined): string | undefined {
+  const identity = getAccessIdentity();
+  if (accountManagerId && accountManagerId !== identity.advisor_id) {
+    requirePermission('clients:assign');
+    return accountManagerId;
+  }
+  return accountManagerId ?? (canAccessAllRecords() ? undefined : identity.advisor_id);
+}
+
+/**
+ * Read a stored client, unredacted, for a change. Missing when outside the caller's book.
+ */
+async function loadClient(clientId: string): Promise<Client | null> {
   const record = await getItem<ClientRecord>(`CLIENT#${clientId}`, 'PROFILE');
-  return record ? extractClient(record) : null;
+  if (!record || record.data.deleted_at || !canAccessClient(record.data)) {
+    return null;
+  }
+  return record.data;
 }
 
 /**
- * Get all clients with optional filters
+ * Get a client by ID. Soft-deleted clients, and clients outside the caller's book, are treated as missing.
  */
-export async function getClients(filters?: ClientFilters): Promise<Client[]> {
-  // For now, scan all clients and filter in memory
-  // In production, you'd use GSIs for efficient querying
-  const records = await scanByEntityType<ClientRecord>(ENTITY_TYPE);
-  let clients = records.map(extractClient);
-
-  // Apply filters
-  if (filters) {
-    if (filters.name) {
-      const searchName = filters.name.toLowerCase();
-      clients = clients.filter(
-        (c) =>
-          c.first_name.toLowerCase().includes(searchName) ||
-          c.last_name.toLowerCase().includes(searchName) ||
-          `${c.first_name} ${c.last_name}`.toLowerCase().includes(searchName)
-      );
-    }
-    if (filters.client_status) {
-      clients = clients.filter((c) => c.client_status === filters.client_status);
-    }
-    if (filters.client_segment) {
-      clients = clients.filter((c) => c.client_segment === filters.client_segment);
-    }
-    if (filters.client_type) {
-      clients = clients.filter((c) => c.client_type === filters.client_type);
-    }
-    if (filters.risk_profile) {
-      clients = clients.filter((c) => c.risk_profile === filters.risk_profile);
-    }
-    if (filters.account_manager_id) {
-      clients = clients.filter(
-        (c) => c.account_manager_id === filters.account_manager_id
-      );
-    }
+export async function getClientById(clientId: string): Promise<Client | null> {
+  const client = await loadClient(clientId);
+  return client ? redactForAccess('client', client) : null;
+}
+
+/**
+ * Check a client against the filters the key condition couldn't express
+ */
+function matchesClientFilters(client: Client, filters?: ClientFilters): boolean {
+  if (client.deleted_at) return false;
+  if (!filters) return true;
+  if (filters.name) {
+    const searchName = filters.name.toLowerCase();
+    const matchesName =
+      client.first_name.toLowerCase().includes(searchName) ||
+      client.last_name.toLowerCase().includes(searchName) ||
+      `${client.first_name} ${client.last_name}`.toLowerCase().includes(searchName);
+    if (!matchesName) return false;
   }
+  if (filters.client_status && client.client_status !== filters.client_status) return false;
+  if (filters.client_segment && client.client_segment !== filters.client_segment) return false;
+  if (filters.client_type && client.client_type !== filters.client_type) return false;
+  if (filters.risk_profile && client.risk_profile !== filters.risk_profile) return false;
+  if (filters.account_manager_id && client.account_manager_id !== filters.account_manager_id) return false;
+  return true;
+}
 
-  return clients;
+/**
+ * Get all clients in the caller's book with optional filters
+ */
+export async function getClients(filters?: ClientFilters): Promise<Client[]> {
+  const scoped = scopeClientFilters(filters);
+  const query = buildClientQuery(scoped);
+  console.log('getClients - index:', query.index, 'partition:', query.partition);
+  const records = await queryIndex<ClientRecord>(query);
+  return records.map(extractClient).filter((c) => matchesClientFilters(c, scoped) && canAccessClient(c));
+}
+
+/**
+ * Get one page of clients in last-name order
+ */
+export async function getClientPage(
+  filters: ClientFilters | undefined,
+  page: PaginationParams
+): Promise<PaginatedResponse<Client>> {
+  const scoped = scopeClientFilters(filters);
+  const query = buildClientQuery(scoped);
+  console.log('getClientPage - index:', query.index, 'partition:', query.partition, 'limit:', page.limit);
+  return paginateIndex<ClientRecord, Client>(
+    query,
+    page,
+    extractClient,
+    (c) => matchesClientFilters(c, scoped) && canAccessClient(c)
+  );
 }
 
 /**
@@ -116,7 +212,18 @@ export async function getClientSummaries(
   filters?: ClientFilters
 ): Promise<ClientSummary[]> {
   const clients = await getClients(filters);
-  return clients.map(toSummary);
+  return clients.map(toClientSummary);
+}
+
+/**
+ * Get one page of client summaries
+ */
+export async function getClientSummaryPage(
+  filters: ClientFilters | undefined,
+  page: PaginationParams
+): Promise<PaginatedResponse<ClientSummary>> {
+  const result = await getClientPage(filters, page);
+  return { ...result, items: result.items.map(toClientSummary) };
 }
 
 /**
@@ -127,54 +234,136 @@ export async function searchClientsByName(name: string): Promise<Client[]> {
 }
 
 /**
- * Get client by name (first match)
+ * Rank clients by how well their names match a typed name.
+ * Handles case, accents, nicknames/preferred names and typos.
+ */
+export async function resolveClientName(name: string): Promise<ClientNameResolution> {
+  const clients = await getClients();
+  const ranked: { client: Client; score: number; match: ClientNameCandidate['match'] }[] = [];
+  for (const client of clients) {
+    const result = scorePersonName(name, client);
+    if (result && result.score >= MIN_NAME_SCORE) {
+      ranked.push({ client, ...result });
+    }
+  }
+  ranked.sort((a, b) => b.score - a.score);
+
+  const candidates: ClientNameCandidate[] = ranked
+    .slice(0, MAX_NAME_CANDIDATES)
+    .map(({ client, score, match }) => ({ client: toClientSummary(client), score, match }));
+
+  if (ranked.length === 0) {
+    return { query: name, status: 'not_found', client: null, candidates };
+  }
+
+  // Anything close to the best score is a plausible alternative
+  const plausible = candidates.filter((c) => candidates[0].score - c.score < NAME_AMBIGUITY_MARGIN);
+  if (plausible.length > 1) {
+    return { query: name, status: 'ambiguous', client: null, candidates: plausible };
+  }
+
+  return { query: name, status: 'resolved', client: ranked[0].client, candidates };
+}
+
+/**
+ * Get client by name. Returns null when no client or more than one plausibly matches.
  */
 export async function getClientByName(name: string): Promise<Client | null> {
-  const clients = await searchClientsByName(name);
-  return clients.length > 0 ? clients[0] : null;
+  const resolution = await resolveClientName(name);
+  return resolution.client;
 }
 
 /**
- * Create a new client
+ * Create a new client. An advisor's clients are their own unless they can assign them.
  */
 export async function createClient(
   clientData: Omit<Client, 'client_id' | 'created_at' | 'updated_at'>
 ): Promise<Client> {
+  requirePermission('clients:create');
+  requireFieldWriteAccess('client', clientData);
   const now = getCurrentTimestamp();
+  const actor = getAccessIdentity().advisor_id;
   const client: Client = {
     ...clientData,
+    account_manager_id: checkAccountManager(clientData.account_manager_id),
     client_id: generateId('C'),
     created_at: now,
+    created_by: actor,
     updated_at: now,
+    updated_by: actor,
+    record_version: 1,
   };
 
   const record = buildClientRecord(client);
-  await putItem(record);
-  return client;
+  await putItemsTogether([{ item: record }, auditWrite('client', client.client_id, 'create', null, client)]);
+  await addToAdvisorBook(client.client_id);
+  await indexSearchTokens('client', record);
+  return redactForAccess('client', client);
 }
 
 /**
- * Update a client
+ * Update a client. Handing it to another account manager needs clients:assign.
  */
 export async function updateClient(
   clientId: string,
-  updates: Partial<Client>
+  updates: Partial<Client>,
+  expectedVersion?: number
 ): Promise<Client | null> {
-  const existing = await getClientById(clientId);
-  if (!existing) {
-    return null;
+  requirePermission('clients:update');
+  requireFieldWriteAccess('client', updates);
+  const updated = await modifyVersionedItem<Client>({
+    entity: 'client',
+    load: () => loadClient(clientId),
+    buildRecord: buildClientRecord,
+    redact: (client) => redactForAccess('client', client),
+    relatedWrites: (existing, updated) => [auditWrite('client', clientId, 'update', existing, updated)],
+    expectedVersion,
+    change: (existing) => ({
+      ...existing,
+      ...updates,
+      client_id: clientId, // Ensure ID doesn't change
+      account_manager_id:
+        updates.account_manager_id !== undefined
+          ? checkAccountManager(updates.account_manager_id)
+          : existing.account_manager_id,
+      updated_at: getCurrentTimestamp(),
+      updated_by: getAccessIdentity().advisor_id,
+    }),
+  });
+  if (updated) {
+    await indexSearchTokens('client', buildClientRecord(updated));
   }
+  return updated && redactForAccess('client', updated);
+}
 
-  const updatedClient: Client = {
-    ...existing,
-    ...updates,
-    client_id: clientId, // Ensure ID doesn't change
-    updated_at: getCurrentTimestamp(),
-  };
-
-  const record = buildClientRecord(updatedClient);
-  await putItem(record);
-  return updatedClient;
+/**
+ * Soft-delete a client by setting deleted_at.
+ * The record is kept so policies, tasks and history still resolve.
+ */
+export async function deleteClient(
+  clientId: string,
+  expectedVersion?: number
+): Promise<Client | null> {
+  requirePermission('clients:delete');
+  const now = getCurrentTimestamp();
+  const updated = await modifyVersionedItem<Client>({
+    entity: 'client',
+    load: () => loadClient(clientId),
+    buildRecord: buildClientRecord,
+    redact: (client) => redactForAccess('client', client),
+    relatedWrites: (existing, updated) => [auditWrite('client', clientId, 'delete', existing, updated)],
+    expectedVersion,
+    change: (existing) => ({
+      ...existing,
+      deleted_at: now,
+      updated_at: now,
+      updated_by: getAccessIdentity().advisor_id,
+    }),
+  });
+  if (updated) {
+    await indexSearchTokens('client', buildClientRecord(updated));
+  }
+  return updated && redactForAccess('client', updated);
 }
 
 /**
@@ -208,6 +397,14 @@ export async function getRecentClients(limit?: number): Promise<Client[]> {
   return limit ? clients.slice(0, limit) : clients;
 }
 
+/**
+ * Get clients created on or after a date
+ */
+export async function getClientsCreatedSince(since: Date, filters?: ClientFilters): Promise<Client[]> {
+  const clients = await getClients(filters);
+  return clients.filter((c) => new Date(c.created_at) >= since);
+}
+
 /**
  * Get clients by status
  */
@@ -242,23 +439,6 @@ export async function getClientsByPortfolioValue(
   });
 }
 
-/**
- * Search clients by name, email, or phone
- */
-export async function searchClients(query: string): Promise<Client[]> {
-  const clients = await getClients();
-  const searchTerm = query.toLowerCase();
-
-  return clients.filter((c) =>
-    c.first_name.toLowerCase().includes(searchTerm) ||
-    c.last_name.toLowerCase().includes(searchTerm) ||
-    `${c.first_name} ${c.last_name}`.toLowerCase().includes(searchTerm) ||
-    (c.primary_email && c.primary_email.toLowerCase().includes(searchTerm)) ||
-    (c.primary_phone && c.primary_phone.includes(query)) ||
-    (c.secondary_email && c.secondary_email.toLowerCase().includes(searchTerm))
-  );
-}
-
 /**
  * Get top clients by portfolio value
  */
@@ -271,12 +451,12 @@ export async function getTopClientsByPortfolio(limit?: number): Promise<Client[]
 /**
  * Get client counts grouped by status and segment
  */
-export async function getClientCount(): Promise<{
+export async function getClientCount(filters?: ClientFilters): Promise<{
   total: number;
   byStatus: Record<string, number>;
   bySegment: Record<string, number>;
 }> {
-  const clients = await getClients();
+  const clients = await getClients(filters);
 
   const byStatus: Record<string, number> = {
     Active: 0,
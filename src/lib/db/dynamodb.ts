@@ -11,10 +11,13 @@ import {
   QueryCommand,
   UpdateCommand,
   DeleteCommand,
-  ScanCommand,
+  BatchGetCommand,
   BatchWriteCommand,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
 import type { BaseRecord } from '../../types';
+import { VersionConflictError } from './errors';
+import type { IndexName } from './index-keys';
 
 // Initialize DynamoDB client
 const client = new DynamoDBClient({});
@@ -50,25 +53,84 @@ export async function getItem<T extends BaseRecord>(
 }
 
 /**
- * Put an item into the table
+ * Condition a write must satisfy against the stored item
  */
-export async function putItem<T extends BaseRecord>(item: T): Promise<T> {
+export interface WriteCondition {
+  expression: string;
+  names?: Record<string, string>;
+  values?: Record<string, unknown>;
+}
+
+/**
+ * Put an item into the table, optionally only if the stored item meets a condition
+ */
+export async function putItem<T extends BaseRecord>(
+  item: T,
+  condition?: WriteCondition
+): Promise<T> {
   await docClient.send(
     new PutCommand({
       TableName: getTableName(),
       Item: item,
+      ConditionExpression: condition?.expression,
+      ExpressionAttributeNames: condition?.names,
+      ExpressionAttributeValues: condition?.values,
     })
   );
   return item;
 }
 
 /**
- * Update an item with partial data
+ * An item to put, optionally only if the stored item meets a condition
+ */
+export interface ItemWrite {
+  item: BaseRecord;
+  condition?: WriteCondition;
+}
+
+/**
+ * Put several items in one transaction: either all are written or, if any condition
+ * doesn't hold, none are
+ */
+export async function putItemsTogether(writes: ItemWrite[]): Promise<void> {
+  await docClient.send(
+    new TransactWriteCommand({
+      TransactItems: writes.map(({ item, condition }) => ({
+        Put: {
+          TableName: getTableName(),
+          Item: item,
+          ConditionExpression: condition?.expression,
+          ExpressionAttributeNames: condition?.names,
+          ExpressionAttributeValues: condition?.values,
+        },
+      })),
+    })
+  );
+}
+
+/**
+ * Check whether a write failed because its condition did not hold
+ */
+export function isConditionalCheckFailed(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  // A transaction is cancelled as a whole, with a reason for each item
+  if (error.name === 'TransactionCanceledException') {
+    const reasons = (error as { CancellationReasons?: { Code?: string }[] }).CancellationReasons;
+    return Boolean(reasons?.some((reason) => reason.Code === 'ConditionalCheckFailed'));
+  }
+  return error.name === 'ConditionalCheckFailedException';
+}
+
+/**
+ * Update an item with partial data, optionally only if the stored item meets a condition
  */
 export async function updateItem<T extends BaseRecord>(
   pk: string,
   sk: string,
-  updates: Partial<T>
+  updates: Partial<T>,
+  condition?: WriteCondition
 ): Promise<T | null> {
   const updateExpressions: string[] = [];
   const expressionAttributeNames: Record<string, string> = {};
@@ -93,8 +155,9 @@ export async function updateItem<T extends BaseRecord>(
       TableName: getTableName(),
       Key: { pk, sk },
       UpdateExpression: `SET ${updateExpressions.join(', ')}`,
-      ExpressionAttributeNames: expressionAttributeNames,
-      ExpressionAttributeValues: expressionAttributeValues,
+      ConditionExpression: condition?.expression,
+      ExpressionAttributeNames: { ...expressionAttributeNames, ...condition?.names },
+      ExpressionAttributeValues: { ...expressionAttributeValues, ...condition?.values },
       ReturnValues: 'ALL_NEW',
     })
   );
@@ -102,6 +165,88 @@ export async function updateItem<T extends BaseRecord>(
   return (result.Attributes as T) || null;
 }
 
+/**
+ * Entity data carrying an optimistic-concurrency version
+ */
+export interface VersionedData {
+  record_version?: number;
+}
+
+/**
+ * A read-modify-write of one versioned record
+ */
+export interface VersionedChange<D extends VersionedData> {
+  entity: string;
+  load: () => Promise<D | null>;
+  buildRecord: (data: D) => BaseRecord;
+  // May throw to refuse the change (e.g. an invalid status transition)
+  change: (existing: D) => D;
+  // Version the caller last read (If-Match / expected_version). A stale one fails without retrying.
+  expectedVersion?: number;
+  // Strips what the caller may not see from the current record a conflict reports
+  redact?: (data: D) => D;
+  // Other items written in the same transaction as the change (e.g. its audit entry)
+  relatedWrites?: (existing: D, updated: D) => ItemWrite[];
+}
+
+// Attempts at a versioned write before reporting a conflict
+const MAX_VERSIONED_WRITE_ATTEMPTS = 3;
+
+/**
+ * Condition that the stored data still has the given version.
+ * Records written before versioning have none and count as version 0.
+ */
+export function versionCondition(version: number | undefined): WriteCondition {
+  const names = { '#data': 'data', '#version': 'record_version' };
+  return version === undefined
+    ? { expression: 'attribute_not_exists(#data.#version)', names }
+    : { expression: '#data.#version = :version', names, values: { ':version': version } };
+}
+
+/**
+ * Apply a change to a versioned record and write it back only if nobody else wrote in between,
+ * incrementing record_version. Without an expected version a lost race re-reads and re-applies
+ * the change; with one, or after too many attempts, it throws VersionConflictError.
+ */
+export async function modifyVersionedItem<D extends VersionedData>(
+  options: VersionedChange<D>
+): Promise<D | null> {
+  const redact = options.redact ?? ((data: D) => data);
+  for (let attempt = 1; ; attempt++) {
+    const existing = await options.load();
+    if (!existing) {
+      return null;
+    }
+
+    const version = existing.record_version ?? 0;
+    if (options.expectedVersion !== undefined && options.expectedVersion !== version) {
+      throw new VersionConflictError(options.entity, options.expectedVersion, redact(existing));
+    }
+
+    const updated: D = { ...options.change(existing), record_version: version + 1 };
+    const record = options.buildRecord(updated);
+    const condition = versionCondition(existing.record_version);
+    const related = options.relatedWrites?.(existing, updated) ?? [];
+    try {
+      if (related.length > 0) {
+        await putItemsTogether([{ item: record, condition }, ...related]);
+      } else {
+        await putItem(record, condition);
+      }
+      return updated;
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+      if (options.expectedVersion !== undefined || attempt >= MAX_VERSIONED_WRITE_ATTEMPTS) {
+        const current = (await options.load()) ?? existing;
+        throw new VersionConflictError(options.entity, version, redact(current));
+      }
+      console.log(`${options.entity} changed during update, retrying`);
+    }
+  }
+}
+
 /**
  * Delete an item
  */
@@ -114,6 +259,32 @@ export async function deleteItem(pk: string, sk: string): Promise<void> {
   );
 }
 
+/**
+ * Run a query to completion, following LastEvaluatedKey across pages
+ * (each page stops at 1 MB) until the results run out or the limit is reached
+ */
+async function queryAll<T extends BaseRecord>(
+  input: ConstructorParameters<typeof QueryCommand>[0],
+  limit?: number
+): Promise<T[]> {
+  const items: T[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        ...input,
+        Limit: limit !== undefined ? limit - items.length : undefined,
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((result.Items as T[]) || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey && (limit === undefined || items.length < limit));
+
+  return items;
+}
+
 /**
  * Query items by partition key
  */
@@ -133,17 +304,138 @@ export async function queryByPk<T extends BaseRecord>(
     expressionAttributeValues[':skPrefix'] = options.skPrefix;
   }
 
-  const result = await docClient.send(
-    new QueryCommand({
+  return queryAll<T>(
+    {
       TableName: getTableName(),
       KeyConditionExpression: keyConditionExpression,
       ExpressionAttributeValues: expressionAttributeValues,
-      Limit: options?.limit,
       ScanIndexForward: options?.scanIndexForward ?? true,
-    })
+    },
+    options?.limit
   );
+}
+
+/**
+ * A query against one secondary index partition (see index-keys.ts for the layout)
+ */
+export interface IndexQuery {
+  index: IndexName;
+  partition: string;
+  // Only sort keys starting with this prefix
+  skPrefix?: string;
+  // Sort keys between prefix+from and prefix+to (inclusive); an open end runs to the edge of the prefix
+  skRange?: { from?: string; to?: string };
+  limit?: number;
+  scanIndexForward?: boolean;
+}
+
+// Sorts after any character used in sort keys, closing an open-ended range
+const SORT_KEY_MAX = '\uffff';
+
+/**
+ * QueryCommand input for an index query
+ */
+function buildIndexQueryInput(query: IndexQuery): ConstructorParameters<typeof QueryCommand>[0] {
+  const pkAttr = `${query.index}PK`;
+  const skAttr = `${query.index}SK`;
+  const prefix = query.skPrefix ?? '';
+  let keyConditionExpression = '#pk = :pk';
+  const expressionAttributeNames: Record<string, string> = { '#pk': pkAttr };
+  const expressionAttributeValues: Record<string, unknown> = { ':pk': query.partition };
+
+  if (query.skRange) {
+    keyConditionExpression += ' AND #sk BETWEEN :skFrom AND :skTo';
+    expressionAttributeNames['#sk'] = skAttr;
+    expressionAttributeValues[':skFrom'] = `${prefix}${query.skRange.from ?? ''}`;
+    expressionAttributeValues[':skTo'] = `${prefix}${query.skRange.to ?? SORT_KEY_MAX}`;
+  } else if (prefix) {
+    keyConditionExpression += ' AND begins_with(#sk, :skPrefix)';
+    expressionAttributeNames['#sk'] = skAttr;
+    expressionAttributeValues[':skPrefix'] = prefix;
+  }
 
-  return (result.Items as T[]) || [];
+  return {
+    TableName: getTableName(),
+    IndexName: query.index,
+    KeyConditionExpression: keyConditionExpression,
+    ExpressionAttributeNames: expressionAttributeNames,
+    ExpressionAttributeValues: expressionAttributeValues,
+    ScanIndexForward: query.scanIndexForward ?? true,
+  };
+}
+
+/**
+ * Query a secondary index partition, narrowed by sort-key prefix or range
+ */
+export async function queryIndex<T extends BaseRecord>(query: IndexQuery): Promise<T[]> {
+  return queryAll<T>(buildIndexQueryInput(query), query.limit);
+}
+
+/**
+ * Position in an index: the item's table key plus its key in the index
+ */
+export type IndexKey = Record<string, unknown>;
+
+/**
+ * One page of an index query
+ */
+export interface IndexPage<T> {
+  items: T[];
+  // Where the next page starts; unset when nothing is left
+  lastKey?: IndexKey;
+}
+
+function indexKeyOf(item: BaseRecord, index: IndexName): IndexKey {
+  const record = item as unknown as Record<string, unknown>;
+  return {
+    pk: item.pk,
+    sk: item.sk,
+    [`${index}PK`]: record[`${index}PK`],
+    [`${index}SK`]: record[`${index}SK`],
+  };
+}
+
+/**
+ * Read up to `limit` items that pass the filter from an index partition, starting after startKey.
+ * When the page fills part-way through what DynamoDB returned, it resumes from the last item
+ * returned rather than from DynamoDB's LastEvaluatedKey, so nothing is skipped.
+ * With maxRead, the page also ends (short, but with a lastKey) once that many items were read,
+ * so a filter that rejects most of the partition can't turn one page into a full scan.
+ */
+export async function queryIndexPage<T extends BaseRecord>(
+  query: IndexQuery,
+  options: { limit: number; startKey?: IndexKey; filter?: (item: T) => boolean; maxRead?: number }
+): Promise<IndexPage<T>> {
+  const input = buildIndexQueryInput(query);
+  const items: T[] = [];
+  let startKey = options.startKey;
+  let read = 0;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({ ...input, Limit: options.limit, ExclusiveStartKey: startKey })
+    );
+    const page = (result.Items as T[]) || [];
+    startKey = result.LastEvaluatedKey;
+    read += page.length;
+
+    for (let i = 0; i < page.length; i++) {
+      if (options.filter && !options.filter(page[i])) {
+        continue;
+      }
+      items.push(page[i]);
+      if (items.length === options.limit) {
+        const more = i < page.length - 1 || startKey !== undefined;
+        return { items, lastKey: more ? indexKeyOf(page[i], query.index) : undefined };
+      }
+    }
+    // DynamoDB's LastEvaluatedKey is the last item read, so the next page resumes right after it
+    if (startKey && options.maxRead !== undefined && read >= options.maxRead) {
+      return { items, lastKey: startKey };
+    }
+  } while (startKey);
+
+  return { items };
 }
 
 /**
@@ -157,76 +449,110 @@ export async function queryByGSI1<T extends BaseRecord>(
     scanIndexForward?: boolean;
   }
 ): Promise<T[]> {
-  let keyConditionExpression = 'GSI1PK = :gsi1pk';
-  const expressionAttributeValues: Record<string, unknown> = { ':gsi1pk': gsi1pk };
+  return queryIndex<T>({
+    index: 'GSI1',
+    partition: gsi1pk,
+    skPrefix: options?.gsi1skPrefix,
+    limit: options?.limit,
+    scanIndexForward: options?.scanIndexForward,
+  });
+}
 
-  if (options?.gsi1skPrefix) {
-    keyConditionExpression += ' AND begins_with(GSI1SK, :gsi1skPrefix)';
-    expressionAttributeValues[':gsi1skPrefix'] = options.gsi1skPrefix;
-  }
+/**
+ * Table key of an item
+ */
+export interface ItemKey {
+  pk: string;
+  sk: string;
+}
 
-  const result = await docClient.send(
-    new QueryCommand({
-      TableName: getTableName(),
-      IndexName: 'GSI1',
-      KeyConditionExpression: keyConditionExpression,
-      ExpressionAttributeValues: expressionAttributeValues,
-      Limit: options?.limit,
-      ScanIndexForward: options?.scanIndexForward ?? true,
-    })
-  );
+// DynamoDB limits per batch request
+const BATCH_WRITE_LIMIT = 25;
+const BATCH_GET_LIMIT = 100;
+
+// Unprocessed items mean the table is throttling; back off before resending them
+const MAX_BATCH_RETRIES = 8;
+const BATCH_RETRY_BASE_DELAY_MS = 50;
+const BATCH_RETRY_MAX_DELAY_MS = 5000;
 
-  return (result.Items as T[]) || [];
+type WriteRequest = NonNullable<ConstructorParameters<typeof BatchWriteCommand>[0]['RequestItems']>[string][number];
+
+/**
+ * Wait before resending what a batch left unprocessed: full-jitter exponential backoff,
+ * a random delay up to base * 2^retry, capped. Throws once the retries are used up.
+ */
+async function backOffBatchRetry(operation: string, retry: number, unprocessed: number): Promise<void> {
+  if (retry > MAX_BATCH_RETRIES) {
+    throw new Error(`${operation} left ${unprocessed} items unprocessed after ${MAX_BATCH_RETRIES} retries`);
+  }
+  const ceiling = Math.min(BATCH_RETRY_MAX_DELAY_MS, BATCH_RETRY_BASE_DELAY_MS * 2 ** (retry - 1));
+  const delayMs = Math.random() * ceiling;
+  console.log(`${operation} left ${unprocessed} items unprocessed, retrying in ${Math.round(delayMs)}ms (retry ${retry} of ${MAX_BATCH_RETRIES})`);
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
 }
 
 /**
- * Scan all items of a specific entity type
+ * Send write requests in batches, resending whatever DynamoDB leaves unprocessed
  */
-export async function scanByEntityType<T extends BaseRecord>(
-  entityType: string,
-  limit?: number
-): Promise<T[]> {
-  const result = await docClient.send(
-    new ScanCommand({
-      TableName: getTableName(),
-      FilterExpression: 'entity_type = :entityType',
-      ExpressionAttributeValues: {
-        ':entityType': entityType,
-      },
-      Limit: limit,
-    })
-  );
+async function sendBatchWrites(requests: WriteRequest[]): Promise<void> {
+  const tableName = getTableName();
 
-  return (result.Items as T[]) || [];
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_LIMIT) {
+    let pending = requests.slice(i, i + BATCH_WRITE_LIMIT);
+    for (let retry = 1; ; retry++) {
+      const result = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [tableName]: pending } })
+      );
+      pending = result.UnprocessedItems?.[tableName] || [];
+      if (pending.length === 0) {
+        break;
+      }
+      await backOffBatchRetry('Batch write', retry, pending.length);
+    }
+  }
 }
 
 /**
- * Batch write items (for seeding)
+ * Batch write items
  */
 export async function batchWriteItems<T extends BaseRecord>(
   items: T[]
 ): Promise<void> {
+  await sendBatchWrites(items.map((item) => ({ PutRequest: { Item: item } })));
+}
+
+/**
+ * Batch delete items by key
+ */
+export async function batchDeleteItems(keys: ItemKey[]): Promise<void> {
+  await sendBatchWrites(keys.map((key) => ({ DeleteRequest: { Key: { pk: key.pk, sk: key.sk } } })));
+}
+
+/**
+ * Batch get items by key. Missing items are left out; order is not preserved.
+ */
+export async function batchGetItems<T extends BaseRecord>(keys: ItemKey[]): Promise<T[]> {
   const tableName = getTableName();
+  const items: T[] = [];
 
-  // DynamoDB batch write limit is 25 items
-  const chunks: T[][] = [];
-  for (let i = 0; i < items.length; i += 25) {
-    chunks.push(items.slice(i, i + 25));
+  for (let i = 0; i < keys.length; i += BATCH_GET_LIMIT) {
+    let pending: Record<string, unknown>[] = keys
+      .slice(i, i + BATCH_GET_LIMIT)
+      .map((key) => ({ pk: key.pk, sk: key.sk }));
+    for (let retry = 1; ; retry++) {
+      const result = await docClient.send(
+        new BatchGetCommand({ RequestItems: { [tableName]: { Keys: pending } } })
+      );
+      items.push(...((result.Responses?.[tableName] as T[]) || []));
+      pending = result.UnprocessedKeys?.[tableName]?.Keys || [];
+      if (pending.length === 0) {
+        break;
+      }
+      await backOffBatchRetry('Batch get', retry, pending.length);
+    }
   }
 
-  for (const chunk of chunks) {
-    await docClient.send(
-      new BatchWriteCommand({
-        RequestItems: {
-          [tableName]: chunk.map((item) => ({
-            PutRequest: {
-              Item: item,
-            },
-          })),
-        },
-      })
-    );
-  }
+  return items;
 }
 
 /**
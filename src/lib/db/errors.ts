@@ -0,0 +1,86 @@
+/**
+ * Database Errors
+ * Thrown by entity operations so handlers can map them to HTTP status codes
+ */
+
+/**
+ * A lifecycle action is not allowed from the record's current state
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly from: string,
+    public readonly to: string,
+    public readonly allowed: string[],
+    action?: string
+  ) {
+    super(
+      (action ? `Cannot ${action} ${entity} with status ${from}` : `Cannot move ${entity} from ${from} to ${to}`) +
+        (allowed.length > 0 ? `. Allowed from ${from}: ${allowed.join(', ')}` : `. ${from} is final`)
+    );
+    this.name = 'InvalidTransitionError';
+  }
+
+  /**
+   * What a 409 response reports so the caller can pick a valid next status
+   */
+  toResponseData(): Record<string, unknown> {
+    return {
+      entity: this.entity,
+      current_status: this.from,
+      requested_status: this.to,
+      allowed_transitions: this.allowed,
+    };
+  }
+}
+
+/**
+ * A write lost an optimistic-concurrency race: the stored record_version is not the one expected
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly expectedVersion: number,
+    public readonly current: { record_version?: number }
+  ) {
+    super(
+      `${entity} was changed by another request (expected version ${expectedVersion}, current version ${current.record_version ?? 0})`
+    );
+    this.name = 'VersionConflictError';
+  }
+
+  /**
+   * What a 409 response reports: the current record so the caller can merge and retry
+   */
+  toResponseData(): Record<string, unknown> {
+    return {
+      entity: this.entity,
+      expected_version: this.expectedVersion,
+      current_version: this.current.record_version ?? 0,
+      current: this.current,
+    };
+  }
+}
+
+/**
+ * A pagination cursor was not issued by this API for the query it was sent with
+ */
+export class InvalidCursorError extends Error {
+  constructor(reason: string) {
+    super(`Invalid cursor: ${reason}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * A write would reach outside the caller's book (e.g. an advisor handing a client to someone else)
+ */
+export class AccessDeniedError extends Error {
+  constructor(
+    public readonly entity: string,
+    reason: string
+  ) {
+    super(`Access denied to ${entity}: ${reason}`);
+    this.name = 'AccessDeniedError';
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Secondary Index Keys
+ * How each entity is laid out across the table's global secondary indexes.
+ *
+ * GSI1 - parent -> children: a client's policies and tasks, an advisor's clients and chat sessions,
+ *        a record's audit entries
+ * GSI2 - entity-type partition, in the entity's list order (task due date, policy renewal date,
+ *        client last name, session last update)
+ * GSI3 - status partition per entity type, in the same order
+ *
+ * Every partition sorts its entities in their list order, so any of them can be paged through with a cursor.
+ *
+ * GSI2/GSI3 partitions hold every advisor's records. Advisors only get their own clients and
+ * sessions by partition (GSI1); their tasks and policies, which are theirs through the client's
+ * account manager rather than a field on the record, are filtered out of the shared partitions
+ * after the read (lib/db/access.ts), at the cost of reading the other advisors' records too.
+ *
+ * Kept free of the DynamoDB client so scripts (seed, backfill) derive exactly the same keys.
+ */
+
+import type { ChatSession, Client, Policy, Task } from '../../types';
+
+export type IndexName = 'GSI1' | 'GSI2' | 'GSI3';
+
+/**
+ * Index key attributes on a record. An index the record doesn't belong in is left unset (sparse).
+ */
+export interface IndexKeys {
+  GSI1PK?: string;
+  GSI1SK?: string;
+  GSI2PK?: string;
+  GSI2SK?: string;
+  GSI3PK?: string;
+  GSI3SK?: string;
+}
+
+export const INDEX_KEY_ATTRIBUTES: (keyof IndexKeys)[] = [
+  'GSI1PK',
+  'GSI1SK',
+  'GSI2PK',
+  'GSI2SK',
+  'GSI3PK',
+  'GSI3SK',
+];
+
+// Sort-key prefixes
+export const DUE_PREFIX = 'DUE#';
+export const RENEWAL_PREFIX = 'RENEWAL#';
+export const NAME_PREFIX = 'NAME#';
+export const CLIENT_TASK_PREFIX = 'TASK#';
+export const CLIENT_POLICY_PREFIX = 'POLICY#';
+export const ADVISOR_CLIENT_PREFIX = 'CLIENT#';
+export const ADVISOR_SESSION_PREFIX = 'SESSION#';
+export const UPDATED_PREFIX = 'UPDATED#';
+
+// Policies without a renewal date sort after every dated one, so date ranges skip them
+const NO_RENEWAL_DATE = 'NONE';
+
+export function typePartition(entityType: string): string {
+  return `TYPE#${entityType}`;
+}
+
+export function statusPartition(entityType: string, status: string): string {
+  return `${entityType}#STATUS#${status}`;
+}
+
+export function clientPartition(clientId: string): string {
+  return `CLIENT#${clientId}`;
+}
+
+export function advisorPartition(advisorId: string): string {
+  return `ADVISOR#${advisorId}`;
+}
+
+export function auditPartition(entityId: string): string {
+  return `AUDIT#${entityId}`;
+}
+
+/**
+ * Index keys for a task: under its client, in the task partition and in its status partition,
+ * each sorted by due date
+ */
+export function taskIndexKeys(task: Task): IndexKeys {
+  const due = `${task.due_date}#${task.task_id}`;
+  return {
+    GSI1PK: task.client_id ? clientPartition(task.client_id) : undefined,
+    GSI1SK: task.client_id ? `${CLIENT_TASK_PREFIX}${due}` : undefined,
+    GSI2PK: typePartition('TASK'),
+    GSI2SK: `${DUE_PREFIX}${due}`,
+    GSI3PK: statusPartition('TASK', task.status),
+    GSI3SK: `${DUE_PREFIX}${due}`,
+  };
+}
+
+/**
+ * Index keys for a policy: under its client, in the policy partition and in its status partition,
+ * each sorted by renewal date
+ */
+export function policyIndexKeys(policy: Policy): IndexKeys {
+  const renewal = `${policy.renewal_date || NO_RENEWAL_DATE}#${policy.policy_id}`;
+  return {
+    GSI1PK: clientPartition(policy.client_id),
+    GSI1SK: `${CLIENT_POLICY_PREFIX}${renewal}`,
+    GSI2PK: typePartition('POLICY'),
+    GSI2SK: `${RENEWAL_PREFIX}${renewal}`,
+    GSI3PK: statusPartition('POLICY', policy.policy_status),
+    GSI3SK: `${RENEWAL_PREFIX}${renewal}`,
+  };
+}
+
+/**
+ * Index keys for a client: under its account manager, in the client partition and in its
+ * status partition, each sorted by last then first name (case-insensitive).
+ * Soft-deleted clients drop out of every index.
+ */
+export function clientIndexKeys(client: Client): IndexKeys {
+  if (client.deleted_at) {
+    return {};
+  }
+
+  const name = `${client.last_name.toLowerCase()}#${client.first_name.toLowerCase()}#${client.client_id}`;
+  return {
+    GSI1PK: client.account_manager_id ? advisorPartition(client.account_manager_id) : undefined,
+    GSI1SK: client.account_manager_id ? `${ADVISOR_CLIENT_PREFIX}${name}` : undefined,
+    GSI2PK: typePartition('CLIENT'),
+    GSI2SK: `${NAME_PREFIX}${name}`,
+    GSI3PK: statusPartition('CLIENT', client.client_status || 'Unknown'),
+    GSI3SK: `${NAME_PREFIX}${name}`,
+  };
+}
+
+/**
+ * Index keys for a chat session: under its advisor and in the session partition, each sorted by
+ * last update. Sessions from before they had an owner are only in the session partition.
+ */
+export function sessionIndexKeys(session: ChatSession): IndexKeys {
+  const updated = `${UPDATED_PREFIX}${session.updated_at}#${session.session_id}`;
+  return {
+    GSI1PK: session.advisor_id ? advisorPartition(session.advisor_id) : undefined,
+    GSI1SK: session.advisor_id ? `${ADVISOR_SESSION_PREFIX}${updated}` : undefined,
+    GSI2PK: typePartition('SESSION'),
+    GSI2SK: updated,
+  };
+}
@@ -4,12 +4,20 @@
 
 // Core DynamoDB utilities
 export * from './dynamodb';
+export * from './errors';
+export * from './access';
+export * from './index-keys';
+export * from './pagination';
+export * from './audit';
 
 // Entity-specific operations
 export * from './clients';
 export * from './policies';
 export * from './tasks';
+export * from './sessions';
 
 // Analytics and search
 export * from './analytics';
+export * from './search-tokens';
+export * from './search-index';
 export * from './search';
@@ -0,0 +1,115 @@
+/**
+ * Cursor Pagination
+ * Pages through an index partition with opaque cursors.
+ *
+ * A cursor is the position to resume from (DynamoDB's exclusive start key) plus the sort-key
+ * range of the first page, signed with CURSOR_SECRET so clients can't edit it to read
+ * outside the query they were given. Reusing the first page's range keeps "now"-relative
+ * windows (overdue, upcoming, renewal due) fixed while paging.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { queryIndexPage, type IndexKey, type IndexQuery } from './dynamodb';
+import { InvalidCursorError } from './errors';
+import type { BaseRecord, PaginatedResponse, PaginationParams } from '../../types';
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+// Index items a filtered page reads at most before returning what it has, with a cursor
+export const MAX_FILTERED_PAGE_READ = 1000;
+
+/**
+ * What a cursor carries
+ */
+interface CursorPayload {
+  index: string;
+  partition: string;
+  range?: IndexQuery['skRange'];
+  key: IndexKey;
+}
+
+const getCursorSecret = (): string => {
+  const secret = process.env.CURSOR_SECRET;
+  if (!secret) {
+    throw new Error('CURSOR_SECRET environment variable not set');
+  }
+  return secret;
+};
+
+function sign(payload: string): string {
+  return createHmac('sha256', getCursorSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Encode and sign a cursor
+ */
+export function encodeCursor(payload: CursorPayload): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verify a cursor and check it belongs to the query it was sent with
+ */
+export function decodeCursor(cursor: string, query: IndexQuery): CursorPayload {
+  const [encoded, signature, ...rest] = cursor.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    throw new InvalidCursorError('malformed');
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidCursorError('signature does not match');
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as CursorPayload;
+  } catch {
+    throw new InvalidCursorError('malformed');
+  }
+
+  if (payload.index !== query.index || payload.partition !== query.partition) {
+    throw new InvalidCursorError('it was issued for different filters');
+  }
+  return payload;
+}
+
+/**
+ * Read one page of an index query, resuming from the cursor if given.
+ * filter drops items the key condition couldn't exclude; they don't count toward the limit.
+ *
+ * Filtered items are still read, and paid for: an advisor's page of tasks or policies filters a
+ * partition shared by every advisor. Reads stop at MAX_FILTERED_PAGE_READ, so such a page can
+ * come back short (even empty) with has_more set; callers keep following next_cursor.
+ */
+export async function paginateIndex<R extends BaseRecord, T>(
+  query: IndexQuery,
+  page: PaginationParams,
+  extract: (record: R) => T,
+  filter?: (item: T) => boolean
+): Promise<PaginatedResponse<T>> {
+  const cursor = page.cursor ? decodeCursor(page.cursor, query) : undefined;
+  const pageQuery: IndexQuery = cursor ? { ...query, skRange: cursor.range } : query;
+
+  const result = await queryIndexPage<R>(pageQuery, {
+    limit: page.limit ?? DEFAULT_PAGE_LIMIT,
+    startKey: cursor?.key,
+    filter: filter ? (record) => filter(extract(record)) : undefined,
+    maxRead: filter ? MAX_FILTERED_PAGE_READ : undefined,
+  });
+
+  return {
+    items: result.items.map(extract),
+    has_more: result.lastKey !== undefined,
+    next_cursor: result.lastKey
+      ? encodeCursor({
+          index: pageQuery.index,
+          partition: pageQuery.partition,
+          range: pageQuery.skRange,
+          key: result.lastKey,
+        })
+      : undefined,
+  };
+}
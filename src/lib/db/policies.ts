@@ -4,21 +4,66 @@
 
 import {
   getItem,
-  putItem,
-  queryByGSI1,
-  scanByEntityType,
+  putItemsTogether,
+  queryIndex,
   generateId,
   getCurrentTimestamp,
+  modifyVersionedItem,
+  type IndexQuery,
 } from './dynamodb';
+import {
+  policyIndexKeys,
+  typePartition,
+  statusPartition,
+  clientPartition,
+  RENEWAL_PREFIX,
+  CLIENT_POLICY_PREFIX,
+} from './index-keys';
+import { InvalidTransitionError, AccessDeniedError } from './errors';
+import {
+  getAccessIdentity,
+  loadAdvisorBook,
+  canAccessPolicy,
+  requirePermission,
+  redactForAccess,
+  requireFieldWriteAccess,
+} from './access';
+import { getClientById } from './clients';
+import { paginateIndex } from './pagination';
+import { auditWrite } from './audit';
+import { indexSearchTokens } from './search-index';
 import type {
   Policy,
   PolicySummary,
   PolicyFilters,
   PolicyRecord,
+  PolicyStatus,
+  PolicyType,
+  CancellationReason,
+  PaginationParams,
+  PaginatedResponse,
 } from '../../types';
 
 const ENTITY_TYPE = 'POLICY';
 
+/**
+ * Status changes a policy can go through
+ */
+const POLICY_STATUS_TRANSITIONS: Record<PolicyStatus, PolicyStatus[]> = {
+  Pending: ['Active', 'Cancelled'],
+  Active: ['Suspended', 'Expired', 'Cancelled', 'Lapsed'],
+  Suspended: ['Active', 'Cancelled', 'Lapsed'],
+  Lapsed: ['Active', 'Cancelled'],
+  Cancelled: ['Active'],
+  Expired: [],
+};
+
+// Statuses that reinstatement brings back to Active
+const REINSTATABLE_STATUSES: PolicyStatus[] = ['Lapsed', 'Cancelled', 'Suspended'];
+
+// Entered only through cancel/lapse so their dates and reason are always recorded
+const ACTION_ONLY_STATUSES: PolicyStatus[] = ['Cancelled', 'Lapsed'];
+
 /**
  * Build DynamoDB record from Policy data
  */
@@ -26,24 +71,23 @@ function buildPolicyRecord(policy: Policy): PolicyRecord {
   return {
     pk: `POLICY#${policy.policy_id}`,
     sk: 'DETAIL',
-    GSI1PK: `CLIENT#${policy.client_id}`,
-    GSI1SK: `POLICY#${policy.policy_id}`,
+    ...policyIndexKeys(policy),
     entity_type: ENTITY_TYPE,
     data: policy,
   };
 }
 
 /**
- * Extract Policy data from DynamoDB record
+ * Extract Policy data from DynamoDB record, as the caller may see it
  */
 function extractPolicy(record: PolicyRecord): Policy {
-  return record.data;
+  return redactForAccess('policy', record.data);
 }
 
 /**
  * Convert Policy to PolicySummary
  */
-function toSummary(policy: Policy): PolicySummary {
+export function toPolicySummary(policy: Policy): PolicySummary {
   return {
     policy_id: policy.policy_id,
     client_id: policy.client_id,
@@ -58,56 +102,143 @@ function toSummary(policy: Policy): PolicySummary {
   };
 }
 
+// Renewal window for renewal_due and renewal reminders
+const RENEWAL_WINDOW_DAYS = 30;
+
 /**
- * Get a policy by ID
+ * Pick the index partition that narrows a policy query the most:
+ * the client's policies, then a status partition, then all policies.
+ * All three sort by renewal date, so a renewal window becomes a sort-key range whichever is used.
  */
-export async function getPolicyById(policyId: string): Promise<Policy | null> {
-  const record = await getItem<PolicyRecord>(`POLICY#${policyId}`, 'DETAIL');
-  return record ? extractPolicy(record) : null;
+function buildPolicyQuery(filters?: PolicyFilters, renewalWindow?: IndexQuery['skRange']): IndexQuery {
+  if (filters?.client_id) {
+    return {
+      index: 'GSI1',
+      partition: clientPartition(filters.client_id),
+      skPrefix: CLIENT_POLICY_PREFIX,
+      skRange: renewalWindow,
+    };
+  }
+  if (filters?.policy_status) {
+    return {
+      index: 'GSI3',
+      partition: statusPartition(ENTITY_TYPE, filters.policy_status),
+      skPrefix: RENEWAL_PREFIX,
+      skRange: renewalWindow,
+    };
+  }
+  return { index: 'GSI2', partition: typePartition(ENTITY_TYPE), skPrefix: RENEWAL_PREFIX, skRange: renewalWindow };
 }
 
 /**
- * Get all policies with optional filters
+ * The renewal_due window, from now to RENEWAL_WINDOW_DAYS ahead
  */
-export async function getPolicies(filters?: PolicyFilters): Promise<Policy[]> {
-  let policies: Policy[];
+function renewalDueWindow(): { from: Date; to: Date } {
+  const now = new Date();
+  return { from: now, to: new Date(now.getTime() + RENEWAL_WINDOW_DAYS * 24 * 60 * 60 * 1000) };
+}
 
-  // If filtering by client_id, use GSI1
-  if (filters?.client_id) {
-    const records = await queryByGSI1<PolicyRecord>(
-      `CLIENT#${filters.client_id}`,
-      { gsi1skPrefix: 'POLICY#' }
-    );
-    policies = records.map(extractPolicy);
-  } else {
-    // Otherwise scan all policies
-    const records = await scanByEntityType<PolicyRecord>(ENTITY_TYPE);
-    policies = records.map(extractPolicy);
-  }
+/**
+ * Build the index query for a set of filters, with renewal_due as a renewal-date range
+ */
+function buildFilteredPolicyQuery(filters: PolicyFilters | undefined, window: { from: Date; to: Date }): IndexQuery {
+  return buildPolicyQuery(
+    filters,
+    filters?.renewal_due ? { from: window.from.toISOString(), to: window.to.toISOString() } : undefined
+  );
+}
 
-  // Apply additional filters
-  if (filters) {
-    if (filters.policy_type) {
-      policies = policies.filter((p) => p.policy_type === filters.policy_type);
-    }
-    if (filters.policy_status) {
-      policies = policies.filter((p) => p.policy_status === filters.policy_status);
-    }
-    if (filters.payment_status) {
-      policies = policies.filter((p) => p.payment_status === filters.payment_status);
-    }
-    if (filters.renewal_due) {
-      const now = new Date();
-      const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-      policies = policies.filter((p) => {
-        if (!p.renewal_date) return false;
-        const renewalDate = new Date(p.renewal_date);
-        return renewalDate >= now && renewalDate <= thirtyDaysFromNow;
-      });
-    }
+/**
+ * Check a policy against the filters the key condition couldn't express (and the exact renewal check)
+ */
+function matchesPolicyFilters(
+  policy: Policy,
+  filters: PolicyFilters | undefined,
+  window: { from: Date; to: Date }
+): boolean {
+  if (!filters) return true;
+  if (filters.policy_type && policy.policy_type !== filters.policy_type) return false;
+  if (filters.policy_status && policy.policy_status !== filters.policy_status) return false;
+  if (filters.payment_status && policy.payment_status !== filters.payment_status) return false;
+  if (filters.renewal_due && !renewsBetween(policy, window.from, window.to)) return false;
+  return true;
+}
+
+/**
+ * Check if a policy renews between two dates (inclusive)
+ */
+function renewsBetween(policy: Policy, from: Date, to: Date): boolean {
+  if (!policy.renewal_date) return false;
+  const renewalDate = new Date(policy.renewal_date);
+  return renewalDate >= from && renewalDate <= to;
+}
+
+/**
+ * Get policies renewing between two dates, optionally in one status, read as a renewal-date range
+ */
+async function getPoliciesRenewingBetween(
+  from: Date,
+  to: Date,
+  policyStatus?: PolicyStatus
+): Promise<Policy[]> {
+  const query = buildPolicyQuery(
+    { policy_status: policyStatus },
+    { from: from.toISOString(), to: to.toISOString() }
+  );
+  const [records, book] = await Promise.all([queryIndex<PolicyRecord>(query), loadAdvisorBook()]);
+  return records.map(extractPolicy).filter((p) => renewsBetween(p, from, to) && canAccessPolicy(p, book));
+}
+
+/**
+ * Read a stored policy, unredacted, for a change. Missing when its client is outside the caller's book.
+ */
+async function loadPolicy(policyId: string): Promise<Policy | null> {
+  const record = await getItem<PolicyRecord>(`POLICY#${policyId}`, 'DETAIL');
+  if (!record) {
+    return null;
   }
+  // Read the client rather than the book, which can lag a client created moments ago
+  return (await getClientById(record.data.client_id)) ? record.data : null;
+}
+
+/**
+ * Get a policy by ID. Policies of clients outside the caller's book are treated as missing.
+ */
+export async function getPolicyById(policyId: string): Promise<Policy | null> {
+  const policy = await loadPolicy(policyId);
+  return policy ? redactForAccess('policy', policy) : null;
+}
 
-  return policies;
+/**
+ * Get all policies in the caller's book with optional filters.
+ * Without a client_id filter an advisor's policies are picked out of a partition shared by every
+ * advisor, so the read grows with the whole table rather than their book; narrow by client when
+ * one is known.
+ */
+export async function getPolicies(filters?: PolicyFilters): Promise<Policy[]> {
+  const window = renewalDueWindow();
+  const query = buildFilteredPolicyQuery(filters, window);
+  console.log('getPolicies - index:', query.index, 'partition:', query.partition, 'range:', JSON.stringify(query.skRange));
+  const [records, book] = await Promise.all([queryIndex<PolicyRecord>(query), loadAdvisorBook()]);
+  return records
+    .map(extractPolicy)
+    .filter((p) => matchesPolicyFilters(p, filters, window) && canAccessPolicy(p, book));
+}
+
+/**
+ * Get one page of policies in renewal-date order (policies without one last)
+ */
+export async function getPolicyPage(
+  filters: PolicyFilters | undefined,
+  page: PaginationParams
+): Promise<PaginatedResponse<Policy>> {
+  const window = renewalDueWindow();
+  const query = buildFilteredPolicyQuery(filters, window);
+  console.log('getPolicyPage - index:', query.index, 'partition:', query.partition, 'limit:', page.limit);
+  const book = await loadAdvisorBook();
+  return paginateIndex<PolicyRecord, Policy>(query, page, extractPolicy, (p) =>
+    matchesPolicyFilters(p, filters, window) && canAccessPolicy(p, book)
+  );
 }
 
 /**
@@ -117,7 +248,18 @@ export async function getPolicySummaries(
   filters?: PolicyFilters
 ): Promise<PolicySummary[]> {
   const policies = await getPolicies(filters);
-  return policies.map(toSummary);
+  return policies.map(toPolicySummary);
+}
+
+/**
+ * Get one page of policy summaries
+ */
+export async function getPolicySummaryPage(
+  filters: PolicyFilters | undefined,
+  page: PaginationParams
+): Promise<PaginatedResponse<PolicySummary>> {
+  const result = await getPolicyPage(filters, page);
+  return { ...result, items: result.items.map(toPolicySummary) };
 }
 
 /**
@@ -134,50 +276,199 @@ export async function getPolicySummariesForClient(
   clientId: string
 ): Promise<PolicySummary[]> {
   const policies = await getPoliciesForClient(clientId);
-  return policies.map(toSummary);
+  return policies.map(toPolicySummary);
+}
+
+/**
+ * Check the caller can put a policy under a client
+ */
+async function assertClientAccess(clientId: string): Promise<void> {
+  if (!(await getClientById(clientId))) {
+    throw new AccessDeniedError('policy', `client ${clientId} is not in your book`);
+  }
 }
 
 /**
- * Create a new policy
+ * Create a new policy for a client in the caller's book
  */
 export async function createPolicy(
   policyData: Omit<Policy, 'policy_id' | 'created_at' | 'updated_at'>
 ): Promise<Policy> {
+  requirePermission('policies:create');
+  requireFieldWriteAccess('policy', policyData);
+  await assertClientAccess(policyData.client_id);
   const now = getCurrentTimestamp();
+  const actor = getAccessIdentity().advisor_id;
   const policy: Policy = {
     ...policyData,
     policy_id: generateId('POL'),
     created_at: now,
+    created_by: actor,
     updated_at: now,
+    updated_by: actor,
+    record_version: 1,
   };
 
   const record = buildPolicyRecord(policy);
-  await putItem(record);
-  return policy;
+  await putItemsTogether([{ item: record }, auditWrite('policy', policy.policy_id, 'create', null, policy)]);
+  await indexSearchTokens('policy', record);
+  return redactForAccess('policy', policy);
 }
 
 /**
- * Update a policy
+ * Update a policy. Moving it to another client needs access to that client too.
  */
 export async function updatePolicy(
   policyId: string,
-  updates: Partial<Policy>
+  updates: Partial<Policy>,
+  expectedVersion?: number
 ): Promise<Policy | null> {
-  const existing = await getPolicyById(policyId);
-  if (!existing) {
-    return null;
+  requirePermission('policies:update');
+  requireFieldWriteAccess('policy', updates);
+  if (updates.client_id) {
+    await assertClientAccess(updates.client_id);
+  }
+  const updated = await modifyVersionedItem<Policy>({
+    entity: 'policy',
+    load: () => loadPolicy(policyId),
+    buildRecord: buildPolicyRecord,
+    redact: (policy) => redactForAccess('policy', policy),
+    relatedWrites: (existing, updated) => [auditWrite('policy', policyId, 'update', existing, updated)],
+    expectedVersion,
+    change: (existing) => {
+      if (updates.policy_status && updates.policy_status !== existing.policy_status) {
+        const allowed = getAllowedPolicyStatusUpdates(existing.policy_status);
+        if (!allowed.includes(updates.policy_status)) {
+          throw new InvalidTransitionError('policy', existing.policy_status, updates.policy_status, allowed);
+        }
+      }
+
+      return {
+        ...existing,
+        ...updates,
+        policy_id: policyId, // Ensure ID doesn't change
+        updated_at: getCurrentTimestamp(),
+        updated_by: getAccessIdentity().advisor_id,
+      };
+    },
+  });
+  if (updated) {
+    await indexSearchTokens('policy', buildPolicyRecord(updated));
   }
+  return updated && redactForAccess('policy', updated);
+}
 
-  const updatedPolicy: Policy = {
-    ...existing,
-    ...updates,
-    policy_id: policyId, // Ensure ID doesn't change
-    updated_at: getCurrentTimestamp(),
-  };
+/**
+ * Statuses a policy can move to from its current status
+ */
+export function getAllowedPolicyTransitions(from: PolicyStatus): PolicyStatus[] {
+  return POLICY_STATUS_TRANSITIONS[from] || [];
+}
 
-  const record = buildPolicyRecord(updatedPolicy);
-  await putItem(record);
-  return updatedPolicy;
+/**
+ * Status changes allowed through a plain update.
+ * Cancelling, lapsing and reinstating go through their own actions.
+ */
+export function getAllowedPolicyStatusUpdates(from: PolicyStatus): PolicyStatus[] {
+  return getAllowedPolicyTransitions(from).filter(
+    (to) => !ACTION_ONLY_STATUSES.includes(to) && !(to === 'Active' && REINSTATABLE_STATUSES.includes(from))
+  );
+}
+
+/**
+ * Move a policy to a new status along with its lifecycle fields
+ */
+async function transitionPolicy(
+  policyId: string,
+  action: 'cancel' | 'lapse' | 'reinstate',
+  to: PolicyStatus,
+  changes: Partial<Policy>,
+  options: { allowedFrom?: PolicyStatus[]; expectedVersion?: number } = {}
+): Promise<Policy | null> {
+  requirePermission('policies:lifecycle');
+  const updated = await modifyVersionedItem<Policy>({
+    entity: 'policy',
+    load: () => loadPolicy(policyId),
+    buildRecord: buildPolicyRecord,
+    redact: (policy) => redactForAccess('policy', policy),
+    relatedWrites: (existing, updated) => [auditWrite('policy', policyId, action, existing, updated)],
+    expectedVersion: options.expectedVersion,
+    change: (existing) => {
+      const from = existing.policy_status;
+      const allowed = getAllowedPolicyTransitions(from);
+      if (!allowed.includes(to) || (options.allowedFrom && !options.allowedFrom.includes(from))) {
+        throw new InvalidTransitionError('policy', from, to, allowed, action);
+      }
+
+      return {
+        ...existing,
+        ...changes,
+        policy_status: to,
+        updated_at: getCurrentTimestamp(),
+        updated_by: getAccessIdentity().advisor_id,
+      };
+    },
+  });
+  if (updated) {
+    await indexSearchTokens('policy', buildPolicyRecord(updated));
+  }
+  return updated && redactForAccess('policy', updated);
+}
+
+/**
+ * Cancel a policy
+ */
+export async function cancelPolicy(
+  policyId: string,
+  reason: CancellationReason,
+  cancellationDate?: string,
+  expectedVersion?: number
+): Promise<Policy | null> {
+  return transitionPolicy(
+    policyId,
+    'cancel',
+    'Cancelled',
+    {
+      cancellation_reason: reason,
+      cancellation_date: cancellationDate || getCurrentTimestamp(),
+    },
+    { expectedVersion }
+  );
+}
+
+/**
+ * Mark a policy as lapsed
+ */
+export async function lapsePolicy(
+  policyId: string,
+  lapseDate?: string,
+  expectedVersion?: number
+): Promise<Policy | null> {
+  return transitionPolicy(
+    policyId,
+    'lapse',
+    'Lapsed',
+    { lapse_date: lapseDate || getCurrentTimestamp() },
+    { expectedVersion }
+  );
+}
+
+/**
+ * Reinstate a lapsed, cancelled or suspended policy.
+ * Earlier cancellation and lapse dates are kept as history.
+ */
+export async function reinstatePolicy(
+  policyId: string,
+  reinstatementDate?: string,
+  expectedVersion?: number
+): Promise<Policy | null> {
+  return transitionPolicy(
+    policyId,
+    'reinstate',
+    'Active',
+    { reinstatement_date: reinstatementDate || getCurrentTimestamp() },
+    { allowedFrom: REINSTATABLE_STATUSES, expectedVersion }
+  );
 }
 
 /**
@@ -220,8 +511,7 @@ export async function getTotalCoverageForClient(clientId: string): Promise<numbe
  * Get policies by type
  */
 export async function getPoliciesByType(type: string): Promise<Policy[]> {
-  const policies = await getPolicies();
-  return policies.filter((p) => p.policy_type === type);
+  return getPolicies({ policy_type: type as PolicyType });
 }
 
 /**
@@ -237,7 +527,6 @@ export async function getPoliciesByStatus(
  * Get policies expiring this week
  */
 export async function getExpiringThisWeek(): Promise<Policy[]> {
-  const policies = await getPolicies();
   const now = new Date();
   const startOfWeek = new Date(now);
   startOfWeek.setDate(now.getDate() - now.getDay());
@@ -245,26 +534,17 @@ export async function getExpiringThisWeek(): Promise<Policy[]> {
   const endOfWeek = new Date(startOfWeek);
   endOfWeek.setDate(startOfWeek.getDate() + 7);
 
-  return policies.filter((p) => {
-    if (!p.renewal_date) return false;
-    const renewalDate = new Date(p.renewal_date);
-    return renewalDate >= now && renewalDate < endOfWeek;
-  });
+  const policies = await getPoliciesRenewingBetween(now, endOfWeek);
+  return policies.filter((p) => new Date(p.renewal_date!) < endOfWeek);
 }
 
 /**
  * Get policies expiring this month
  */
 export async function getExpiringThisMonth(): Promise<Policy[]> {
-  const policies = await getPolicies();
   const now = new Date();
   const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-
-  return policies.filter((p) => {
-    if (!p.renewal_date) return false;
-    const renewalDate = new Date(p.renewal_date);
-    return renewalDate >= now && renewalDate <= endOfMonth;
-  });
+  return getPoliciesRenewingBetween(now, endOfMonth);
 }
 
 /**
@@ -282,22 +562,6 @@ export async function getPoliciesByCoverage(
   });
 }
 
-/**
- * Search policies by policy number, type, or status
- */
-export async function searchPolicies(query: string): Promise<Policy[]> {
-  const policies = await getPolicies();
-  const searchTerm = query.toLowerCase();
-
-  return policies.filter((p) =>
-    p.policy_number.toLowerCase().includes(searchTerm) ||
-    p.policy_type.toLowerCase().includes(searchTerm) ||
-    p.policy_status.toLowerCase().includes(searchTerm) ||
-    (p.agent_notes && p.agent_notes.toLowerCase().includes(searchTerm)) ||
-    (p.tags && p.tags.some((tag) => tag.toLowerCase().includes(searchTerm)))
-  );
-}
-
 /**
  * Get policy counts grouped by type and status
  */
@@ -334,14 +598,5 @@ export async function getPolicyCount(): Promise<{
  * Get policies that need renewal action (expiring within 30 days and active)
  */
 export async function getRenewalReminders(): Promise<Policy[]> {
-  const policies = await getPolicies();
-  const now = new Date();
-  const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-
-  return policies.filter((p) => {
-    if (p.policy_status !== 'Active') return false;
-    if (!p.renewal_date) return false;
-    const renewalDate = new Date(p.renewal_date);
-    return renewalDate >= now && renewalDate <= thirtyDaysFromNow;
-  });
+  return getPolicies({ policy_status: 'Active', renewal_due: true });
 }
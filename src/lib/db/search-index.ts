@@ -0,0 +1,162 @@
+/**
+ * Search Index
+ * Keeps the full-text token items in step with client, policy and task writes,
+ * and looks parsed queries up in them. See search-tokens.ts for the layout.
+ */
+
+import {
+  queryByPk,
+  queryIndex,
+  batchWriteItems,
+  batchDeleteItems,
+  type ItemKey,
+} from './dynamodb';
+import {
+  buildSearchTokenRecords,
+  searchTokenPartition,
+  SEARCH_TOKEN_SK_PREFIX,
+  type ParsedSearchQuery,
+  type SearchEntities,
+  type SearchEntityType,
+  type SearchTerm,
+  type SearchTokenRecord,
+} from './search-tokens';
+
+/**
+ * A record the index says matches a query
+ */
+export interface SearchIndexMatch extends ItemKey {
+  entity_type: SearchEntityType;
+  entity_id: string;
+}
+
+/**
+ * Rewrite a record's token items after it was written: put new or changed tokens and
+ * delete those it no longer has. Called after the record itself is saved; a failure is
+ * logged rather than failing the save, and the rebuild script brings the index back in step.
+ */
+export async function indexSearchTokens<K extends SearchEntityType>(
+  entityType: K,
+  record: ItemKey & { data: SearchEntities[K] }
+): Promise<void> {
+  try {
+    const tokens = buildSearchTokenRecords(entityType, record);
+    const existing = await queryByPk<SearchTokenRecord>(record.pk, { skPrefix: SEARCH_TOKEN_SK_PREFIX });
+    const existingBySk = new Map(existing.map((item) => [item.sk, item]));
+    const currentSks = new Set(tokens.map((item) => item.sk));
+
+    const changed = tokens.filter((item) => {
+      const previous = existingBySk.get(item.sk);
+      return !previous || JSON.stringify(previous.data) !== JSON.stringify(item.data);
+    });
+    const stale = existing.filter((item) => !currentSks.has(item.sk));
+
+    await batchWriteItems(changed);
+    await batchDeleteItems(stale);
+    console.log(`Search index for ${record.pk}: ${changed.length} written, ${stale.length} removed`);
+  } catch (error) {
+    console.error(`Search index update failed for ${record.pk}:`, error);
+  }
+}
+
+/**
+ * Token items for a term: one token exactly, or every token starting with a prefix
+ */
+function lookupToken(token: string, prefix: boolean): Promise<SearchTokenRecord[]> {
+  return queryIndex<SearchTokenRecord>({
+    index: 'GSI1',
+    partition: searchTokenPartition(token),
+    skPrefix: prefix ? token : `${token}#`,
+  });
+}
+
+/**
+ * Combine the positions of two token items of the same record
+ */
+function mergePositions(a: SearchTokenRecord, b: SearchTokenRecord): SearchTokenRecord {
+  const positions = { ...a.data.positions };
+  for (const [field, list] of Object.entries(b.data.positions)) {
+    positions[field] = [...(positions[field] || []), ...list];
+  }
+  return { ...a, data: { ...a.data, positions } };
+}
+
+/**
+ * Records (by pk) containing a phrase: its tokens in order at the right offsets in one field
+ */
+function matchPhrase(
+  phrase: Extract<SearchTerm, { kind: 'phrase' }>['tokens'],
+  postings: Map<string, SearchTokenRecord>[]
+): Set<string> {
+  const matched = new Set<string>();
+  for (const [pk, first] of postings[0]) {
+    const found = Object.entries(first.data.positions).some(([field, starts]) =>
+      starts.some((start) =>
+        phrase.every(({ offset }, i) =>
+          postings[i].get(pk)?.data.positions[field]?.includes(start + offset)
+        )
+      )
+    );
+    if (found) {
+      matched.add(pk);
+    }
+  }
+  return matched;
+}
+
+/**
+ * Find the records matching a parsed query, optionally only of some entity types
+ */
+export async function findSearchMatches(
+  query: ParsedSearchQuery,
+  types?: SearchEntityType[]
+): Promise<SearchIndexMatch[]> {
+  // Each distinct token (or prefix) is looked up once, however often the query uses it
+  const lookups = new Map<string, Promise<Map<string, SearchTokenRecord>>>();
+  const postingsFor = (token: string, prefix: boolean) => {
+    const key = `${prefix ? '*' : '='}${token}`;
+    let lookup = lookups.get(key);
+    if (!lookup) {
+      lookup = lookupToken(token, prefix).then((items) => {
+        const byRecord = new Map<string, SearchTokenRecord>();
+        for (const item of items) {
+          // A prefix can hit several tokens of one record; merge their positions
+          const previous = byRecord.get(item.pk);
+          byRecord.set(item.pk, previous ? mergePositions(previous, item) : item);
+        }
+        return byRecord;
+      });
+      lookups.set(key, lookup);
+    }
+    return lookup;
+  };
+
+  const recordsMatching = async (term: SearchTerm): Promise<Map<string, SearchTokenRecord>> => {
+    if (term.kind !== 'phrase') {
+      return postingsFor(term.token, term.kind === 'prefix');
+    }
+    const postings = await Promise.all(term.tokens.map(({ token }) => postingsFor(token, false)));
+    const matched = matchPhrase(term.tokens, postings);
+    return new Map([...postings[0]].filter(([pk]) => matched.has(pk)));
+  };
+
+  const matches = new Map<string, SearchTokenRecord>();
+  for (const clause of query.clauses) {
+    const termMatches = await Promise.all(clause.map(recordsMatching));
+    const [first, ...rest] = termMatches;
+    for (const [pk, item] of first) {
+      if (rest.every((other) => other.has(pk))) {
+        matches.set(pk, item);
+      }
+    }
+  }
+
+  return [...matches.values()]
+    .filter((item) => !types || types.includes(item.data.entity_type))
+    .map((item) => ({
+      pk: item.pk,
+      sk: item.data.record_sk,
+      entity_type: item.data.entity_type,
+      entity_id: item.data.entity_id,
+    }));
+}
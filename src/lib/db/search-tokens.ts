@@ -0,0 +1,315 @@
+/**
+ * Search Tokens
+ * How records are broken into full-text search tokens, and how search queries are parsed.
+ *
+ * Every indexed record gets one token item per distinct token, kept in the record's own partition:
+ *   pk <record pk>, sk SEARCH#<token>
+ *   GSI1PK SEARCH#<first two characters of the token>, GSI1SK <token>#<record pk>
+ * so a term is a begins_with("<token>#") query on GSI1 and a prefix is the same without the "#".
+ * Each item keeps the token's positions per field, for phrase matching.
+ *
+ * Tokens are lowercased, accent-folded words with common English suffixes stripped,
+ * so "policies", "policy" and "Policy" are all "polic".
+ *
+ * Kept free of the DynamoDB client so the rebuild script derives exactly the same items.
+ */
+
+import type { BaseRecord, Client, Policy, Task } from '../../types';
+
+export type SearchEntityType = 'task' | 'client' | 'policy';
+
+export type SearchFieldValue = string | string[] | undefined;
+
+export type SearchFieldReaders<T> = Record<string, (record: T) => SearchFieldValue>;
+
+/**
+ * Which fields of an entity are indexed, by how strongly a match in them counts when ranking
+ */
+export interface SearchFields<T> {
+  id: (record: T) => string;
+  label: (record: T) => string;
+  // IDs and reference numbers; the whole query equal to one is the strongest match
+  ids: SearchFieldReaders<T>;
+  names: SearchFieldReaders<T>;
+  // Notes, descriptions, tags and other free text
+  text: SearchFieldReaders<T>;
+  // Records kept out of the index
+  excluded?: (record: T) => boolean;
+}
+
+/**
+ * Entity data for each searchable entity type
+ */
+export interface SearchEntities {
+  task: Task;
+  client: Client;
+  policy: Policy;
+}
+
+export const SEARCH_FIELDS: { [K in SearchEntityType]: SearchFields<SearchEntities[K]> } = {
+  task: {
+    id: (t) => t.task_id,
+    label: (t) => t.title,
+    ids: { task_id: (t) => t.task_id },
+    names: { title: (t) => t.title, client_name: (t) => t.client_name },
+    text: { description: (t) => t.description, tags: (t) => t.tags, task_type: (t) => t.task_type },
+  },
+  client: {
+    id: (c) => c.client_id,
+    label: (c) => `${c.first_name} ${c.last_name}`,
+    ids: { client_id: (c) => c.client_id },
+    names: {
+      name: (c) => `${c.first_name} ${c.last_name}`,
+      preferred_name: (c) => c.preferred_name,
+    },
+    text: {
+      primary_email: (c) => c.primary_email,
+      secondary_email: (c) => c.secondary_email,
+      primary_phone: (c) => c.primary_phone,
+      employer_name: (c) => c.employer_name,
+      internal_notes: (c) => c.internal_notes,
+      last_interaction_summary: (c) => c.last_interaction_summary,
+      client_tags: (c) => c.client_tags,
+    },
+    // Soft-deleted clients drop out of search, as they do out of every other index
+    excluded: (c) => Boolean(c.deleted_at),
+  },
+  policy: {
+    id: (p) => p.policy_id,
+    label: (p) => `${p.policy_number} (${p.policy_type})`,
+    ids: { policy_id: (p) => p.policy_id, policy_number: (p) => p.policy_number },
+    names: { policy_type: (p) => p.policy_type },
+    text: {
+      policy_status: (p) => p.policy_status,
+      coverage_description: (p) => p.coverage_description,
+      agent_notes: (p) => p.agent_notes,
+      customer_visible_notes: (p) => p.customer_visible_notes,
+      tags: (p) => p.tags,
+    },
+  },
+};
+
+export const SEARCH_ENTITY_TYPES = Object.keys(SEARCH_FIELDS) as SearchEntityType[];
+
+export const SEARCH_TOKEN_ENTITY = 'SEARCH_TOKEN';
+export const SEARCH_TOKEN_SK_PREFIX = 'SEARCH#';
+
+/**
+ * Token item for one token of one record
+ */
+export interface SearchTokenRecord extends BaseRecord {
+  entity_type: typeof SEARCH_TOKEN_ENTITY;
+  data: {
+    entity_type: SearchEntityType;
+    entity_id: string;
+    // Sort key of the record itself (the token item shares its pk)
+    record_sk: string;
+    token: string;
+    // Positions of the token in each field it occurs in
+    positions: Record<string, number[]>;
+  };
+}
+
+/**
+ * One word of a text, as indexed
+ */
+export interface TextToken {
+  token: string;
+  // Lowercased, accent-folded word before stemming
+  word: string;
+  // Character offsets in the original text
+  start: number;
+  end: number;
+  // Word position, counting skipped stopwords, so phrases line up
+  position: number;
+}
+
+/**
+ * A term of a parsed query
+ */
+export type SearchTerm =
+  | { kind: 'term'; token: string; word: string }
+  | { kind: 'prefix'; token: string; word: string }
+  | { kind: 'phrase'; tokens: { token: string; word: string; offset: number }[] };
+
+/**
+ * A parsed query: any clause may match (OR); every term in a clause must (AND)
+ */
+export interface ParsedSearchQuery {
+  clauses: SearchTerm[][];
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'was', 'with',
+]);
+
+// Stems shorter than this are left alone
+const MIN_STEM_LENGTH = 3;
+// Prefixes shorter than this would match too much; they're treated as whole terms
+const MIN_PREFIX_LENGTH = 2;
+// Position gap between the values of a list field, so a phrase can't span two tags
+const VALUE_POSITION_GAP = 100;
+
+function foldWord(word: string): string {
+  return word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Strip common English suffixes. Only ever removes characters, so a word's stem is
+ * always a prefix of the word, which keeps prefix matching on stems sound.
+ */
+export function stemToken(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /\d/.test(word)) {
+    return word;
+  }
+
+  const strip = (stem: string, suffix: string) =>
+    stem.endsWith(suffix) && stem.length - suffix.length >= MIN_STEM_LENGTH
+      ? stem.slice(0, -suffix.length)
+      : null;
+  const undouble = (stem: string) =>
+    /([^aeiouls])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+
+  const ies = strip(word, 'ies') ?? strip(word, 'ied');
+  if (ies) return ies;
+
+  // Plurals first, so "meetings" goes on to lose its -ing like "meeting"
+  let stem = word;
+  if (/(s|x|z|ch|sh)es$/.test(stem)) {
+    stem = strip(stem, 'es') ?? stem;
+  } else if (/[^sui]s$/.test(stem)) {
+    stem = strip(stem, 's') ?? stem;
+  }
+
+  const ing = strip(stem, 'ing');
+  if (ing) return undouble(ing);
+  const ed = strip(stem, 'ed');
+  if (ed) return undouble(ed);
+  return strip(stem, 'ly') ?? strip(stem, 'y') ?? stem;
+}
+
+/**
+ * Break text into indexed tokens, skipping stopwords
+ */
+export function tokenizeText(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  let position = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = foldWord(match[0]);
+    if (!STOPWORDS.has(word)) {
+      tokens.push({
+        token: stemToken(word),
+        word,
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+        position,
+      });
+    }
+    position++;
+  }
+  return tokens;
+}
+
+/**
+ * Values of a field, skipping empty ones
+ */
+export function searchFieldValues(value: SearchFieldValue): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(Boolean);
+}
+
+/**
+ * Every indexed field of an entity with its readers, in ranking order
+ */
+export function allSearchFields<T>(fields: SearchFields<T>): SearchFieldReaders<T> {
+  return { ...fields.ids, ...fields.names, ...fields.text };
+}
+
+export function searchTokenPartition(token: string): string {
+  return `SEARCH#${token.slice(0, MIN_PREFIX_LENGTH)}`;
+}
+
+/**
+ * Token items for a record; none if the record is kept out of the index
+ */
+export function buildSearchTokenRecords<K extends SearchEntityType>(
+  entityType: K,
+  record: { pk: string; sk: string; data: SearchEntities[K] }
+): SearchTokenRecord[] {
+  const fields = SEARCH_FIELDS[entityType] as SearchFields<SearchEntities[K]>;
+  if (fields.excluded?.(record.data)) {
+    return [];
+  }
+
+  const positions = new Map<string, Record<string, number[]>>();
+  for (const [field, read] of Object.entries(allSearchFields(fields))) {
+    let offset = 0;
+    for (const value of searchFieldValues(read(record.data))) {
+      const tokens = tokenizeText(value);
+      for (const { token, position } of tokens) {
+        const byField = positions.get(token) ?? {};
+        (byField[field] ??= []).push(offset + position);
+        positions.set(token, byField);
+      }
+      offset += (tokens[tokens.length - 1]?.position ?? 0) + VALUE_POSITION_GAP;
+    }
+  }
+
+  const entityId = fields.id(record.data);
+  return [...positions.entries()].map(([token, byField]) => ({
+    pk: record.pk,
+    sk: `${SEARCH_TOKEN_SK_PREFIX}${token}`,
+    GSI1PK: searchTokenPartition(token),
+    GSI1SK: `${token}#${record.pk}`,
+    entity_type: SEARCH_TOKEN_ENTITY,
+    data: { entity_type: entityType, entity_id: entityId, record_sk: record.sk, token, positions: byField },
+  }));
+}
+
+/**
+ * Parse a search query.
+ *   renewal review   - both words (AND is implied; "AND" may be written out)
+ *   renewal OR lapse - either word
+ *   "annual review"  - the words next to each other, in order, in the same field
+ *   renew*           - any word starting with "renew"
+ * A word with punctuation inside ("POL-100", "jo@example.com") is matched as a phrase of its parts.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const clauses: SearchTerm[][] = [[]];
+
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const [, quoted, bare] = match;
+    if (bare === 'OR' || bare === '|') {
+      clauses.push([]);
+      continue;
+    }
+    if (bare === 'AND' || bare === '&&') {
+      continue;
+    }
+
+    const text = quoted ?? bare;
+    const isPrefix = quoted === undefined && text.endsWith('*');
+    const tokens = tokenizeText(isPrefix ? text.slice(0, -1) : text);
+    const clause = clauses[clauses.length - 1];
+
+    if (tokens.length > 1) {
+      const first = tokens[0].position;
+      clause.push({
+        kind: 'phrase',
+        tokens: tokens.map(({ token, word, position }) => ({ token, word, offset: position - first })),
+      });
+    } else if (tokens.length === 1) {
+      const { token, word } = tokens[0];
+      clause.push(
+        isPrefix && word.length >= MIN_PREFIX_LENGTH
+          ? { kind: 'prefix', token, word }
+          : { kind: 'term', token, word }
+      );
+    }
+  }
+
+  return { clauses: clauses.filter((clause) => clause.length > 0) };
+}
@@ -1,15 +1,81 @@
 /**
  * Search Module
- * Provides unified search capabilities across tasks, clients, and policies
+ * Ranked full-text search across tasks, clients, and policies, over the token index
+ * (search-tokens.ts, search-index.ts). Backs both GET /api/search and the chat search intents.
  */
 
-import { searchTasks } from './tasks';
-import { searchClients } from './clients';
-import { searchPolicies } from './policies';
-import type { Task, Client, Policy } from '../../types';
+import { batchGetItems } from './dynamodb';
+import {
+  loadAdvisorBook,
+  canAccessClient,
+  canAccessPolicy,
+  canAccessTask,
+  redactForAccess,
+  type AdvisorBook,
+} from './access';
+import { findSearchMatches } from './search-index';
+import {
+  parseSearchQuery,
+  tokenizeText,
+  searchFieldValues,
+  SEARCH_FIELDS,
+  SEARCH_ENTITY_TYPES,
+  type ParsedSearchQuery,
+  type SearchEntities,
+  type SearchEntityType,
+  type SearchFieldReaders,
+  type SearchFields,
+  type TextToken,
+} from './search-tokens';
+import type { BaseRecord, Task, Client, Policy } from '../../types';
 
 /**
- * Combined search results interface
+ * How a record matched the query, strongest first
+ */
+export type SearchMatchKind = 'id' | 'name_prefix' | 'name' | 'text';
+
+/**
+ * Where the query matched in one field. Ranges are offsets into the snippet.
+ */
+export interface SearchHighlight {
+  field: string;
+  snippet: string;
+  ranges: { start: number; end: number }[];
+}
+
+interface SearchHitBase {
+  id: string;
+  label: string;
+  // 0-1, 1 being an exact ID or policy number match
+  score: number;
+  match: SearchMatchKind;
+  highlights: SearchHighlight[];
+}
+
+export type SearchHit =
+  | (SearchHitBase & { entity_type: 'task'; record: Task })
+  | (SearchHitBase & { entity_type: 'client'; record: Client })
+  | (SearchHitBase & { entity_type: 'policy'; record: Policy });
+
+export interface SearchOptions {
+  // Entity types to search; all of them when unset
+  types?: SearchEntityType[];
+  limit?: number;
+}
+
+/**
+ * Ranked results of a global search
+ */
+export interface GlobalSearchResults {
+  query: string;
+  // Matches per entity type, before the limit
+  counts: Record<SearchEntityType, number>;
+  total: number;
+  hits: SearchHit[];
+}
+
+/**
+ * Search hits grouped by entity type, each list in rank order
  */
 export interface SearchResults {
   tasks: Task[];
@@ -17,20 +83,216 @@ export interface SearchResults {
   policies: Policy[];
 }
 
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+const MATCH_SCORES: Record<SearchMatchKind, number> = {
+  id: 1,
+  name_prefix: 0.75,
+  name: 0.5,
+  text: 0.25,
+};
+
+// Characters of context kept either side of the first match in a snippet
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * A query word, as matched against the words of a record
+ */
+interface QueryWord {
+  token: string;
+  word: string;
+  prefix: boolean;
+}
+
+function queryWords(query: ParsedSearchQuery): QueryWord[] {
+  return query.clauses.flat().flatMap((term) =>
+    term.kind === 'phrase'
+      ? term.tokens.map(({ token, word }) => ({ token, word, prefix: false }))
+      : [{ token: term.token, word: term.word, prefix: term.kind === 'prefix' }]
+  );
+}
+
+function matchesWord(indexed: TextToken, query: QueryWord): boolean {
+  return query.prefix ? indexed.token.startsWith(query.token) : indexed.token === query.token;
+}
+
 /**
- * Global search across all entities
- * Searches tasks, clients, and policies and returns combined results
+ * Highlight the matched words of a value, cut down to a snippet around the first one
  */
-export async function globalSearch(query: string): Promise<SearchResults> {
-  const [tasks, clients, policies] = await Promise.all([
-    searchTasks(query),
-    searchClients(query),
-    searchPolicies(query),
-  ]);
+function highlight(field: string, value: string, matched: TextToken[]): SearchHighlight {
+  const start = Math.max(0, matched[0].start - SNIPPET_CONTEXT);
+  const end = Math.min(value.length, matched[0].end + SNIPPET_CONTEXT);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < value.length ? '…' : '';
+  const shift = prefix.length - start;
 
   return {
-    tasks,
-    clients,
-    policies,
+    field,
+    snippet: `${prefix}${value.slice(start, end)}${suffix}`,
+    ranges: matched
+      .filter((token) => token.end <= end)
+      .map((token) => ({ start: token.start + shift, end: token.end + shift })),
   };
 }
+
+/**
+ * Score one record against the query words. Returns null if no field matches.
+ *   id          - an ID field equals the whole query ("pol-100" for POL-100)
+ *   name_prefix - a name word starts with what was typed
+ *   name        - a name word matches only once stemmed ("policies" for Policy)
+ *   text        - only notes, descriptions, tags or contact details match
+ */
+function scoreRecord<T>(
+  record: T,
+  wholeQuery: string,
+  words: QueryWord[],
+  fields: SearchFields<T>
+): Omit<SearchHitBase, 'id' | 'label'> | null {
+  let match: SearchMatchKind | null = null;
+  const highlights: SearchHighlight[] = [];
+
+  const groups: [SearchFieldReaders<T>, (tokens: TextToken[], matched: TextToken[]) => SearchMatchKind][] = [
+    [fields.ids, (tokens) => (tokens.map((t) => t.word).join(' ') === wholeQuery ? 'id' : 'text')],
+    [
+      fields.names,
+      (_, matched) =>
+        matched.some((t) => words.some((q) => t.word.startsWith(q.word))) ? 'name_prefix' : 'name',
+    ],
+    [fields.text, () => 'text'],
+  ];
+
+  for (const [group, kindOf] of groups) {
+    for (const [field, read] of Object.entries(group)) {
+      for (const value of searchFieldValues(read(record))) {
+        const tokens = tokenizeText(value);
+        const matched = tokens.filter((token) => words.some((q) => matchesWord(token, q)));
+        if (matched.length === 0) {
+          continue;
+        }
+        highlights.push(highlight(field, value, matched));
+        const kind = kindOf(tokens, matched);
+        if (!match || MATCH_SCORES[kind] > MATCH_SCORES[match]) {
+          match = kind;
+        }
+      }
+    }
+  }
+
+  return match ? { score: MATCH_SCORES[match], match, highlights } : null;
+}
+
+/**
+ * Check the caller can see a search hit; the index itself covers every advisor's records
+ */
+function canAccessHit(hit: SearchHit, book: AdvisorBook): boolean {
+  switch (hit.entity_type) {
+    case 'task':
+      return canAccessTask(hit.record, book);
+    case 'client':
+      return canAccessClient(hit.record);
+    case 'policy':
+      return canAccessPolicy(hit.record, book);
+  }
+}
+
+/**
+ * Rank one record the index matched. Null if it no longer matches (the index lags a write)
+ * or has since left the index. Fields the caller may not see are removed first, so a match
+ * only in those (e.g. internal notes) is no match.
+ */
+function toHit<K extends SearchEntityType>(
+  entityType: K,
+  stored: SearchEntities[K],
+  wholeQuery: string,
+  words: QueryWord[]
+): SearchHit | null {
+  const fields = SEARCH_FIELDS[entityType] as SearchFields<SearchEntities[K]>;
+  if (fields.excluded?.(stored)) {
+    return null;
+  }
+  const data = entityType === 'task' ? stored : redactForAccess(entityType, stored);
+  const scored = scoreRecord(data, wholeQuery, words, fields);
+  if (!scored) {
+    return null;
+  }
+  return { entity_type: entityType, id: fields.id(data), label: fields.label(data), ...scored, record: data } as SearchHit;
+}
+
+/**
+ * Global search across all entities in the caller's book. See parseSearchQuery for the query syntax.
+ * Hits are ranked: exact ID or policy number > name prefix > stemmed name match > other text,
+ * then by label. Counts are per entity type, before the limit is applied.
+ */
+export async function globalSearch(query: string, options: SearchOptions = {}): Promise<GlobalSearchResults> {
+  const types = options.types && options.types.length > 0 ? options.types : SEARCH_ENTITY_TYPES;
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+  const counts: Record<SearchEntityType, number> = { task: 0, client: 0, policy: 0 };
+
+  const parsed = parseSearchQuery(query);
+  if (parsed.clauses.length === 0) {
+    return { query, counts, total: 0, hits: [] };
+  }
+
+  const [matches, book] = await Promise.all([findSearchMatches(parsed, types), loadAdvisorBook()]);
+  const records = await batchGetItems<BaseRecord & { data: SearchEntities[SearchEntityType] }>(matches);
+  const recordsByPk = new Map(records.map((record) => [record.pk, record.data]));
+  console.log('Search index matches:', matches.length, 'records loaded:', records.length);
+
+  const wholeQuery = tokenizeText(query).map((token) => token.word).join(' ');
+  const words = queryWords(parsed);
+  const hits: SearchHit[] = [];
+  for (const { pk, entity_type } of matches) {
+    const data = recordsByPk.get(pk);
+    const hit = data ? toHit(entity_type, data, wholeQuery, words) : null;
+    if (hit && canAccessHit(hit, book)) {
+      hits.push(hit);
+      counts[hit.entity_type]++;
+    }
+  }
+  hits.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+
+  return { query, counts, total: hits.length, hits: hits.slice(0, limit) };
+}
+
+/**
+ * Group ranked hits back into per-entity lists, keeping rank order
+ */
+export function groupSearchHits(hits: SearchHit[]): SearchResults {
+  const results: SearchResults = { tasks: [], clients: [], policies: [] };
+  for (const hit of hits) {
+    switch (hit.entity_type) {
+      case 'task':
+        results.tasks.push(hit.record);
+        break;
+      case 'client':
+        results.clients.push(hit.record);
+        break;
+      case 'policy':
+        results.policies.push(hit.record);
+        break;
+    }
+  }
+  return results;
+}
+
+/**
+ * Search tasks, best matches first
+ */
+export async function searchTasks(query: string): Promise<Task[]> {
+  return groupSearchHits((await globalSearch(query, { types: ['task'], limit: MAX_SEARCH_LIMIT })).hits).tasks;
+}
+
+/**
+ * Search clients, best matches first
+ */
+export async function searchClients(query: string): Promise<Client[]> {
+  return groupSearchHits((await globalSearch(query, { types: ['client'], limit: MAX_SEARCH_LIMIT })).hits).clients;
+}
+
+/**
+ * Search policies, best matches first
+ */
+export async function searchPolicies(query: string): Promise<Policy[]> {
+  return groupSearchHits((await globalSearch(query, { types: ['policy'], limit: MAX_SEARCH_LIMIT })).hits).policies;
+}
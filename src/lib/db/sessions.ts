@@ -0,0 +1,259 @@
+/**
+ * Chat Session Database Operations
+ * Stores conversation messages so a chat can be resumed from any device
+ */
+
+import {
+  getItem,
+  putItemsTogether,
+  queryByPk,
+  generateId,
+  getCurrentTimestamp,
+  isConditionalCheckFailed,
+  type IndexQuery,
+  type WriteCondition,
+} from './dynamodb';
+import { AccessDeniedError } from './errors';
+import { getAccessIdentity, canAccessAllRecords } from './access';
+import { paginateIndex } from './pagination';
+import {
+  advisorPartition,
+  sessionIndexKeys,
+  typePartition,
+  ADVISOR_SESSION_PREFIX,
+  UPDATED_PREFIX,
+} from './index-keys';
+import type {
+  ChatContext,
+  ChatSession,
+  Message,
+  SessionRecord,
+  SessionMetaRecord,
+  PaginationParams,
+  PaginatedResponse,
+} from '../../types';
+
+const MESSAGE_ENTITY_TYPE = 'MESSAGE';
+const SESSION_ENTITY_TYPE = 'SESSION';
+const DEFAULT_TTL_DAYS = 30;
+const TITLE_MAX_LENGTH = 60;
+const PREVIEW_MAX_LENGTH = 120;
+// Attempts at writing the session META before giving up on concurrent turns
+const MAX_SESSION_WRITE_ATTEMPTS = 3;
+// A transaction holds at most 100 items: the messages and the META
+const MAX_MESSAGES_PER_APPEND = 99;
+
+/**
+ * Get the session TTL in days from environment
+ */
+function getTtlDays(): number {
+  const raw = process.env.SESSION_TTL_DAYS;
+  if (!raw) {
+    return DEFAULT_TTL_DAYS;
+  }
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TTL_DAYS;
+}
+
+/**
+ * Compute the epoch-seconds expiry for session records
+ */
+function computeTtl(): number {
+  return Math.floor(Date.now() / 1000) + getTtlDays() * 24 * 60 * 60;
+}
+
+/**
+ * Shorten text to a maximum length on a single line
+ */
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 1)}…`
+    : singleLine;
+}
+
+/**
+ * Build DynamoDB record from a chat Message
+ */
+function buildMessageRecord(sessionId: string, message: Message, ttl: number): SessionRecord {
+  return {
+    pk: `SESSION#${sessionId}`,
+    sk: `MSG#${message.timestamp}#${message.message_id}`,
+    entity_type: MESSAGE_ENTITY_TYPE,
+    data: message,
+    ttl,
+  };
+}
+
+/**
+ * Build DynamoDB record from session metadata
+ */
+function buildSessionMetaRecord(session: ChatSession, ttl: number): SessionMetaRecord {
+  return {
+    pk: `SESSION#${session.session_id}`,
+    sk: 'META',
+    ...sessionIndexKeys(session),
+    entity_type: SESSION_ENTITY_TYPE,
+    data: session,
+    ttl,
+  };
+}
+
+/**
+ * Create a new session ID
+ */
+export function generateSessionId(): string {
+  return generateId('S');
+}
+
+/**
+ * Create a chat message with a fresh ID and timestamp
+ */
+export function createMessage(
+  role: Message['role'],
+  content: string,
+  cards?: Message['cards']
+): Message {
+  return {
+    message_id: generateId('M'),
+    role,
+    content,
+    timestamp: getCurrentTimestamp(),
+    cards,
+  };
+}
+
+/**
+ * Check a session belongs to the caller. Sessions from before they had an owner need records:all.
+ */
+function canAccessSession(session: ChatSession): boolean {
+  return canAccessAllRecords() || session.advisor_id === getAccessIdentity().advisor_id;
+}
+
+/**
+ * Get session metadata by ID. Other advisors' sessions are treated as missing.
+ */
+export async function getSession(sessionId: string): Promise<ChatSession | null> {
+  const record = await getItem<SessionMetaRecord>(`SESSION#${sessionId}`, 'META');
+  return record && canAccessSession(record.data) ? record.data : null;
+}
+
+/**
+ * Get the most recent messages for a session, oldest first. None for another advisor's session.
+ */
+export async function getSessionMessages(
+  sessionId: string,
+  limit?: number
+): Promise<Message[]> {
+  if (!(await getSession(sessionId))) {
+    return [];
+  }
+  const records = await queryByPk<SessionRecord>(`SESSION#${sessionId}`, {
+    skPrefix: 'MSG#',
+    limit,
+    scanIndexForward: false,
+  });
+  return records.map((record) => record.data).reverse();
+}
+
+/**
+ * Advisors list their own sessions from their partition; records:all lists every session
+ */
+function buildSessionQuery(): IndexQuery {
+  if (canAccessAllRecords()) {
+    return {
+      index: 'GSI2',
+      partition: typePartition(SESSION_ENTITY_TYPE),
+      skPrefix: UPDATED_PREFIX,
+      scanIndexForward: false,
+    };
+  }
+  return {
+    index: 'GSI1',
+    partition: advisorPartition(getAccessIdentity().advisor_id),
+    skPrefix: `${ADVISOR_SESSION_PREFIX}${UPDATED_PREFIX}`,
+    scanIndexForward: false,
+  };
+}
+
+/**
+ * Get one page of the caller's sessions, most recently updated first
+ */
+export async function getSessionPage(page: PaginationParams): Promise<PaginatedResponse<ChatSession>> {
+  return paginateIndex<SessionMetaRecord, ChatSession>(buildSessionQuery(), page, (record) => record.data);
+}
+
+/**
+ * Condition that the session META is still as it was read: absent for a new session,
+ * otherwise with the same updated_at and message_count
+ */
+function unchangedSessionCondition(existing: ChatSession | undefined): WriteCondition {
+  if (!existing) {
+    return { expression: 'attribute_not_exists(pk)' };
+  }
+  return {
+    expression: '#data.#updated = :updated AND #data.#count = :count',
+    names: { '#data': 'data', '#updated': 'updated_at', '#count': 'message_count' },
+    values: { ':updated': existing.updated_at, ':count': existing.message_count },
+  };
+}
+
+/**
+ * Append messages to a session, creating the session (owned by the caller) if needed.
+ * The messages and META are written in one transaction, only if no other turn wrote the META
+ * since it was read; a lost race re-reads and retries, and nothing is written if every attempt loses.
+ */
+export async function appendSessionMessages(
+  sessionId: string,
+  messages: Message[],
+  context?: ChatContext
+): Promise<ChatSession> {
+  if (messages.length > MAX_MESSAGES_PER_APPEND) {
+    throw new Error(`Cannot append more than ${MAX_MESSAGES_PER_APPEND} messages at once`);
+  }
+  const ttl = computeTtl();
+  const messageWrites = messages.map((message) => ({ item: buildMessageRecord(sessionId, message, ttl) }));
+  const firstUserMessage = messages.find((m) => m.role === 'user');
+  const lastMessage = messages[messages.length - 1];
+
+  for (let attempt = 1; ; attempt++) {
+    // Read the record directly: another advisor's session must be refused, not recreated
+    const existing = (await getItem<SessionMetaRecord>(`SESSION#${sessionId}`, 'META'))?.data;
+    if (existing && !canAccessSession(existing)) {
+      throw new AccessDeniedError('session', `session ${sessionId} belongs to another advisor`);
+    }
+    const now = getCurrentTimestamp();
+
+    // Conversation history is stored as message records, not on the session
+    const storedContext: ChatContext | undefined = context
+      ? { ...context, session_id: sessionId, conversation_history: undefined }
+      : existing?.context;
+
+    const session: ChatSession = {
+      session_id: sessionId,
+      advisor_id: existing ? existing.advisor_id : getAccessIdentity().advisor_id,
+      title: existing?.title || truncate(firstUserMessage?.content || 'New conversation', TITLE_MAX_LENGTH),
+      created_at: existing?.created_at || now,
+      updated_at: now,
+      message_count: (existing?.message_count || 0) + messages.length,
+      last_message_preview: lastMessage
+        ? truncate(lastMessage.content, PREVIEW_MAX_LENGTH)
+        : existing?.last_message_preview,
+      context: storedContext,
+    };
+
+    try {
+      // The META record is rewritten with new index keys so the old ones are replaced
+      await putItemsTogether([
+        ...messageWrites,
+        { item: buildSessionMetaRecord(session, ttl), condition: unchangedSessionCondition(existing) },
+      ]);
+      return session;
+    } catch (error) {
+      if (!isConditionalCheckFailed(error) || attempt >= MAX_SESSION_WRITE_ATTEMPTS) {
+        throw error;
+      }
+      console.log(`Session ${sessionId} changed during update, retrying`);
+    }
+  }
+}
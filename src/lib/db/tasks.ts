@@ -4,31 +4,66 @@
 
 import {
   getItem,
-  putItem,
-  scanByEntityType,
+  putItemsTogether,
+  queryIndex,
   generateId,
   getCurrentTimestamp,
+  modifyVersionedItem,
+  type IndexQuery,
 } from './dynamodb';
+import {
+  taskIndexKeys,
+  typePartition,
+  statusPartition,
+  clientPartition,
+  DUE_PREFIX,
+  CLIENT_TASK_PREFIX,
+} from './index-keys';
+import { InvalidTransitionError, AccessDeniedError } from './errors';
+import {
+  getAccessIdentity,
+  loadAdvisorBook,
+  canAccessTask,
+  canAccessAllRecords,
+  requirePermission,
+} from './access';
+import { getClientById } from './clients';
+import { paginateIndex } from './pagination';
+import { auditWrite } from './audit';
+import { indexSearchTokens } from './search-index';
 import type {
+  AuditAction,
   Task,
   TaskSummary,
   TaskFilters,
   TaskUpdate,
   TaskRecord,
   TaskStatus,
+  PaginationParams,
+  PaginatedResponse,
 } from '../../types';
 
 const ENTITY_TYPE = 'TASK';
 
 /**
- * Build DynamoDB record from Task data
+ * Status changes a task can go through
+ */
+const TASK_STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  pending: ['in-progress', 'completed'],
+  'in-progress': ['pending', 'completed', 'needs-review'],
+  'needs-review': ['completed', 'pending'],
+  completed: ['pending'], // Allow reopening
+};
+
+/**
+ * Build DynamoDB record from Task data.
+ * Tasks are always written whole so the index keys never lag behind status, client or due date changes.
  */
 function buildTaskRecord(task: Task): TaskRecord {
   return {
     pk: `TASK#${task.task_id}`,
     sk: 'DETAIL',
-    GSI1PK: task.client_id ? `CLIENT#${task.client_id}` : `STATUS#${task.status}`,
-    GSI1SK: `DUE#${task.due_date}#${task.task_id}`,
+    ...taskIndexKeys(task),
     entity_type: ENTITY_TYPE,
     data: task,
   };
@@ -44,7 +79,7 @@ function extractTask(record: TaskRecord): Task {
 /**
  * Convert Task to TaskSummary
  */
-function toSummary(task: Task): TaskSummary {
+export function toTaskSummary(task: Task): TaskSummary {
   return {
     task_id: task.task_id,
     title: task.title,
@@ -107,58 +142,118 @@ function isOverdue(dateString: string, status: TaskStatus): boolean {
 }
 
 /**
- * Get a task by ID
+ * Due-date window for a due_date filter, as ISO bounds on the due-date sort keys.
+ * The window only narrows the query; getTasks still applies the exact checks to what comes back.
+ */
+function dueWindow(dueDate: TaskFilters['due_date']): IndexQuery['skRange'] {
+  const now = new Date();
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+
+  switch (dueDate) {
+    case 'today': {
+      const endOfToday = new Date(startOfToday);
+      endOfToday.setDate(startOfToday.getDate() + 1);
+      return { from: startOfToday.toISOString(), to: endOfToday.toISOString() };
+    }
+    case 'week': {
+      const startOfWeek = new Date(startOfToday);
+      startOfWeek.setDate(startOfToday.getDate() - startOfToday.getDay());
+      const endOfWeek = new Date(startOfWeek);
+      endOfWeek.setDate(startOfWeek.getDate() + 7);
+      return { from: startOfWeek.toISOString(), to: endOfWeek.toISOString() };
+    }
+    case 'overdue':
+      return { to: now.toISOString() };
+    case 'upcoming':
+      return { from: now.toISOString() };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Pick the index partition that narrows a task query the most:
+ * the client's tasks, then a status partition, then all tasks. All three sort by due date,
+ * so a due_date filter becomes a sort-key range whichever is used.
+ */
+function buildTaskQuery(filters?: TaskFilters): IndexQuery {
+  const skRange = dueWindow(filters?.due_date);
+
+  if (filters?.client_id) {
+    return {
+      index: 'GSI1',
+      partition: clientPartition(filters.client_id),
+      skPrefix: CLIENT_TASK_PREFIX,
+      skRange,
+    };
+  }
+  if (filters?.status) {
+    return {
+      index: 'GSI3',
+      partition: statusPartition(ENTITY_TYPE, filters.status),
+      skPrefix: DUE_PREFIX,
+      skRange,
+    };
+  }
+  return { index: 'GSI2', partition: typePartition(ENTITY_TYPE), skPrefix: DUE_PREFIX, skRange };
+}
+
+/**
+ * Check the caller can see one task: it's assigned to them or for a client in their book.
+ * Reads the client rather than the book, which can lag a client created moments ago.
+ */
+async function isTaskAccessible(task: Task): Promise<boolean> {
+  if (canAccessAllRecords() || task.assigned_to === getAccessIdentity().advisor_id) {
+    return true;
+  }
+  return task.client_id ? Boolean(await getClientById(task.client_id)) : false;
+}
+
+/**
+ * Get a task by ID. Tasks outside the caller's book are treated as missing.
  */
 export async function getTaskById(taskId: string): Promise<Task | null> {
   const record = await getItem<TaskRecord>(`TASK#${taskId}`, 'DETAIL');
-  return record ? extractTask(record) : null;
+  return record && (await isTaskAccessible(record.data)) ? extractTask(record) : null;
 }
 
 /**
- * Get all tasks with optional filters
+ * Check a task against the filters the key condition couldn't express (and the exact due-date checks)
  */
-export async function getTasks(filters?: TaskFilters): Promise<Task[]> {
-  const records = await scanByEntityType<TaskRecord>(ENTITY_TYPE);
-  let tasks = records.map(extractTask);
-
-  // Apply filters
-  if (filters) {
-    if (filters.status) {
-      tasks = tasks.filter((t) => t.status === filters.status);
-    }
-    if (filters.client_id) {
-      tasks = tasks.filter((t) => t.client_id === filters.client_id);
-    }
-    if (filters.priority) {
-      tasks = tasks.filter((t) => t.priority === filters.priority);
-    }
-    if (filters.ai_completed !== undefined) {
-      tasks = tasks.filter((t) => t.ai_completed === filters.ai_completed);
-    }
-    if (filters.assigned_to) {
-      tasks = tasks.filter((t) => t.assigned_to === filters.assigned_to);
-    }
-    if (filters.due_date) {
-      switch (filters.due_date) {
-        case 'today':
-          tasks = tasks.filter((t) => isToday(t.due_date));
-          break;
-        case 'week':
-          tasks = tasks.filter((t) => isThisWeek(t.due_date));
-          break;
-        case 'overdue':
-          tasks = tasks.filter((t) => isOverdue(t.due_date, t.status));
-          break;
-        case 'upcoming':
-          tasks = tasks.filter((t) => {
-            const date = new Date(t.due_date);
-            const now = new Date();
-            return date > now && t.status !== 'completed';
-          });
-          break;
-      }
-    }
+function matchesTaskFilters(task: Task, filters?: TaskFilters): boolean {
+  if (!filters) return true;
+  if (filters.status && task.status !== filters.status) return false;
+  if (filters.client_id && task.client_id !== filters.client_id) return false;
+  if (filters.priority && task.priority !== filters.priority) return false;
+  if (filters.ai_completed !== undefined && task.ai_completed !== filters.ai_completed) return false;
+  if (filters.assigned_to && task.assigned_to !== filters.assigned_to) return false;
+
+  switch (filters.due_date) {
+    case 'today':
+      return isToday(task.due_date);
+    case 'week':
+      return isThisWeek(task.due_date);
+    case 'overdue':
+      return isOverdue(task.due_date, task.status);
+    case 'upcoming':
+      return new Date(task.due_date) > new Date() && task.status !== 'completed';
+    default:
+      return true;
   }
+}
+
+/**
+ * Get all tasks in the caller's book with optional filters.
+ * Without a client_id filter an advisor's tasks are picked out of a partition shared by every
+ * advisor, so the read grows with the whole table rather than their book; narrow by client when
+ * one is known.
+ */
+export async function getTasks(filters?: TaskFilters): Promise<Task[]> {
+  const query = buildTaskQuery(filters);
+  console.log('getTasks - index:', query.index, 'partition:', query.partition, 'range:', JSON.stringify(query.skRange));
+  const [records, book] = await Promise.all([queryIndex<TaskRecord>(query), loadAdvisorBook()]);
+  const tasks = records.map(extractTask).filter((t) => matchesTaskFilters(t, filters) && canAccessTask(t, book));
 
   // Sort by due date
   tasks.sort((a, b) => new Date(a.due_date).getTime() - new Date(b.due_date).getTime());
@@ -166,26 +261,55 @@ export async function getTasks(filters?: TaskFilters): Promise<Task[]> {
   return tasks;
 }
 
+/**
+ * Get one page of tasks in due-date order
+ */
+export async function getTaskPage(
+  filters: TaskFilters | undefined,
+  page: PaginationParams
+): Promise<PaginatedResponse<Task>> {
+  const query = buildTaskQuery(filters);
+  console.log('getTaskPage - index:', query.index, 'partition:', query.partition, 'limit:', page.limit);
+  const book = await loadAdvisorBook();
+  return paginateIndex<TaskRecord, Task>(
+    query,
+    page,
+    extractTask,
+    (t) => matchesTaskFilters(t, filters) && canAccessTask(t, book)
+  );
+}
+
 /**
  * Get task summaries
  */
 export async function getTaskSummaries(filters?: TaskFilters): Promise<TaskSummary[]> {
   const tasks = await getTasks(filters);
-  return tasks.map(toSummary);
+  return tasks.map(toTaskSummary);
+}
+
+/**
+ * Get one page of task summaries
+ */
+export async function getTaskSummaryPage(
+  filters: TaskFilters | undefined,
+  page: PaginationParams
+): Promise<PaginatedResponse<TaskSummary>> {
+  const result = await getTaskPage(filters, page);
+  return { ...result, items: result.items.map(toTaskSummary) };
 }
 
 /**
- * Get tasks for today
+ * Get tasks for today, optionally narrowed by further filters
  */
-export async function getTodaysTasks(): Promise<Task[]> {
-  return getTasks({ due_date: 'today' });
+export async function getTodaysTasks(filters?: TaskFilters): Promise<Task[]> {
+  return getTasks({ ...filters, due_date: 'today' });
 }
 
 /**
- * Get tasks needing review (AI-completed, status = needs-review)
+ * Get tasks needing review (AI-completed, status = needs-review), optionally narrowed by further filters
  */
-export async function getPendingReviewTasks(): Promise<Task[]> {
-  return getTasks({ status: 'needs-review', ai_completed: true });
+export async function getPendingReviewTasks(filters?: TaskFilters): Promise<Task[]> {
+  return getTasks({ ...filters, status: 'needs-review', ai_completed: true });
 }
 
 /**
@@ -196,124 +320,189 @@ export async function getTasksForClient(clientId: string): Promise<Task[]> {
 }
 
 /**
- * Get overdue tasks
+ * Get overdue tasks, optionally narrowed by further filters
  */
-export async function getOverdueTasks(): Promise<Task[]> {
-  return getTasks({ due_date: 'overdue' });
+export async function getOverdueTasks(filters?: TaskFilters): Promise<Task[]> {
+  return getTasks({ ...filters, due_date: 'overdue' });
 }
 
 /**
- * Create a new task
+ * Create a new task. An advisor's tasks are assigned to them unless they say otherwise,
+ * and must stay in their book.
  */
 export async function createTask(
   taskData: Omit<Task, 'task_id' | 'created_at' | 'updated_at'>
 ): Promise<Task> {
+  requirePermission('tasks:create');
   const now = getCurrentTimestamp();
+  const actor = getAccessIdentity().advisor_id;
   const task: Task = {
     ...taskData,
+    assigned_to: taskData.assigned_to ?? (canAccessAllRecords() ? undefined : actor),
     task_id: generateId('T'),
     created_at: now,
+    created_by: actor,
     updated_at: now,
+    updated_by: actor,
+    record_version: 1,
   };
+  if (!(await isTaskAccessible(task))) {
+    throw new AccessDeniedError('task', 'it would be neither assigned to you nor for a client in your book');
+  }
 
   const record = buildTaskRecord(task);
-  await putItem(record);
+  await putItemsTogether([{ item: record }, auditWrite('task', task.task_id, 'create', null, task)]);
+  await indexSearchTokens('task', record);
   return task;
 }
 
 /**
- * Update a task
+ * Apply a change to a stored task and write the whole record back,
+ * so the GSI1 keys derived from status, client and due date are rewritten with it.
+ * The transition is checked against the task as read, and the write is conditional on
+ * record_version, so a concurrent change (e.g. an approval racing a rejection) can't be clobbered.
  */
-export async function updateTask(
+async function modifyTask(
   taskId: string,
-  updates: TaskUpdate
+  change: (task: Task) => Partial<Task>,
+  action: AuditAction,
+  expectedVersion?: number
 ): Promise<Task | null> {
-  const existing = await getTaskById(taskId);
-  if (!existing) {
-    return null;
-  }
+  const book = await loadAdvisorBook();
+  const updated = await modifyVersionedItem<Task>({
+    entity: 'task',
+    load: () => getTaskById(taskId),
+    buildRecord: buildTaskRecord,
+    relatedWrites: (existing, updatedTask) => [auditWrite('task', taskId, action, existing, updatedTask)],
+    expectedVersion,
+    change: (existing) => {
+      const updatedTask: Task = {
+        ...existing,
+        ...change(existing),
+        task_id: taskId, // Ensure ID and authorship don't change
+        created_at: existing.created_at,
+        created_by: existing.created_by,
+        updated_at: getCurrentTimestamp(),
+        updated_by: getAccessIdentity().advisor_id,
+      };
+
+      // Reassigning can't move a task out of the advisor's own book
+      const reassigned =
+        updatedTask.assigned_to !== existing.assigned_to || updatedTask.client_id !== existing.client_id;
+      if (reassigned && !canAccessTask(updatedTask, book)) {
+        throw new AccessDeniedError('task', 'it would be neither assigned to you nor for a client in your book');
+      }
 
-  const updatedTask: Task = {
-    ...existing,
-    ...updates,
-    task_id: taskId, // Ensure ID doesn't change
-    updated_at: getCurrentTimestamp(),
-  };
+      if (updatedTask.status !== existing.status) {
+        // Moving AI work out of review approves or rejects it, whichever operation does it
+        if (existing.status === 'needs-review') {
+          requirePermission('tasks:approve');
+        }
+        if (!isValidStatusTransition(existing.status, updatedTask.status)) {
+          throw new InvalidTransitionError(
+            'task',
+            existing.status,
+            updatedTask.status,
+            getAllowedTaskTransitions(existing.status),
+            action === 'update' ? undefined : action
+          );
+        }
+        // Entering or leaving completed keeps completed_at in step
+        if (updatedTask.status === 'completed' && !updatedTask.completed_at) {
+          updatedTask.completed_at = getCurrentTimestamp();
+        } else if (updatedTask.status !== 'completed') {
+          updatedTask.completed_at = undefined;
+        }
+      }
 
-  // If marking as completed, set completed_at
-  if (updates.status === 'completed' && !updatedTask.completed_at) {
-    updatedTask.completed_at = getCurrentTimestamp();
+      return updatedTask;
+    },
+  });
+  if (updated) {
+    await indexSearchTokens('task', buildTaskRecord(updated));
   }
+  return updated;
+}
 
-  const record = buildTaskRecord(updatedTask);
-  await putItem(record);
-  return updatedTask;
+/**
+ * Update a task. Status changes must follow TASK_STATUS_TRANSITIONS.
+ */
+export async function updateTask(
+  taskId: string,
+  updates: TaskUpdate,
+  expectedVersion?: number
+): Promise<Task | null> {
+  requirePermission('tasks:update');
+  return modifyTask(taskId, () => updates, 'update', expectedVersion);
 }
 
 /**
- * Approve an AI-completed task
+ * Check that a task is AI-completed work waiting for review
  */
-export async function approveTask(taskId: string): Promise<Task | null> {
-  const task = await getTaskById(taskId);
-  if (!task) {
-    return null;
+function assertPendingReview(task: Task, action: string, to: TaskStatus): void {
+  if (task.status !== 'needs-review') {
+    throw new InvalidTransitionError('task', task.status, to, getAllowedTaskTransitions(task.status), action);
   }
-
-  if (!task.ai_completed || task.status !== 'needs-review') {
+  if (!task.ai_completed) {
     throw new Error('Task is not pending AI review');
   }
+}
 
-  return updateTask(taskId, {
-    status: 'completed',
-    completed_at: getCurrentTimestamp(),
-  });
+/**
+ * Approve an AI-completed task
+ */
+export async function approveTask(taskId: string, expectedVersion?: number): Promise<Task | null> {
+  requirePermission('tasks:approve');
+  return modifyTask(
+    taskId,
+    (task) => {
+      assertPendingReview(task, 'approve', 'completed');
+      return { status: 'completed', completed_at: getCurrentTimestamp() };
+    },
+    'approve',
+    expectedVersion
+  );
 }
 
 /**
- * Reject an AI-completed task
+ * Reject an AI-completed task, resetting it to pending and clearing the AI work
  */
 export async function rejectTask(
   taskId: string,
-  reason?: string
+  reason?: string,
+  expectedVersion?: number
 ): Promise<Task | null> {
-  const task = await getTaskById(taskId);
-  if (!task) {
-    return null;
-  }
-
-  if (!task.ai_completed || task.status !== 'needs-review') {
-    throw new Error('Task is not pending AI review');
-  }
-
-  // Reset the task to pending status
-  const updates: TaskUpdate = {
-    status: 'pending',
-  };
-
-  // Clear AI completion data if rejecting
-  const updatedTask = await getTaskById(taskId);
-  if (updatedTask) {
-    updatedTask.ai_completion_data = undefined;
-    updatedTask.ai_completed = false;
-    updatedTask.status = 'pending';
-    updatedTask.updated_at = getCurrentTimestamp();
-    
-    const record = buildTaskRecord(updatedTask);
-    await putItem(record);
-    return updatedTask;
-  }
-
-  return null;
+  requirePermission('tasks:approve');
+  console.log('Rejecting task:', taskId, 'reason:', reason);
+  return modifyTask(
+    taskId,
+    (task) => {
+      assertPendingReview(task, 'reject', 'pending');
+      return { status: 'pending', ai_completed: false, ai_completion_data: undefined };
+    },
+    'reject',
+    expectedVersion
+  );
 }
 
 /**
  * Mark a task as complete
  */
-export async function completeTask(taskId: string): Promise<Task | null> {
-  return updateTask(taskId, {
-    status: 'completed',
-    completed_at: getCurrentTimestamp(),
-  });
+export async function completeTask(taskId: string, expectedVersion?: number): Promise<Task | null> {
+  requirePermission('tasks:complete');
+  return modifyTask(
+    taskId,
+    () => ({ status: 'completed', completed_at: getCurrentTimestamp() }),
+    'complete',
+    expectedVersion
+  );
+}
+
+/**
+ * Statuses a task can move to from its current status
+ */
+export function getAllowedTaskTransitions(from: TaskStatus): TaskStatus[] {
+  return TASK_STATUS_TRANSITIONS[from] || [];
 }
 
 /**
@@ -323,14 +512,7 @@ export function isValidStatusTransition(
   from: TaskStatus,
   to: TaskStatus
 ): boolean {
-  const validTransitions: Record<TaskStatus, TaskStatus[]> = {
-    pending: ['in-progress', 'completed'],
-    'in-progress': ['pending', 'completed', 'needs-review'],
-    'needs-review': ['completed', 'pending'],
-    completed: ['pending'], // Allow reopening
-  };
-
-  return validTransitions[from]?.includes(to) ?? false;
+  return getAllowedTaskTransitions(from).includes(to);
 }
 
 /**
@@ -341,12 +523,22 @@ export async function getTasksThisWeek(): Promise<Task[]> {
 }
 
 /**
- * Get tasks due this month
+ * Get tasks in the caller's book due this month
  */
 export async function getTasksThisMonth(): Promise<Task[]> {
-  const records = await scanByEntityType<TaskRecord>(ENTITY_TYPE);
+  const now = new Date();
+  const book = await loadAdvisorBook();
+  const records = await queryIndex<TaskRecord>({
+    index: 'GSI2',
+    partition: typePartition(ENTITY_TYPE),
+    skPrefix: DUE_PREFIX,
+    skRange: {
+      from: new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+      to: new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString(),
+    },
+  });
   let tasks = records.map(extractTask);
-  tasks = tasks.filter((t) => isThisMonth(t.due_date));
+  tasks = tasks.filter((t) => isThisMonth(t.due_date) && canAccessTask(t, book));
   tasks.sort((a, b) => new Date(a.due_date).getTime() - new Date(b.due_date).getTime());
   return tasks;
 }
@@ -386,32 +578,15 @@ export async function getCompletedTasks(limit?: number): Promise<Task[]> {
   return limit ? tasks.slice(0, limit) : tasks;
 }
 
-/**
- * Search tasks by keyword in title or description
- */
-export async function searchTasks(query: string): Promise<Task[]> {
-  const records = await scanByEntityType<TaskRecord>(ENTITY_TYPE);
-  const tasks = records.map(extractTask);
-  const searchTerm = query.toLowerCase();
-
-  return tasks.filter((t) =>
-    t.title.toLowerCase().includes(searchTerm) ||
-    t.description.toLowerCase().includes(searchTerm) ||
-    t.tags.some((tag) => tag.toLowerCase().includes(searchTerm)) ||
-    (t.client_name && t.client_name.toLowerCase().includes(searchTerm))
-  );
-}
-
 /**
  * Get task counts grouped by status and priority
  */
-export async function getTaskCount(): Promise<{
+export async function getTaskCount(filters?: TaskFilters): Promise<{
   total: number;
   byStatus: Record<string, number>;
   byPriority: Record<string, number>;
 }> {
-  const records = await scanByEntityType<TaskRecord>(ENTITY_TYPE);
-  const tasks = records.map(extractTask);
+  const tasks = await getTasks(filters);
 
   const byStatus: Record<string, number> = {
     pending: 0,
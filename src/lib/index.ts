@@ -3,5 +3,8 @@
  */
 
 export * from './ai';
+export * from './auth';
+export * from './chat';
 export * from './db';
 export * from './utils';
+export * from './validation';
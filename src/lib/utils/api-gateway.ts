@@ -33,3 +33,12 @@ export function getPath(event: ApiGatewayEvent): string {
 
   return '/';
 }
+
+/**
+ * Read a request header; API Gateway keeps the caller's casing, so match case-insensitively
+ */
+export function getHeader(event: ApiGatewayEvent, name: string): string | undefined {
+  const headers = event.headers || {};
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] ?? undefined : undefined;
+}
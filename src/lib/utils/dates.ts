@@ -0,0 +1,172 @@
+/**
+ * Date Phrase Parsing
+ * Turns the due dates advisors type ("next Tuesday", "in 3 days", "March 5 at 2pm") into dates
+ */
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Hour used when a phrase names a day but no time
+const DEFAULT_DUE_HOUR = 9;
+
+// Full weekday names only: abbreviations like "sat" and "sun" are ordinary words too
+const WEEKDAY = `(${WEEKDAYS.join('|')})`;
+const MONTH = `(${MONTHS.map((month) => `${month.slice(0, 3)}(?:${month.slice(3)})?`).join('|')})\\.?`;
+const TIME = '(?:\\s+(?:at|@)\\s*(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?)?';
+
+/**
+ * A date found in free text
+ */
+export interface DatePhraseMatch {
+  date: Date;
+  // The text that was matched, so callers can strip it from the message
+  phrase: string;
+}
+
+type DayResolver = (match: RegExpMatchArray, now: Date) => Date | null;
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function weekdayIndex(name: string): number {
+  return WEEKDAYS.findIndex((day) => day.startsWith(name.toLowerCase().slice(0, 3)));
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex((month) => month.startsWith(name.toLowerCase().slice(0, 3)));
+}
+
+/**
+ * The next given weekday. "Tuesday" on a Tuesday means today only when includeToday is set.
+ */
+function upcomingWeekday(now: Date, weekday: number, includeToday: boolean): Date {
+  let days = (weekday - now.getDay() + 7) % 7;
+  if (days === 0 && !includeToday) {
+    days = 7;
+  }
+  return addDays(startOfDay(now), days);
+}
+
+/**
+ * A calendar date in the current year, or next year if it has already passed
+ */
+function nextCalendarDate(now: Date, month: number, day: number, year?: number): Date | null {
+  if (month < 0 || day < 1 || day > 31) {
+    return null;
+  }
+  const date = new Date(year ?? now.getFullYear(), month, day);
+  if (date.getMonth() !== month) {
+    return null;
+  }
+  if (year === undefined && date < startOfDay(now)) {
+    date.setFullYear(date.getFullYear() + 1);
+  }
+  return date;
+}
+
+// Tried in order; the first match wins
+const DAY_PATTERNS: [RegExp, DayResolver][] = [
+  [/\b(\d{4})-(\d{2})-(\d{2})(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?/, (m) => {
+    const date = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }],
+  [/\b(?:today|tonight|this\s+(?:morning|afternoon|evening))\b/i, (_m, now) => startOfDay(now)],
+  [/\b(?:tomorrow|tmrw)\b/i, (_m, now) => addDays(startOfDay(now), 1)],
+  [/\bday\s+after\s+tomorrow\b/i, (_m, now) => addDays(startOfDay(now), 2)],
+  [/\bin\s+(\d+|a|an|one|two|three)\s+(day|week|month)s?\b/i, (m, now) => {
+    const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3 };
+    const count = words[m[1].toLowerCase()] ?? Number(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit === 'month') {
+      const date = startOfDay(now);
+      date.setMonth(date.getMonth() + count);
+      return date;
+    }
+    return addDays(startOfDay(now), unit === 'week' ? count * 7 : count);
+  }],
+  [/\b(?:by\s+)?(?:the\s+)?end\s+of\s+(?:the\s+|this\s+)?week\b/i, (_m, now) => upcomingWeekday(now, 5, true)],
+  [/\b(?:by\s+)?(?:the\s+)?end\s+of\s+(?:the\s+|this\s+)?month\b/i, (_m, now) =>
+    new Date(now.getFullYear(), now.getMonth() + 1, 0)],
+  [/\bnext\s+week\b/i, (_m, now) => upcomingWeekday(now, 1, false)],
+  [/\bnext\s+month\b/i, (_m, now) => new Date(now.getFullYear(), now.getMonth() + 1, 1)],
+  [new RegExp(`\\bnext\\s+${WEEKDAY}\\b`, 'i'), (m, now) => upcomingWeekday(now, weekdayIndex(m[1]), false)],
+  [new RegExp(`\\b(?:(?:on|this|by)\\s+)?${WEEKDAY}\\b`, 'i'), (m, now) =>
+    upcomingWeekday(now, weekdayIndex(m[1]), true)],
+  [new RegExp(`\\b(?:on\\s+)?${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'i'), (m, now) =>
+    nextCalendarDate(now, monthIndex(m[1]), Number(m[2]), m[3] ? Number(m[3]) : undefined)],
+  [new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?\\b`, 'i'), (m, now) =>
+    nextCalendarDate(now, monthIndex(m[2]), Number(m[1]), m[3] ? Number(m[3]) : undefined)],
+];
+
+/**
+ * Apply an "at 3pm" / "at 14:30" time to a day, defaulting to DEFAULT_DUE_HOUR
+ */
+function applyTime(day: Date, hour?: string, minute?: string, meridiem?: string): Date | null {
+  const date = new Date(day);
+  if (!hour) {
+    date.setHours(DEFAULT_DUE_HOUR, 0, 0, 0);
+    return date;
+  }
+
+  let hours = Number(hour);
+  const minutes = minute ? Number(minute) : 0;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
+
+/**
+ * Find the first date phrase in a message.
+ * "next Tuesday" is the first Tuesday after today; a bare "Tuesday" may be today.
+ */
+export function findDatePhrase(text: string, now: Date = new Date()): DatePhraseMatch | null {
+  for (const [pattern, resolve] of DAY_PATTERNS) {
+    const withTime = new RegExp(pattern.source + TIME, pattern.flags);
+    const match = text.match(withTime);
+    if (!match || match.index === undefined) {
+      continue;
+    }
+
+    const timeGroups = match.slice(-3);
+    const day = resolve(match, now);
+    const date = day ? applyTime(day, timeGroups[0], timeGroups[1], timeGroups[2]) : null;
+    if (date) {
+      // ISO timestamps carry their own time; keep it exactly
+      const iso = /^\d{4}-\d{2}-\d{2}T/.test(match[0]) ? new Date(match[0].trim()) : null;
+      return {
+        date: iso && !Number.isNaN(iso.getTime()) ? iso : date,
+        phrase: match[0].trim(),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a due date given either as an ISO string or as a phrase ("next Tuesday")
+ */
+export function parseDueDate(value: string, now: Date = new Date()): Date | null {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value.trim())) {
+    const date = new Date(value.trim());
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return findDatePhrase(value, now)?.date ?? null;
+}
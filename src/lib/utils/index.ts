@@ -3,3 +3,5 @@
  */
 
 export * from './response';
+export * from './name-matching';
+export * from './dates';
@@ -0,0 +1,230 @@
+/**
+ * Person Name Matching
+ * Scores how well a typed name matches a person's name fields,
+ * tolerating case, accents, nicknames and typos
+ */
+
+/**
+ * How a query token matched a name token
+ */
+export type NameMatchKind = 'exact' | 'nickname' | 'prefix' | 'fuzzy';
+
+/**
+ * Name fields of one person
+ */
+export interface PersonName {
+  first_name: string;
+  last_name: string;
+  middle_name?: string;
+  preferred_name?: string;
+}
+
+/**
+ * Result of scoring one person against a query
+ */
+export interface NameMatchScore {
+  // 0-1, 1 being an exact full-name match
+  score: number;
+  // Weakest way any query token matched
+  match: NameMatchKind;
+}
+
+const TOKEN_SCORES: Record<NameMatchKind, number> = {
+  exact: 1,
+  nickname: 0.9,
+  prefix: 0.75,
+  fuzzy: 0.7,
+};
+
+// Words that often trail or lead a name in chat ("the Patels", "Sarah please")
+const FILLER_WORDS = new Set(['the', 'mr', 'mrs', 'ms', 'miss', 'dr', 'family', 'household', 'please', 'client']);
+
+/**
+ * Common English nicknames, grouped with the formal names they stand for
+ */
+const NICKNAME_GROUPS: string[][] = [
+  ['john', 'jon', 'jonathan', 'johnny', 'jack'],
+  ['robert', 'rob', 'bob', 'bobby', 'robbie'],
+  ['william', 'will', 'bill', 'billy', 'liam'],
+  ['richard', 'rick', 'rich', 'dick', 'ricky'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['michael', 'mike', 'mikey', 'mick'],
+  ['thomas', 'tom', 'tommy'],
+  ['christopher', 'chris', 'kit'],
+  ['daniel', 'dan', 'danny'],
+  ['matthew', 'matt'],
+  ['anthony', 'tony'],
+  ['joseph', 'joe', 'joey'],
+  ['david', 'dave', 'davey'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['benjamin', 'ben', 'benny'],
+  ['samuel', 'sam', 'sammy'],
+  ['alexander', 'alex', 'sandy', 'xander'],
+  ['nicholas', 'nick', 'nicky'],
+  ['steven', 'stephen', 'steve'],
+  ['andrew', 'andy', 'drew'],
+  ['charles', 'charlie', 'chuck'],
+  ['patrick', 'pat', 'paddy'],
+  ['elizabeth', 'liz', 'beth', 'betty', 'eliza', 'lizzie'],
+  ['margaret', 'maggie', 'meg', 'peggy'],
+  ['katherine', 'catherine', 'kate', 'katie', 'kathy', 'cathy'],
+  ['jennifer', 'jen', 'jenny'],
+  ['rebecca', 'becky', 'becca'],
+  ['deborah', 'debbie', 'deb'],
+  ['susan', 'sue', 'suzy'],
+  ['patricia', 'patty', 'trish', 'tricia'],
+  ['jessica', 'jess', 'jessie'],
+  ['victoria', 'vicky', 'tori'],
+  ['alexandra', 'alex', 'sandra', 'lexi'],
+  ['christine', 'christina', 'chris', 'tina'],
+  ['sarah', 'sara', 'sadie'],
+  ['abigail', 'abby'],
+];
+
+const NICKNAMES: Map<string, Set<string>> = (() => {
+  const map = new Map<string, Set<string>>();
+  for (const group of NICKNAME_GROUPS) {
+    for (const name of group) {
+      const related = map.get(name) || new Set<string>();
+      group.forEach((other) => related.add(other));
+      map.set(name, related);
+    }
+  }
+  return map;
+})();
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normaliseName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/[^a-z\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalised tokens of a query, without filler words
+ */
+export function tokeniseName(value: string): string[] {
+  return normaliseName(value)
+    .split(' ')
+    .filter((token) => token && !FILLER_WORDS.has(token));
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edits allowed before a token no longer counts as a typo of another
+ */
+function maxEdits(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 5) return 1;
+  return 2;
+}
+
+/**
+ * Best way one query token matches one name token
+ */
+function matchToken(query: string, name: string): NameMatchKind | null {
+  // "Patels" should find "Patel"
+  const variants = query.length > 3 && query.endsWith('s') ? [query, query.slice(0, -1)] : [query];
+
+  if (variants.includes(name)) return 'exact';
+  if (variants.some((v) => NICKNAMES.get(v)?.has(name))) return 'nickname';
+  if (query.length >= 3 && name.startsWith(query)) return 'prefix';
+  if (variants.some((v) => levenshtein(v, name) <= maxEdits(Math.min(v.length, name.length)))) {
+    return 'fuzzy';
+  }
+  return null;
+}
+
+/**
+ * Score a query against a person's names. Every query token must match
+ * a different name token; returns null when the person is not a match.
+ */
+export function scorePersonName(query: string, person: PersonName): NameMatchScore | null {
+  const queryTokens = tokeniseName(query);
+  if (queryTokens.length === 0) {
+    return null;
+  }
+
+  const fields: [string | undefined, 'given' | 'middle' | 'last'][] = [
+    [person.first_name, 'given'],
+    [person.preferred_name, 'given'],
+    [person.middle_name, 'middle'],
+    [person.last_name, 'last'],
+  ];
+  const nameTokens: string[] = [];
+  const roles: ('given' | 'middle' | 'last')[] = [];
+  for (const [value, role] of fields) {
+    for (const token of tokeniseName(value || '')) {
+      nameTokens.push(token);
+      roles.push(role);
+    }
+  }
+
+  const used = new Set<number>();
+  let total = 0;
+  let weakest: NameMatchKind = 'exact';
+
+  for (const token of queryTokens) {
+    let bestIndex = -1;
+    let kind: NameMatchKind | null = null;
+    for (let index = 0; index < nameTokens.length; index++) {
+      if (used.has(index)) continue;
+      const candidate = matchToken(token, nameTokens[index]);
+      if (candidate && (!kind || TOKEN_SCORES[candidate] > TOKEN_SCORES[kind])) {
+        bestIndex = index;
+        kind = candidate;
+      }
+    }
+
+    if (!kind) {
+      return null;
+    }
+    used.add(bestIndex);
+    total += TOKEN_SCORES[kind];
+    if (TOKEN_SCORES[kind] < TOKEN_SCORES[weakest]) {
+      weakest = kind;
+    }
+  }
+
+  let score = total / queryTokens.length;
+
+  // A lone first name is less specific than a full name
+  const matchedLastName = [...used].some((index) => roles[index] === 'last');
+  if (queryTokens.length === 1 && !matchedLastName) {
+    score *= 0.9;
+  }
+
+  // Matching only on middle names is a weak signal
+  if ([...used].every((index) => roles[index] === 'middle')) {
+    score *= 0.8;
+  }
+
+  return { score: Math.round(score * 100) / 100, match: weakest };
+}
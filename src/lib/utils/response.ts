@@ -6,11 +6,11 @@ import type { APIGatewayProxyResultV2 } from 'aws-lambda';
 import type { ApiResponse } from '../../types';
 
 /**
- * Response headers with CORS support
+ * Response headers with CORS support, for the origin in CORS_ALLOW_ORIGIN
  */
 const RESPONSE_HEADERS = {
   'Content-Type': 'application/json',
-  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Origin': process.env.CORS_ALLOW_ORIGIN || '*',
   'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
   'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,PATCH,OPTIONS',
 };
@@ -37,17 +37,20 @@ export function successResponse<T>(
 }
 
 /**
- * Create an error JSON response
+ * Create an error JSON response.
+ * data carries anything the caller needs to recover (e.g. the allowed transitions on a 409).
  */
 export function errorResponse(
   message: string,
   statusCode = 400,
-  details?: string
+  details?: string,
+  data?: unknown
 ): APIGatewayProxyResultV2 {
   const body: ApiResponse = {
     success: false,
     error: message,
     message: details,
+    data,
   };
 
   return {
@@ -71,7 +74,7 @@ export function notFoundResponse(
 /**
  * Parse JSON body from request
  */
-export function parseBody<T>(body: string | undefined): T | null {
+export function parseBody<T>(body: string | null | undefined): T | null {
   if (!body) {
     return null;
   }
@@ -88,7 +91,7 @@ export function parseBody<T>(body: string | undefined): T | null {
  * Parse query string parameters
  */
 export function parseQueryParams(
-  queryStringParameters?: Record<string, string | undefined>
+  queryStringParameters?: Record<string, string | undefined> | null
 ): Record<string, string> {
   const params: Record<string, string> = {};
 
@@ -107,7 +110,7 @@ export function parseQueryParams(
  * Parse path parameters
  */
 export function parsePathParams(
-  pathParameters?: Record<string, string | undefined>
+  pathParameters?: Record<string, string | undefined> | null
 ): Record<string, string> {
   const params: Record<string, string> = {};
 
@@ -126,7 +129,7 @@ export function parsePathParams(
  * Get a required path parameter
  */
 export function getRequiredPathParam(
-  pathParameters: Record<string, string | undefined> | undefined,
+  pathParameters: Record<string, string | undefined> | null | undefined,
   paramName: string
 ): string | null {
   const value = pathParameters?.[paramName];
@@ -154,6 +157,27 @@ export function validateRequired<T extends Record<string, unknown>>(
   };
 }
 
+/**
+ * Top-level field names of a request body, raw or parsed, for logs that must not carry the values
+ * (client and policy bodies hold PII, chat messages and task notes are free text)
+ */
+export function bodyFields(body: unknown): string {
+  if (body === null || body === undefined || body === '') {
+    return '(none)';
+  }
+  let parsed = body;
+  if (typeof body === 'string') {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return '(not JSON)';
+    }
+  }
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? Object.keys(parsed).join(', ') || '(none)'
+    : `(${Array.isArray(parsed) ? 'array' : typeof parsed})`;
+}
+
 /**
  * Log request details (for debugging)
  */
@@ -0,0 +1,18 @@
+/**
+ * Helpers for server-sent events over Lambda response streaming
+ */
+
+/**
+ * Headers for a server-sent events response
+ */
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+/**
+ * Format a named server-sent event with a JSON payload
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,562 @@
+/**
+ * Card Validation
+ * A schema for every card type, used to check and repair the cards the LLM writes:
+ * values are coerced to their field's type (dates to ISO strings, "$1,200" to 1200), unknown
+ * fields are dropped, and records are completed from the data gathered for the turn.
+ */
+
+import type {
+  Card,
+  CardType,
+  Client,
+  ClientSummary,
+  Policy,
+  PolicySummary,
+  Task,
+  TaskSummary,
+} from '../../types';
+import { checkField, enumValues, type FieldRule, type ValidationResult } from './common';
+import { CLIENT_FIELD_RULES } from './clients';
+import { CANCELLATION_REASONS, POLICY_FIELD_RULES } from './policies';
+import { AI_ACTION_TYPES, TASK_FIELD_RULES, TASK_STATUSES } from './tasks';
+
+export const CARD_TYPES = enumValues<CardType>({
+  'task-list': true,
+  task: true,
+  client: true,
+  'client-list': true,
+  policy: true,
+  'policy-list': true,
+  review: true,
+  confirmation: true,
+});
+
+/**
+ * Records gathered for the turn, which fill in what a card's records are missing
+ */
+export interface CardDataContext {
+  tasks?: Task[];
+  clients?: Client[];
+  policies?: Policy[];
+  focusedTask?: Task;
+  focusedClient?: Client;
+  focusedPolicy?: Policy;
+}
+
+/**
+ * A card that passed validation, and what was changed to get it there
+ */
+export interface ValidCard {
+  card: Card;
+  repairs: string[];
+}
+
+// PII placeholders (see lib/ai/pii.ts) stand in for the real value until the reply is filled in
+const PLACEHOLDER_PATTERN = /^\[[A-Z_]+_\d+\]$/;
+// Dates already written as ISO dates or timestamps are kept as written
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// A written date with no time of day (e.g. "March 3, 2026") stays a date
+function toIsoDate(value: unknown, time: number): string {
+  const date = new Date(time);
+  if (typeof value !== 'string' || /\d:\d/.test(value)) {
+    return date.toISOString();
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const ID_RULE: FieldRule = { type: 'string', maxLength: 100 };
+const DATE_RULE: FieldRule = { type: 'date' };
+const TITLE_RULE: FieldRule = { type: 'string', maxLength: 200 };
+const TEXT_RULE: FieldRule = { type: 'string', maxLength: 100000 };
+const FLAG_RULE: FieldRule = { type: 'boolean' };
+
+const TASK_RECORD_RULES: Record<keyof Task, FieldRule> = {
+  ...TASK_FIELD_RULES,
+  task_id: ID_RULE,
+  status: { type: 'enum', values: TASK_STATUSES },
+  created_at: DATE_RULE,
+  updated_at: DATE_RULE,
+  completed_at: DATE_RULE,
+  client_name: TITLE_RULE,
+  ai_completed: FLAG_RULE,
+  ai_action_type: { type: 'enum', values: AI_ACTION_TYPES },
+  ai_completion_data: { type: 'object' },
+  created_by: ID_RULE,
+  updated_by: ID_RULE,
+  record_version: { type: 'number', min: 0 },
+};
+
+const CLIENT_RECORD_RULES: Record<keyof Client, FieldRule> = {
+  ...CLIENT_FIELD_RULES,
+  client_id: ID_RULE,
+  created_at: DATE_RULE,
+  created_by: ID_RULE,
+  updated_at: DATE_RULE,
+  updated_by: ID_RULE,
+  deleted_at: DATE_RULE,
+  record_version: { type: 'number', min: 0 },
+};
+
+const POLICY_RECORD_RULES: Record<keyof Policy, FieldRule> = {
+  ...POLICY_FIELD_RULES,
+  policy_id: ID_RULE,
+  cancellation_date: DATE_RULE,
+  cancellation_reason: { type: 'enum', values: CANCELLATION_REASONS },
+  lapse_date: DATE_RULE,
+  reinstatement_date: DATE_RULE,
+  created_at: DATE_RULE,
+  created_by: ID_RULE,
+  updated_at: DATE_RULE,
+  updated_by: ID_RULE,
+  deleted_at: DATE_RULE,
+  record_version: { type: 'number', min: 0 },
+};
+
+// The list projections, as in toTaskSummary, toClientSummary and toPolicySummary
+const TASK_SUMMARY_FIELDS: (keyof TaskSummary)[] = [
+  'task_id', 'title', 'status', 'due_date', 'priority', 'client_name', 'ai_completed', 'ai_action_type',
+];
+const CLIENT_SUMMARY_FIELDS: (keyof ClientSummary)[] = [
+  'client_id', 'first_name', 'last_name', 'primary_email', 'client_status', 'client_segment',
+  'portfolio_value', 'risk_profile', 'next_meeting', 'account_manager_id',
+];
+const POLICY_SUMMARY_FIELDS: (keyof PolicySummary)[] = [
+  'policy_id', 'client_id', 'policy_number', 'policy_type', 'policy_status', 'coverage_amount',
+  'premium_amount', 'premium_frequency', 'renewal_date', 'payment_status',
+];
+
+type RecordValue = Record<string, unknown>;
+
+/**
+ * How one kind of record in a card is checked and completed
+ */
+interface EntitySchema {
+  idField: string;
+  rules: Record<string, FieldRule>;
+  summaryFields: string[];
+  // Needed to show the record at all, in full or as a summary
+  required: string[];
+  // Safe values for fields the frontend expects but the record left out
+  defaults: RecordValue;
+  // What the model might write instead of the ID, to find the record by
+  name: (record: RecordValue) => string | undefined;
+  gathered: (context: CardDataContext) => { records: RecordValue[]; focused?: RecordValue };
+}
+
+type EntityName = 'task' | 'client' | 'policy';
+
+const joinName = (...parts: unknown[]): string | undefined =>
+  parts.every((part) => typeof part === 'string') ? parts.join(' ') : undefined;
+
+const asGathered = (records: object[] | undefined, focused: object | undefined) => ({
+  records: (records ?? []) as RecordValue[],
+  focused: focused as RecordValue | undefined,
+});
+
+const ENTITY_SCHEMAS: Record<EntityName, EntitySchema> = {
+  task: {
+    idField: 'task_id',
+    rules: TASK_RECORD_RULES,
+    summaryFields: TASK_SUMMARY_FIELDS,
+    required: ['task_id', 'title', 'status', 'due_date', 'priority'],
+    defaults: { ai_completed: false, description: '', tags: [] },
+    name: (record) => joinName(record.title),
+    gathered: (context) => asGathered(context.tasks, context.focusedTask),
+  },
+  client: {
+    idField: 'client_id',
+    rules: CLIENT_RECORD_RULES,
+    summaryFields: CLIENT_SUMMARY_FIELDS,
+    required: ['client_id', 'first_name', 'last_name'],
+    defaults: {},
+    name: (record) => joinName(record.first_name, record.last_name),
+    gathered: (context) => asGathered(context.clients, context.focusedClient),
+  },
+  policy: {
+    idField: 'policy_id',
+    rules: POLICY_RECORD_RULES,
+    summaryFields: POLICY_SUMMARY_FIELDS,
+    required: [
+      'policy_id', 'client_id', 'policy_number', 'policy_type', 'policy_status',
+      'coverage_amount', 'premium_amount', 'premium_frequency',
+    ],
+    defaults: {},
+    name: (record) => joinName(record.policy_number),
+    gathered: (context) => asGathered(context.policies, context.focusedPolicy),
+  },
+};
+
+/**
+ * One field of a card's data: a plain value, a record, or a list of record summaries
+ */
+type CardField =
+  | { kind: 'value'; rule: FieldRule; default?: unknown }
+  | { kind: 'record'; entity: EntityName }
+  | { kind: 'list'; entity: EntityName };
+
+interface CardSchema {
+  fields: Record<string, CardField>;
+  required: string[];
+  // Reshape a looser layout the model is known to write, before the fields are checked
+  normalize?: (data: RecordValue, repairs: string[]) => RecordValue;
+}
+
+const CARD_SCHEMAS: Record<CardType, CardSchema> = {
+  'task-list': {
+    fields: {
+      title: { kind: 'value', rule: TITLE_RULE, default: 'Tasks' },
+      tasks: { kind: 'list', entity: 'task' },
+      show_actions: { kind: 'value', rule: FLAG_RULE },
+    },
+    required: ['title', 'tasks'],
+  },
+  task: {
+    fields: {
+      task: { kind: 'record', entity: 'task' },
+      show_actions: { kind: 'value', rule: FLAG_RULE },
+    },
+    required: ['task'],
+  },
+  client: {
+    fields: {
+      client: { kind: 'record', entity: 'client' },
+      show_policies: { kind: 'value', rule: FLAG_RULE },
+      policies: { kind: 'list', entity: 'policy' },
+    },
+    required: ['client'],
+  },
+  'client-list': {
+    fields: {
+      title: { kind: 'value', rule: TITLE_RULE, default: 'Clients' },
+      clients: { kind: 'list', entity: 'client' },
+    },
+    required: ['title', 'clients'],
+  },
+  policy: {
+    fields: {
+      policy: { kind: 'record', entity: 'policy' },
+      show_claims: { kind: 'value', rule: FLAG_RULE },
+    },
+    required: ['policy'],
+  },
+  'policy-list': {
+    fields: {
+      title: { kind: 'value', rule: TITLE_RULE, default: 'Policies' },
+      policies: { kind: 'list', entity: 'policy' },
+      client_name: { kind: 'value', rule: TITLE_RULE },
+    },
+    required: ['title', 'policies'],
+  },
+  review: {
+    fields: {
+      task: { kind: 'record', entity: 'task' },
+      title: { kind: 'value', rule: TITLE_RULE, default: 'Ready for Review' },
+      message: { kind: 'value', rule: TEXT_RULE },
+      generated_content: { kind: 'value', rule: TEXT_RULE },
+    },
+    required: ['title', 'message', 'generated_content'],
+    // Older prompts put the draft in message, with a one-line summary beside it
+    normalize: (data, repairs) => {
+      if (data.generated_content !== undefined || typeof data.message !== 'string') {
+        return data;
+      }
+      repairs.push('generated_content taken from message');
+      return { ...data, generated_content: data.message, message: data.summary ?? data.title };
+    },
+  },
+  confirmation: {
+    fields: {
+      type: { kind: 'value', rule: { type: 'enum', values: ['success', 'error', 'info', 'warning'] }, default: 'info' },
+      message: { kind: 'value', rule: TITLE_RULE },
+      details: { kind: 'value', rule: TEXT_RULE },
+      undoable: { kind: 'value', rule: FLAG_RULE },
+      undo_action: { kind: 'value', rule: ID_RULE },
+    },
+    required: ['type', 'message'],
+  },
+};
+
+export function isCardType(type: string): type is CardType {
+  return (CARD_TYPES as string[]).includes(type);
+}
+
+const isRecord = (value: unknown): value is RecordValue =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const normalizeEnum = (value: string): string => value.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * Coerce a value to its rule where the intent is clear, then check it.
+ * Returns undefined when the value can't be made to fit.
+ */
+function coerceValue(field: string, value: unknown, rule: FieldRule): { value: unknown } | undefined {
+  if (
+    typeof value === 'string' &&
+    PLACEHOLDER_PATTERN.test(value) &&
+    (rule.type === 'string' || rule.type === 'email' || rule.type === 'date')
+  ) {
+    return { value };
+  }
+
+  let coerced = value;
+  switch (rule.type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        coerced = String(value);
+      }
+      if (typeof coerced === 'string' && rule.maxLength && coerced.length > rule.maxLength) {
+        coerced = coerced.slice(0, rule.maxLength);
+      }
+      break;
+    case 'email':
+      coerced = typeof value === 'string' ? value.trim() : value;
+      break;
+    case 'date': {
+      const time = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+      if (Number.isNaN(time)) {
+        return undefined;
+      }
+      coerced = typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? value : toIsoDate(value, time);
+      break;
+    }
+    case 'boolean':
+      if (typeof value === 'string') {
+        const text = value.trim().toLowerCase();
+        coerced = text === 'true' || text === 'yes' ? true : text === 'false' || text === 'no' ? false : value;
+      }
+      break;
+    case 'number':
+      if (typeof value === 'string' && value.trim()) {
+        coerced = Number(value.replace(/[$,\s]/g, ''));
+      }
+      break;
+    case 'string[]':
+      if (typeof value === 'string') {
+        coerced = [value];
+      } else if (Array.isArray(value)) {
+        coerced = value.map((item) => (typeof item === 'number' || typeof item === 'boolean' ? String(item) : item));
+      }
+      break;
+    case 'enum':
+      if (typeof value === 'string' && !rule.values.includes(value)) {
+        coerced = rule.values.find((allowed) => normalizeEnum(allowed) === normalizeEnum(value)) ?? value;
+      }
+      break;
+  }
+  return checkField(field, coerced, rule) === null ? { value: coerced } : undefined;
+}
+
+/**
+ * The gathered record a card's record refers to: by ID, else by name, else the focused one
+ */
+function findGatheredRecord(
+  entity: EntitySchema,
+  given: RecordValue,
+  context: CardDataContext,
+  useFocused: boolean
+): RecordValue | undefined {
+  const { records, focused } = entity.gathered(context);
+  const candidates = focused ? [focused, ...records] : records;
+  const id = given[entity.idField];
+  if (typeof id === 'string' && id) {
+    return candidates.find((record) => record[entity.idField] === id);
+  }
+
+  const name = entity.name(given)?.toLowerCase();
+  if (name) {
+    const matches = candidates.filter((record) => entity.name(record)?.toLowerCase() === name);
+    const ids = new Set(matches.map((record) => record[entity.idField]));
+    return ids.size === 1 ? matches[0] : undefined;
+  }
+  // Neither an ID nor a name: the record under discussion, when there is one
+  return useFocused ? focused : undefined;
+}
+
+/**
+ * Check one record, in full or as a summary. Fields the gathered record has win over what the
+ * model wrote, since that's where the model got them; fields outside the schema are dropped.
+ */
+function validateRecord(
+  path: string,
+  entity: EntitySchema,
+  input: unknown,
+  fields: string[],
+  context: CardDataContext,
+  useFocused: boolean,
+  repairs: string[]
+): ValidationResult<RecordValue> {
+  // A bare ID where the record should be
+  const given: RecordValue = isRecord(input)
+    ? input
+    : typeof input === 'string' && input
+      ? { [entity.idField]: input }
+      : {};
+
+  const gathered = findGatheredRecord(entity, given, context, useFocused);
+  if (gathered && given[entity.idField] === undefined) {
+    repairs.push(`${path} filled from ${entity.idField} ${String(gathered[entity.idField])}`);
+  }
+
+  const unknown = Object.keys(given).filter((field) => !fields.includes(field));
+  if (unknown.length > 0) {
+    repairs.push(`${path}: dropped ${unknown.join(', ')}`);
+  }
+
+  const errors: string[] = [];
+  const value: RecordValue = {};
+  for (const field of fields) {
+    const raw = !isMissing(gathered?.[field]) ? gathered?.[field] : given[field];
+    if (isMissing(raw)) {
+      if (entity.defaults[field] !== undefined) {
+        value[field] = entity.defaults[field];
+      } else if (entity.required.includes(field)) {
+        errors.push(`${path}.${field} is required`);
+      }
+      continue;
+    }
+
+    const coerced = coerceValue(`${path}.${field}`, raw, entity.rules[field]);
+    if (coerced) {
+      value[field] = coerced.value;
+    } else if (entity.required.includes(field)) {
+      errors.push(checkField(`${path}.${field}`, raw, entity.rules[field]) ?? `${path}.${field} is invalid`);
+    } else {
+      repairs.push(`${path}.${field} dropped as invalid`);
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value };
+}
+
+/**
+ * Check a list of record summaries, dropping the entries that can't be repaired.
+ * The list fails only when it had entries and none survived.
+ */
+function validateList(
+  path: string,
+  entity: EntitySchema,
+  input: unknown,
+  context: CardDataContext,
+  repairs: string[]
+): ValidationResult<RecordValue[]> {
+  if (!Array.isArray(input)) {
+    return { valid: false, errors: [`${path} must be an array`] };
+  }
+
+  const items: RecordValue[] = [];
+  const errors: string[] = [];
+  input.forEach((item, index) => {
+    const result = validateRecord(`${path}[${index}]`, entity, item, entity.summaryFields, context, false, repairs);
+    if (result.valid) {
+      items.push(result.value);
+    } else {
+      errors.push(...result.errors);
+    }
+  });
+
+  if (errors.length > 0) {
+    if (items.length === 0) {
+      return { valid: false, errors };
+    }
+    repairs.push(`${path}: dropped ${input.length - items.length} invalid entries (${errors.join('; ')})`);
+  }
+  return { valid: true, value: items };
+}
+
+/**
+ * Validate and repair the data of one card. With a data context, records are matched to the
+ * ones gathered for the turn and completed from them.
+ */
+export function validateCard(
+  type: CardType,
+  data: unknown,
+  context: CardDataContext = {}
+): ValidationResult<ValidCard> {
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['Card data must be a JSON object'] };
+  }
+
+  const schema = CARD_SCHEMAS[type];
+  const repairs: string[] = [];
+  const input = schema.normalize ? schema.normalize(data, repairs) : data;
+
+  // Unknown fields, except a record's ID written beside it (picked up below)
+  const idAliases = Object.values(schema.fields).flatMap((spec) =>
+    spec.kind === 'record' ? [ENTITY_SCHEMAS[spec.entity].idField] : []
+  );
+  const unknown = Object.keys(input).filter((field) => !schema.fields[field] && !idAliases.includes(field));
+  if (unknown.length > 0) {
+    repairs.push(`dropped ${unknown.join(', ')}`);
+  }
+
+  const errors: string[] = [];
+  const value: RecordValue = {};
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    if (spec.kind === 'value') {
+      const raw = input[field];
+      if (isMissing(raw)) {
+        if (spec.default !== undefined) {
+          value[field] = spec.default;
+          repairs.push(`${field} defaulted`);
+        } else if (schema.required.includes(field)) {
+          errors.push(`${field} is required`);
+        }
+        continue;
+      }
+      const coerced = coerceValue(field, raw, spec.rule);
+      if (coerced) {
+        value[field] = coerced.value;
+      } else if (schema.required.includes(field)) {
+        errors.push(checkField(field, raw, spec.rule) ?? `${field} is invalid`);
+      } else {
+        repairs.push(`${field} dropped as invalid`);
+      }
+      continue;
+    }
+
+    const entity = ENTITY_SCHEMAS[spec.entity];
+    if (spec.kind === 'list') {
+      if (input[field] === undefined && !schema.required.includes(field)) {
+        continue;
+      }
+      const result = validateList(field, entity, input[field], context, repairs);
+      if (result.valid) {
+        value[field] = result.value;
+      } else {
+        errors.push(...result.errors);
+      }
+      continue;
+    }
+
+    // A record the model left out, or wrote as an ID beside it (e.g. a review card's task_id)
+    const record = input[field] ?? input[entity.idField];
+    const required = schema.required.includes(field);
+    if (isMissing(record) && !required) {
+      continue;
+    }
+    const result = validateRecord(
+      field,
+      entity,
+      record,
+      Object.keys(entity.rules),
+      context,
+      required,
+      repairs
+    );
+    if (result.valid) {
+      value[field] = result.value;
+    } else if (required) {
+      errors.push(...result.errors);
+    } else {
+      repairs.push(`${field} dropped (${result.errors.join('; ')})`);
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: { card: { type, data: value } as unknown as Card, repairs } };
+}
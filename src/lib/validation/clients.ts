@@ -0,0 +1,130 @@
+/**
+ * Client Request Validation
+ */
+
+import type {
+  Client,
+  ClientType,
+  ClientStatus,
+  RiskProfile,
+  KYCStatus,
+  ContactMethod,
+  ContactTime,
+  LanguagePreference,
+  ClientSegment,
+  AddressType,
+  Gender,
+  MaritalStatus,
+} from '../../types';
+import { enumValues, validateFields, type FieldRule, type ValidationResult } from './common';
+
+export const CLIENT_TYPES = enumValues<ClientType>({ Individual: true, Corporate: true, Trust: true, Other: true });
+export const CLIENT_STATUSES = enumValues<ClientStatus>({ Active: true, Inactive: true, Prospect: true, Dormant: true });
+export const RISK_PROFILES = enumValues<RiskProfile>({ conservative: true, moderate: true, aggressive: true });
+export const KYC_STATUSES = enumValues<KYCStatus>({ Pending: true, Completed: true, Failed: true });
+export const CONTACT_METHODS = enumValues<ContactMethod>({ Email: true, Phone: true, Text: true });
+export const CONTACT_TIMES = enumValues<ContactTime>({ Morning: true, Afternoon: true, Evening: true });
+export const LANGUAGE_PREFERENCES = enumValues<LanguagePreference>({ English: true, French: true, Spanish: true, Other: true });
+export const CLIENT_SEGMENTS = enumValues<ClientSegment>({ Retail: true, 'Mass Affluent': true, 'High Net Worth': true });
+export const ADDRESS_TYPES = enumValues<AddressType>({ Home: true, Work: true, Mailing: true });
+export const GENDERS = enumValues<Gender>({ Male: true, Female: true, 'Non-Binary': true, Other: true });
+export const MARITAL_STATUSES = enumValues<MaritalStatus>({
+  Single: true,
+  Married: true,
+  Divorced: true,
+  Widowed: true,
+  'Common-law': true,
+});
+
+// Set by the server, never accepted from a request
+type ClientSystemField =
+  | 'client_id'
+  | 'created_at'
+  | 'created_by'
+  | 'updated_at'
+  | 'updated_by'
+  | 'deleted_at'
+  | 'record_version';
+
+/**
+ * Client fields a request may set
+ */
+export type ClientInput = Omit<Client, ClientSystemField>;
+
+export const CLIENT_FIELD_RULES: Record<keyof ClientInput, FieldRule> = {
+  client_type: { type: 'enum', values: CLIENT_TYPES },
+  client_status: { type: 'enum', values: CLIENT_STATUSES },
+  external_client_reference: { type: 'string', maxLength: 100 },
+  first_name: { type: 'string', maxLength: 100 },
+  middle_name: { type: 'string', maxLength: 100 },
+  last_name: { type: 'string', maxLength: 100 },
+  preferred_name: { type: 'string', maxLength: 100 },
+  date_of_birth: { type: 'date' },
+  gender: { type: 'enum', values: GENDERS },
+  sin_last4: { type: 'string', maxLength: 4 },
+  marital_status: { type: 'enum', values: MARITAL_STATUSES },
+  occupation: { type: 'string', maxLength: 200 },
+  employer_name: { type: 'string', maxLength: 200 },
+  primary_email: { type: 'email' },
+  secondary_email: { type: 'email' },
+  primary_phone: { type: 'string', maxLength: 30 },
+  secondary_phone: { type: 'string', maxLength: 30 },
+  preferred_contact_method: { type: 'enum', values: CONTACT_METHODS },
+  preferred_contact_time: { type: 'enum', values: CONTACT_TIMES },
+  language_preference: { type: 'enum', values: LANGUAGE_PREFERENCES },
+  address_line_1: { type: 'string', maxLength: 200 },
+  address_line_2: { type: 'string', maxLength: 200 },
+  city: { type: 'string', maxLength: 100 },
+  state_province: { type: 'string', maxLength: 100 },
+  postal_code: { type: 'string', maxLength: 20 },
+  country: { type: 'string', maxLength: 100 },
+  address_type: { type: 'enum', values: ADDRESS_TYPES },
+  is_primary_address: { type: 'boolean' },
+  account_manager_id: { type: 'string', maxLength: 100 },
+  client_segment: { type: 'enum', values: CLIENT_SEGMENTS },
+  onboarding_date: { type: 'date' },
+  offboarding_date: { type: 'date' },
+  referral_source: { type: 'string', maxLength: 200 },
+  relationship_start_date: { type: 'date' },
+  relationship_end_date: { type: 'date' },
+  kyc_status: { type: 'enum', values: KYC_STATUSES },
+  kyc_completed_date: { type: 'date' },
+  consent_marketing: { type: 'boolean' },
+  consent_data_processing: { type: 'boolean' },
+  consent_timestamp: { type: 'date' },
+  privacy_policy_version_accepted: { type: 'string', maxLength: 50 },
+  internal_notes: { type: 'string', maxLength: 10000 },
+  client_tags: { type: 'string[]' },
+  last_interaction_summary: { type: 'string', maxLength: 10000 },
+  portfolio_value: { type: 'number', min: 0 },
+  risk_profile: { type: 'enum', values: RISK_PROFILES },
+  next_meeting: { type: 'date' },
+  last_contact: { type: 'date' },
+};
+
+const REQUIRED_CLIENT_FIELDS: (keyof ClientInput)[] = ['first_name', 'last_name'];
+
+/**
+ * Validate a POST /api/clients body
+ */
+export function validateClientCreate(body: unknown): ValidationResult<ClientInput> {
+  const result = validateFields<ClientInput>(body, CLIENT_FIELD_RULES, {
+    required: REQUIRED_CLIENT_FIELDS,
+    partial: false,
+  });
+  return result as ValidationResult<ClientInput>;
+}
+
+/**
+ * Validate a PATCH /api/clients/{id} body
+ */
+export function validateClientUpdate(body: unknown): ValidationResult<Partial<ClientInput>> {
+  const result = validateFields<ClientInput>(body, CLIENT_FIELD_RULES, {
+    required: REQUIRED_CLIENT_FIELDS,
+    partial: true,
+  });
+  if (result.valid && Object.keys(result.value).length === 0) {
+    return { valid: false, errors: ['No fields to update'] };
+  }
+  return result;
+}
@@ -0,0 +1,191 @@
+/**
+ * Request Validation Helpers
+ * Field rules shared by the entity validators
+ */
+
+import type { PaginationParams } from '../../types';
+import { MAX_PAGE_LIMIT } from '../db/pagination';
+
+/**
+ * How one body field is checked
+ */
+export type FieldRule =
+  | { type: 'string'; maxLength?: number }
+  | { type: 'email' }
+  | { type: 'date' }
+  | { type: 'boolean' }
+  | { type: 'number'; min?: number }
+  | { type: 'string[]' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'object' }
+  | { type: 'array' };
+
+/**
+ * Result of validating a request body
+ */
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DEFAULT_MAX_LENGTH = 2000;
+
+/**
+ * Allowed values of a string union, taken from the keys of a Record over it.
+ * The Record type makes the compiler flag any value added to the union but not here.
+ */
+export function enumValues<T extends string>(record: Record<T, true>): T[] {
+  return Object.keys(record) as T[];
+}
+
+/**
+ * Check one value against its rule. Returns an error message or null.
+ */
+export function checkField(field: string, value: unknown, rule: FieldRule): string | null {
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string') return `${field} must be a string`;
+      const maxLength = rule.maxLength ?? DEFAULT_MAX_LENGTH;
+      return value.length > maxLength ? `${field} must be at most ${maxLength} characters` : null;
+    }
+    case 'email':
+      return typeof value === 'string' && EMAIL_PATTERN.test(value)
+        ? null
+        : `${field} must be a valid email address`;
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        ? null
+        : `${field} must be an ISO date string`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${field} must be true or false`;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${field} must be a number`;
+      return rule.min !== undefined && value < rule.min ? `${field} must be at least ${rule.min}` : null;
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? null
+        : `${field} must be an array of strings`;
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value)
+        ? null
+        : `${field} must be one of: ${rule.values.join(', ')}`;
+    case 'object':
+      return value && typeof value === 'object' && !Array.isArray(value)
+        ? null
+        : `${field} must be an object`;
+    case 'array':
+      return Array.isArray(value) ? null : `${field} must be an array`;
+  }
+}
+
+/**
+ * Validate a request body against field rules.
+ * On create, required fields must be present; on update, every field is optional.
+ * null clears an optional field. Unknown fields are rejected.
+ */
+export function validateFields<T>(
+  body: unknown,
+  rules: Record<string, FieldRule>,
+  options: { required?: string[]; partial: boolean }
+): ValidationResult<Partial<T>> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: ['Request body must be a JSON object'] };
+  }
+
+  const input = body as Record<string, unknown>;
+  const required = new Set(options.required || []);
+  const errors: string[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const field of Object.keys(input)) {
+    if (!rules[field]) {
+      errors.push(`Unknown field: ${field}`);
+    }
+  }
+
+  for (const [field, rule] of Object.entries(rules)) {
+    const fieldValue = input[field];
+    const missing = fieldValue === undefined || fieldValue === null || fieldValue === '';
+
+    if (missing) {
+      if (required.has(field) && (!options.partial || field in input)) {
+        errors.push(`${field} is required`);
+      } else if (field in input) {
+        value[field] = undefined;
+      }
+      continue;
+    }
+
+    const error = checkField(field, fieldValue, rule);
+    if (error) {
+      errors.push(error);
+    } else {
+      value[field] = typeof fieldValue === 'string' ? fieldValue.trim() : fieldValue;
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: value as Partial<T> };
+}
+
+/**
+ * Expected record version sent with a write, and the body without it
+ */
+export interface ExpectedVersion {
+  version?: number;
+  body: unknown;
+}
+
+/**
+ * Read the version a write expects to replace, from an If-Match header ("3", "\"3\"", W/"3")
+ * or an expected_version body field. "*" or neither means no check.
+ * expected_version is removed from the returned body so entity validation doesn't reject it.
+ */
+export function readExpectedVersion(ifMatch: string | undefined, body: unknown): ValidationResult<ExpectedVersion> {
+  let fromBody: unknown;
+  let rest = body;
+  if (body && typeof body === 'object' && !Array.isArray(body) && 'expected_version' in body) {
+    const { expected_version, ...others } = body as Record<string, unknown>;
+    fromBody = expected_version;
+    rest = others;
+  }
+
+  const header = ifMatch?.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+  const candidates = [
+    header && header !== '*' ? Number(header) : undefined,
+    fromBody === undefined || fromBody === null ? undefined : fromBody,
+  ].filter((value) => value !== undefined);
+
+  for (const value of candidates) {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      return { valid: false, errors: ['If-Match / expected_version must be a record_version number'] };
+    }
+  }
+  if (candidates.length === 2 && candidates[0] !== candidates[1]) {
+    return { valid: false, errors: ['If-Match and expected_version disagree'] };
+  }
+
+  return { valid: true, value: { version: candidates[0] as number | undefined, body: rest } };
+}
+
+/**
+ * Read the limit and cursor query params of a list route.
+ * The cursor is only checked for presence here; its signature is verified when it's used.
+ */
+export function readPagination(params: Record<string, string>): ValidationResult<PaginationParams> {
+  const page: PaginationParams = {};
+
+  if (params.limit !== undefined) {
+    const limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      return { valid: false, errors: [`limit must be a whole number from 1 to ${MAX_PAGE_LIMIT}`] };
+    }
+    page.limit = limit;
+  }
+  if (params.cursor) {
+    page.cursor = params.cursor;
+  }
+
+  return { valid: true, value: page };
+}
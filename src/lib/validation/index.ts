@@ -0,0 +1,10 @@
+/**
+ * Request validation exports
+ */
+
+export * from './common';
+export * from './clients';
+export * from './policies';
+export * from './tasks';
+export * from './search';
+export * from './cards';
@@ -0,0 +1,214 @@
+/**
+ * Policy Request Validation
+ */
+
+import type {
+  Policy,
+  PolicyType,
+  PolicyCategory,
+  PolicyStatus,
+  PaymentStatus,
+  PremiumFrequency,
+  PaymentMethod,
+  CancellationReason,
+} from '../../types';
+import { enumValues, validateFields, type FieldRule, type ValidationResult } from './common';
+
+export const POLICY_TYPES = enumValues<PolicyType>({
+  'Life Insurance': true,
+  'Health Insurance': true,
+  'Auto Insurance': true,
+  'Home Insurance': true,
+  Investment: true,
+  Retirement: true,
+  Disability: true,
+  'Critical Illness': true,
+  Other: true,
+});
+export const POLICY_CATEGORIES = enumValues<PolicyCategory>({ Individual: true, Group: true, Corporate: true });
+export const POLICY_STATUSES = enumValues<PolicyStatus>({
+  Active: true,
+  Pending: true,
+  Expired: true,
+  Cancelled: true,
+  Lapsed: true,
+  Suspended: true,
+});
+export const PAYMENT_STATUSES = enumValues<PaymentStatus>({ Current: true, Overdue: true, Paid: true, Pending: true });
+export const PREMIUM_FREQUENCIES = enumValues<PremiumFrequency>({
+  Monthly: true,
+  Quarterly: true,
+  'Semi-Annual': true,
+  Annual: true,
+});
+export const PAYMENT_METHODS = enumValues<PaymentMethod>({
+  'Credit Card': true,
+  'Bank Transfer': true,
+  Cheque: true,
+  PAD: true,
+});
+export const CANCELLATION_REASONS = enumValues<CancellationReason>({
+  'Non-Payment': true,
+  'Customer Request': true,
+  'Policy Replaced': true,
+  Fraud: true,
+  Other: true,
+});
+
+// Statuses a new policy may start in; the rest are reached through updates and actions
+const INITIAL_POLICY_STATUSES: PolicyStatus[] = ['Pending', 'Active'];
+
+// Set by the server, never accepted from a request
+type PolicySystemField =
+  | 'policy_id'
+  | 'created_at'
+  | 'created_by'
+  | 'updated_at'
+  | 'updated_by'
+  | 'deleted_at'
+  | 'record_version';
+
+// Set only by the cancel, lapse and reinstate actions
+type PolicyLifecycleField = 'cancellation_date' | 'cancellation_reason' | 'lapse_date' | 'reinstatement_date';
+
+/**
+ * Policy fields a create or update request may set
+ */
+export type PolicyInput = Omit<Policy, PolicySystemField | PolicyLifecycleField>;
+
+export const POLICY_FIELD_RULES: Record<keyof PolicyInput, FieldRule> = {
+  client_id: { type: 'string', maxLength: 100 },
+  policy_number: { type: 'string', maxLength: 100 },
+  policy_type: { type: 'enum', values: POLICY_TYPES },
+  policy_category: { type: 'enum', values: POLICY_CATEGORIES },
+  policy_status: { type: 'enum', values: POLICY_STATUSES },
+  policy_version: { type: 'number', min: 1 },
+  parent_policy_id: { type: 'string', maxLength: 100 },
+  coverage_start_date: { type: 'date' },
+  coverage_end_date: { type: 'date' },
+  coverage_amount: { type: 'number', min: 0 },
+  coverage_description: { type: 'string', maxLength: 2000 },
+  coverage_limits: { type: 'object' },
+  exclusions: { type: 'string[]' },
+  premium_amount: { type: 'number', min: 0 },
+  premium_frequency: { type: 'enum', values: PREMIUM_FREQUENCIES },
+  billing_cycle: { type: 'string', maxLength: 100 },
+  payment_method: { type: 'enum', values: PAYMENT_METHODS },
+  last_payment_date: { type: 'date' },
+  next_payment_due_date: { type: 'date' },
+  payment_status: { type: 'enum', values: PAYMENT_STATUSES },
+  auto_pay_enabled: { type: 'boolean' },
+  issue_date: { type: 'date' },
+  effective_date: { type: 'date' },
+  renewal_date: { type: 'date' },
+  claims_count: { type: 'number', min: 0 },
+  open_claims_count: { type: 'number', min: 0 },
+  total_claims_amount: { type: 'number', min: 0 },
+  last_claim_date: { type: 'date' },
+  claims_history: { type: 'array' },
+  beneficiaries: { type: 'array' },
+  policy_documents: { type: 'array' },
+  endorsements: { type: 'string[]' },
+  correspondences: { type: 'string[]' },
+  agent_notes: { type: 'string', maxLength: 10000 },
+  internal_notes: { type: 'string', maxLength: 10000 },
+  customer_visible_notes: { type: 'string', maxLength: 10000 },
+  tags: { type: 'string[]' },
+};
+
+const REQUIRED_POLICY_FIELDS: (keyof PolicyInput)[] = [
+  'client_id',
+  'policy_number',
+  'policy_type',
+  'policy_status',
+  'coverage_start_date',
+  'coverage_amount',
+  'premium_amount',
+  'premium_frequency',
+  'issue_date',
+  'effective_date',
+];
+
+/**
+ * Validate a POST /api/policies body.
+ * policy_status defaults to Pending and may only be Pending or Active.
+ */
+export function validatePolicyCreate(body: unknown): ValidationResult<PolicyInput> {
+  const input = body && typeof body === 'object' && !Array.isArray(body)
+    ? { policy_status: 'Pending', ...(body as Record<string, unknown>) }
+    : body;
+
+  const result = validateFields<PolicyInput>(input, POLICY_FIELD_RULES, {
+    required: REQUIRED_POLICY_FIELDS,
+    partial: false,
+  });
+  if (!result.valid) {
+    return result;
+  }
+
+  const status = result.value.policy_status as PolicyStatus;
+  if (!INITIAL_POLICY_STATUSES.includes(status)) {
+    return {
+      valid: false,
+      errors: [`policy_status must be one of: ${INITIAL_POLICY_STATUSES.join(', ')} for a new policy`],
+    };
+  }
+  return result as ValidationResult<PolicyInput>;
+}
+
+/**
+ * Validate a PATCH /api/policies/{id} body
+ */
+export function validatePolicyUpdate(body: unknown): ValidationResult<Partial<PolicyInput>> {
+  const result = validateFields<PolicyInput>(body, POLICY_FIELD_RULES, {
+    required: REQUIRED_POLICY_FIELDS,
+    partial: true,
+  });
+  if (result.valid && Object.keys(result.value).length === 0) {
+    return { valid: false, errors: ['No fields to update'] };
+  }
+  return result;
+}
+
+/**
+ * Body of POST /api/policies/{id}/cancel
+ */
+export interface PolicyCancelInput {
+  cancellation_reason: CancellationReason;
+  cancellation_date?: string;
+}
+
+/**
+ * Validate a POST /api/policies/{id}/cancel body
+ */
+export function validatePolicyCancel(body: unknown): ValidationResult<PolicyCancelInput> {
+  const result = validateFields<PolicyCancelInput>(
+    body,
+    {
+      cancellation_reason: { type: 'enum', values: CANCELLATION_REASONS },
+      cancellation_date: { type: 'date' },
+    },
+    { required: ['cancellation_reason'], partial: false }
+  );
+  return result as ValidationResult<PolicyCancelInput>;
+}
+
+/**
+ * Validate a POST /api/policies/{id}/lapse body (may be empty)
+ */
+export function validatePolicyLapse(body: unknown): ValidationResult<{ lapse_date?: string }> {
+  return validateFields<{ lapse_date?: string }>(body ?? {}, { lapse_date: { type: 'date' } }, { partial: true });
+}
+
+/**
+ * Validate a POST /api/policies/{id}/reinstate body (may be empty)
+ */
+export function validatePolicyReinstate(
+  body: unknown
+): ValidationResult<{ reinstatement_date?: string }> {
+  return validateFields<{ reinstatement_date?: string }>(
+    body ?? {},
+    { reinstatement_date: { type: 'date' } },
+    { partial: true }
+  );
+}
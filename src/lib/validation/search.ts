@@ -0,0 +1,51 @@
+/**
+ * Search Request Validation
+ */
+
+import { MAX_SEARCH_LIMIT, type SearchOptions } from '../db/search';
+import { SEARCH_ENTITY_TYPES, type SearchEntityType } from '../db/search-tokens';
+import type { ValidationResult } from './common';
+
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Search query params: the query plus which entity types to search and how many hits to return
+ */
+export interface SearchParams extends SearchOptions {
+  query: string;
+}
+
+/**
+ * Read the q, types (comma-separated, or type) and limit query params of GET /api/search
+ */
+export function readSearchParams(params: Record<string, string>): ValidationResult<SearchParams> {
+  const errors: string[] = [];
+  const query = (params.q || '').trim();
+
+  if (!query) {
+    errors.push('q is required');
+  } else if (query.length > MAX_QUERY_LENGTH) {
+    errors.push(`q must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const typesParam = params.types ?? params.type;
+  const types = typesParam
+    ? typesParam.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean)
+    : [];
+  const unknown = types.filter((type) => !SEARCH_ENTITY_TYPES.includes(type as SearchEntityType));
+  if (unknown.length > 0) {
+    errors.push(`types must be a comma-separated list of: ${SEARCH_ENTITY_TYPES.join(', ')}`);
+  }
+
+  let limit: number | undefined;
+  if (params.limit !== undefined) {
+    limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      errors.push(`limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}`);
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: { query, types: types as SearchEntityType[], limit } };
+}
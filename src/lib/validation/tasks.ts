@@ -0,0 +1,119 @@
+/**
+ * Task Request Validation
+ */
+
+import type { AIActionType, Task, TaskPriority, TaskStatus, TaskUpdate } from '../../types';
+import { enumValues, validateFields, type FieldRule, type ValidationResult } from './common';
+
+export const TASK_STATUSES = enumValues<TaskStatus>({
+  pending: true,
+  'in-progress': true,
+  completed: true,
+  'needs-review': true,
+});
+export const TASK_PRIORITIES = enumValues<TaskPriority>({ low: true, medium: true, high: true });
+export const AI_ACTION_TYPES = enumValues<AIActionType>({
+  email_draft: true,
+  portfolio_review: true,
+  meeting_notes: true,
+  report: true,
+  reminder: true,
+  analysis: true,
+  policy_review: true,
+  compliance_check: true,
+});
+
+/**
+ * Task fields a create request may set. Status, AI completion and authorship are managed by the server.
+ */
+export type TaskInput = Pick<
+  Task,
+  'title' | 'description' | 'due_date' | 'priority' | 'tags' | 'client_id' | 'policy_id' | 'assigned_to' | 'task_type'
+>;
+
+export const TASK_FIELD_RULES: Record<keyof TaskInput, FieldRule> = {
+  title: { type: 'string', maxLength: 200 },
+  description: { type: 'string', maxLength: 10000 },
+  due_date: { type: 'date' },
+  priority: { type: 'enum', values: TASK_PRIORITIES },
+  tags: { type: 'string[]' },
+  client_id: { type: 'string', maxLength: 100 },
+  policy_id: { type: 'string', maxLength: 100 },
+  assigned_to: { type: 'string', maxLength: 100 },
+  task_type: { type: 'string', maxLength: 100 },
+};
+
+const REQUIRED_TASK_FIELDS: (keyof TaskInput)[] = ['title', 'due_date'];
+
+/**
+ * Validate a POST /api/tasks body.
+ * priority defaults to medium; due_date is normalised to an ISO timestamp.
+ */
+export function validateTaskCreate(body: unknown): ValidationResult<TaskInput> {
+  const result = validateFields<TaskInput>(body, TASK_FIELD_RULES, {
+    required: REQUIRED_TASK_FIELDS,
+    partial: false,
+  });
+  if (!result.valid) {
+    return result;
+  }
+
+  const value = result.value as TaskInput;
+  return {
+    valid: true,
+    value: {
+      ...value,
+      due_date: new Date(value.due_date).toISOString(),
+      description: value.description ?? '',
+      priority: value.priority ?? 'medium',
+      tags: value.tags ?? [],
+    },
+  };
+}
+
+/**
+ * Task fields a PATCH request may set. AI completion, authorship, completed_at and the
+ * denormalised client_name are managed by the server.
+ */
+export type TaskUpdateInput = Pick<TaskUpdate, 'status' | 'title' | 'description' | 'due_date' | 'priority' | 'tags'>;
+
+const TASK_UPDATE_FIELD_RULES: Record<keyof TaskUpdateInput, FieldRule> = {
+  status: { type: 'enum', values: TASK_STATUSES },
+  title: TASK_FIELD_RULES.title,
+  description: TASK_FIELD_RULES.description,
+  due_date: TASK_FIELD_RULES.due_date,
+  priority: TASK_FIELD_RULES.priority,
+  tags: TASK_FIELD_RULES.tags,
+};
+
+// Every task has these; an update can change them but not clear them
+const UNCLEARABLE_TASK_FIELDS: (keyof TaskUpdateInput)[] = ['status', 'title', 'due_date', 'priority'];
+
+/**
+ * Validate a PATCH /api/tasks/{id} body.
+ * due_date is normalised to an ISO timestamp; clearing description or tags leaves them empty.
+ */
+export function validateTaskUpdate(body: unknown): ValidationResult<TaskUpdateInput> {
+  const result = validateFields<TaskUpdateInput>(body, TASK_UPDATE_FIELD_RULES, {
+    required: UNCLEARABLE_TASK_FIELDS,
+    partial: true,
+  });
+  if (!result.valid) {
+    return result;
+  }
+
+  const value: TaskUpdateInput = { ...result.value };
+  if (Object.keys(value).length === 0) {
+    return { valid: false, errors: ['No fields to update'] };
+  }
+  if (value.due_date !== undefined) {
+    value.due_date = new Date(value.due_date).toISOString();
+  }
+  if ('description' in value && value.description === undefined) {
+    value.description = '';
+  }
+  if ('tags' in value && value.tags === undefined) {
+    value.tags = [];
+  }
+  return { valid: true, value };
+}
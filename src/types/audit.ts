@@ -0,0 +1,52 @@
+/**
+ * Audit Types - The history of every change to clients, policies and tasks
+ */
+
+import type { AdvisorRole } from './auth';
+
+export type AuditEntityType = 'client' | 'policy' | 'task';
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'approve' // AI-completed task accepted
+  | 'reject' // AI-completed task sent back
+  | 'complete'
+  | 'cancel'
+  | 'lapse'
+  | 'reinstate';
+
+// Where the change was made: a REST endpoint, or the chat assistant acting for the advisor
+export type AuditSource = 'rest' | 'chat';
+
+/**
+ * One change to one record
+ */
+export interface AuditEntry {
+  audit_id: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  actor_id: string;
+  actor_role: AdvisorRole;
+  source: AuditSource;
+  timestamp: string;
+  // Fields the change set, added or removed
+  changed_fields: string[];
+  // Those fields before and after the change; a create has no before
+  before?: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * DynamoDB record for an audit entry
+ */
+export interface AuditRecord {
+  pk: string; // AUDIT#<audit_id>
+  sk: string; // ENTRY
+  GSI1PK: string; // AUDIT#<entity_id>
+  GSI1SK: string; // <timestamp>#<audit_id>
+  entity_type: 'AUDIT';
+  data: AuditEntry;
+}
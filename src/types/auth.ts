@@ -0,0 +1,48 @@
+/**
+ * Auth Types - Who is calling the API and what they may do
+ */
+
+// advisor - runs their own book; assistant - supports an advisor, no approvals or personal identifiers;
+// compliance - reviews every book and its audit trail read-only and approves AI work; admin - everything
+export type AdvisorRole = 'advisor' | 'assistant' | 'compliance' | 'admin';
+
+/**
+ * Handler actions, plus one permission per sensitive Client/Policy field (read and write)
+ */
+export type Permission =
+  | 'clients:read'
+  | 'clients:create'
+  | 'clients:update'
+  | 'clients:delete'
+  | 'clients:assign' // Give a client to another account manager
+  | 'policies:read'
+  | 'policies:create'
+  | 'policies:update'
+  | 'policies:lifecycle' // Cancel, lapse, reinstate
+  | 'tasks:read'
+  | 'tasks:create'
+  | 'tasks:update'
+  | 'tasks:complete'
+  | 'tasks:approve' // Approve or reject AI-completed work
+  | 'chat:use'
+  | 'analytics:read'
+  | 'search:use'
+  | 'records:all' // See every advisor's book, not just your own
+  | 'audit:read' // Read the audit trail of any record
+  | 'client.sin_last4'
+  | 'client.date_of_birth'
+  | 'client.internal_notes'
+  | 'policy.internal_notes'
+  | 'policy.agent_notes'
+  | 'policy.beneficiaries';
+
+/**
+ * The authenticated caller, taken from a verified bearer token
+ */
+export interface AdvisorIdentity {
+  // Matches account_manager_id on clients and assigned_to on tasks
+  advisor_id: string;
+  role: AdvisorRole;
+  email?: string;
+  name?: string;
+}
@@ -76,7 +76,8 @@ export interface PolicyListCardData {
  * Review card data - for AI-completed work needing approval
  */
 export interface ReviewCardData {
-  task: Task;
+  // Absent for documents drafted without a task, e.g. a compliance check
+  task?: Task;
   title: string;
   message: string;
   generated_content: string;
@@ -106,6 +107,16 @@ export type Card =
   | { type: 'review'; data: ReviewCardData }
   | { type: 'confirmation'; data: ConfirmationCardData };
 
+/**
+ * A card in the reply that couldn't be shown, even after repair
+ */
+export interface CardWarning {
+  code: 'invalid_json' | 'unknown_card_type' | 'invalid_card';
+  card_type: string;
+  // What was wrong, e.g. "task.title is required"
+  errors: string[];
+}
+
 /**
  * Chat message
  */
@@ -146,9 +157,36 @@ export interface ChatResponse {
   cards?: Card[];
   context?: ChatContext;
   tasks_updated?: boolean;
+  tools_used?: ToolCallRecord[];
+  // Set when the LLM couldn't be reached: content is a notice and the cards show the data found.
+  // error then names the last failure (e.g. LLMRateLimitError).
+  degraded?: boolean;
+  error?: string;
+  // Cards the reply contained that were dropped as unrecoverable
+  warnings?: CardWarning[];
+}
+
+/**
+ * A data tool the model called while answering
+ */
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  round: number;
+  success: boolean;
+  duration_ms: number;
   error?: string;
 }
 
+/**
+ * Event sent over the streaming chat endpoint
+ */
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'card'; card: Card }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'error'; error: string };
+
 /**
  * DynamoDB record for chat session
  */
@@ -161,3 +199,32 @@ export interface SessionRecord {
   data: Message;
   ttl?: number; // Auto-expire sessions after X days
 }
+
+/**
+ * Chat session summary - one per conversation
+ */
+export interface ChatSession {
+  session_id: string;
+  advisor_id?: string; // Who the conversation belongs to
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+  last_message_preview?: string;
+  context?: ChatContext; // Focused IDs and last intent, without history
+}
+
+/**
+ * DynamoDB record for chat session metadata
+ */
+export interface SessionMetaRecord {
+  pk: string; // SESSION#<session_id>
+  sk: string; // META
+  GSI1PK?: string; // ADVISOR#<advisor_id>, unset for sessions without an owner
+  GSI1SK?: string; // SESSION#UPDATED#<updated_at>#<session_id>
+  GSI2PK?: string; // TYPE#SESSION
+  GSI2SK?: string; // UPDATED#<updated_at>#<session_id>
+  entity_type: 'SESSION';
+  data: ChatSession;
+  ttl?: number;
+}
@@ -130,6 +130,25 @@ export interface ClientSummary {
   account_manager_id?: string;
 }
 
+/**
+ * A client that plausibly matches a typed name
+ */
+export interface ClientNameCandidate {
+  client: ClientSummary;
+  score: number; // 0-1
+  match: 'exact' | 'nickname' | 'prefix' | 'fuzzy';
+}
+
+/**
+ * Outcome of resolving a typed name to a client
+ */
+export interface ClientNameResolution {
+  query: string;
+  status: 'resolved' | 'ambiguous' | 'not_found';
+  client: Client | null; // Set only when resolved
+  candidates: ClientNameCandidate[]; // Best first
+}
+
 /**
  * Client search/filter parameters
  */
@@ -148,8 +167,13 @@ export interface ClientFilters {
 export interface ClientRecord {
   pk: string; // CLIENT#<client_id>
   sk: string; // PROFILE
-  GSI1PK: string; // TYPE#CLIENT
-  GSI1SK: string; // STATUS#<status>#<client_id>
+  // Index keys are unset once the client is soft-deleted
+  GSI1PK?: string; // ADVISOR#<account_manager_id> (unset without an account manager)
+  GSI1SK?: string; // CLIENT#<last_name>#<first_name>#<client_id>
+  GSI2PK?: string; // TYPE#CLIENT
+  GSI2SK?: string; // NAME#<last_name>#<first_name>#<client_id>
+  GSI3PK?: string; // CLIENT#STATUS#<client_status>
+  GSI3SK?: string; // NAME#<last_name>#<first_name>#<client_id>
   entity_type: 'CLIENT';
   data: Client;
 }
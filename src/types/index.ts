@@ -17,6 +17,12 @@ export * from './chat';
 // Intent types
 export * from './intent';
 
+// Auth types
+export * from './auth';
+
+// Audit types
+export * from './audit';
+
 /**
  * Common API response wrapper
  */
@@ -53,6 +59,10 @@ export interface BaseRecord {
   sk: string;
   GSI1PK?: string;
   GSI1SK?: string;
+  GSI2PK?: string;
+  GSI2SK?: string;
+  GSI3PK?: string;
+  GSI3SK?: string;
   entity_type: string;
   created_at?: string;
   updated_at?: string;
@@ -86,6 +86,7 @@ export interface ExtractedEntities {
   policy_id?: string;
   policy_number?: string;
   policy_type?: string;
+  policy_status?: string;
 
   // Time entities
   date?: string;
@@ -106,6 +107,8 @@ export interface IntentClassification {
   entities: ExtractedEntities;
   confidence: number; // 0-1
   raw_message: string;
+  source?: 'pattern' | 'llm';
+  alternatives?: UserIntent[]; // Other intents whose patterns also matched
 }
 
 /**
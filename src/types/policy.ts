@@ -180,8 +180,12 @@ export interface PolicyFilters {
 export interface PolicyRecord {
   pk: string; // POLICY#<policy_id>
   sk: string; // DETAIL
-  GSI1PK: string; // CLIENT#<client_id>
-  GSI1SK: string; // POLICY#<policy_id>
+  GSI1PK?: string; // CLIENT#<client_id>
+  GSI1SK?: string; // POLICY#<renewal_date or NONE>#<policy_id>
+  GSI2PK?: string; // TYPE#POLICY
+  GSI2SK?: string; // RENEWAL#<renewal_date or NONE>#<policy_id>
+  GSI3PK?: string; // POLICY#STATUS#<policy_status>
+  GSI3SK?: string; // RENEWAL#<renewal_date or NONE>#<policy_id>
   entity_type: 'POLICY';
   data: Policy;
 }
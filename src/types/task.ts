@@ -68,6 +68,7 @@ export interface Task {
   // Audit
   created_by?: string;
   updated_by?: string;
+  record_version?: number;
 }
 
 /**
@@ -115,8 +116,12 @@ export interface TaskUpdate {
 export interface TaskRecord {
   pk: string; // TASK#<task_id>
   sk: string; // DETAIL
-  GSI1PK: string; // STATUS#<status> or CLIENT#<client_id>
-  GSI1SK: string; // DUE#<due_date> or TASK#<task_id>
+  GSI1PK?: string; // CLIENT#<client_id> (unset for tasks without a client)
+  GSI1SK?: string; // TASK#<due_date>#<task_id>
+  GSI2PK?: string; // TYPE#TASK
+  GSI2SK?: string; // DUE#<due_date>#<task_id>
+  GSI3PK?: string; // TASK#STATUS#<status>
+  GSI3SK?: string; // DUE#<due_date>#<task_id>
   entity_type: 'TASK';
   data: Task;
 }